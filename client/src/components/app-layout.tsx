@@ -0,0 +1,23 @@
+import { Outlet } from "react-router"
+import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar"
+import { AppSidebar } from "@/components/app-sidebar"
+import { SiteHeader } from "@/components/site-header"
+
+/**
+ * Sidebar and header shared by every page, with the current page in the inset
+ */
+export function AppLayout() {
+  return (
+    <div className="[--header-height:calc(var(--spacing)*14)]">
+      <SidebarProvider className="flex flex-col">
+        <SiteHeader />
+        <div className="flex flex-1">
+          <AppSidebar />
+          <SidebarInset>
+            <Outlet />
+          </SidebarInset>
+        </div>
+      </SidebarProvider>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { Split } from "lucide-react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { FunnelBreakdownProperty } from "@trainwell-funnel/shared"
+
+const NO_BREAKDOWN = "none"
+
+const BREAKDOWN_LABELS: Record<FunnelBreakdownProperty, string> = {
+  utm_source: "UTM source",
+  utm_medium: "UTM medium",
+  utm_campaign: "UTM campaign",
+  hostname: "Hostname",
+  platform: "Platform",
+  landing_path: "Landing page",
+}
+
+interface BreakdownSelectProps {
+  value?: FunnelBreakdownProperty
+  onChange: (property: FunnelBreakdownProperty | undefined) => void
+}
+
+export function BreakdownSelect({ value, onChange }: BreakdownSelectProps) {
+  const handleChange = (key: string) => {
+    onChange(key === NO_BREAKDOWN ? undefined : (key as FunnelBreakdownProperty))
+  }
+
+  return (
+    <Select value={value ?? NO_BREAKDOWN} onValueChange={handleChange}>
+      <SelectTrigger className="w-[200px]" aria-label="Breakdown">
+        <Split className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_BREAKDOWN}>No breakdown</SelectItem>
+        {(Object.keys(BREAKDOWN_LABELS) as FunnelBreakdownProperty[]).map((property) => (
+          <SelectItem key={property} value={property}>
+            By {BREAKDOWN_LABELS[property]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
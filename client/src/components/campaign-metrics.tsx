@@ -7,6 +7,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import { formatDuration } from "@/lib/format-duration"
 import type { CampaignMetrics } from "@trainwell-funnel/shared"
 
 interface CampaignMetricsTableProps {
@@ -68,6 +69,9 @@ export function CampaignMetricsTable({ campaigns, isLoading }: CampaignMetricsTa
               <TableHead className="text-right">Total Users</TableHead>
               <TableHead className="text-right">First Views</TableHead>
               <TableHead className="text-right">Conversion</TableHead>
+              <TableHead className="text-right">Avg Session</TableHead>
+              <TableHead className="text-right">Bounce Rate</TableHead>
+              <TableHead className="text-right">Pages / Session</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -97,6 +101,18 @@ export function CampaignMetricsTable({ campaigns, isLoading }: CampaignMetricsTa
                     {campaign.conversionRate.toFixed(1)}%
                   </span>
                 </TableCell>
+                {/* Session metrics are missing when no session landed with this campaign */}
+                <TableCell className="text-right">
+                  {campaign.avgSessionDuration !== undefined
+                    ? formatDuration(campaign.avgSessionDuration)
+                    : '-'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {campaign.bounceRate !== undefined ? `${campaign.bounceRate.toFixed(1)}%` : '-'}
+                </TableCell>
+                <TableCell className="text-right">
+                  {campaign.avgPages !== undefined ? campaign.avgPages.toFixed(1) : '-'}
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
@@ -0,0 +1,51 @@
+import { Timer } from "lucide-react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ConversionWindow } from "@trainwell-funnel/shared"
+
+const NO_WINDOW = "none"
+
+const WINDOW_OPTIONS: { label: string; window: ConversionWindow }[] = [
+  { label: "30 minutes", window: { value: 30, unit: "minutes" } },
+  { label: "1 hour", window: { value: 1, unit: "hours" } },
+  { label: "1 day", window: { value: 1, unit: "days" } },
+  { label: "7 days", window: { value: 7, unit: "days" } },
+  { label: "14 days", window: { value: 14, unit: "days" } },
+  { label: "30 days", window: { value: 30, unit: "days" } },
+]
+
+const toKey = (window: ConversionWindow) => `${window.value}-${window.unit}`
+
+interface ConversionWindowSelectProps {
+  value?: ConversionWindow
+  onChange: (window: ConversionWindow | undefined) => void
+}
+
+export function ConversionWindowSelect({ value, onChange }: ConversionWindowSelectProps) {
+  const handleChange = (key: string) => {
+    const option = WINDOW_OPTIONS.find((option) => toKey(option.window) === key)
+    onChange(option?.window)
+  }
+
+  return (
+    <Select value={value ? toKey(value) : NO_WINDOW} onValueChange={handleChange}>
+      <SelectTrigger className="w-[200px]" aria-label="Conversion window">
+        <Timer className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_WINDOW}>No conversion window</SelectItem>
+        {WINDOW_OPTIONS.map((option) => (
+          <SelectItem key={toKey(option.window)} value={toKey(option.window)}>
+            Within {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
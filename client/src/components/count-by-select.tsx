@@ -0,0 +1,37 @@
+import { Users } from "lucide-react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { FunnelCountBy } from "@trainwell-funnel/shared"
+
+const COUNT_BY_LABELS: Record<FunnelCountBy, string> = {
+  user: "Count users",
+  session: "Count sessions",
+}
+
+interface CountBySelectProps {
+  value: FunnelCountBy
+  onChange: (countBy: FunnelCountBy) => void
+}
+
+export function CountBySelect({ value, onChange }: CountBySelectProps) {
+  return (
+    <Select value={value} onValueChange={(key: FunnelCountBy) => onChange(key)}>
+      <SelectTrigger className="w-[170px]" aria-label="Count by">
+        <Users className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(COUNT_BY_LABELS) as FunnelCountBy[]).map((countBy) => (
+          <SelectItem key={countBy} value={countBy}>
+            {COUNT_BY_LABELS[countBy]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -11,19 +11,51 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { FunnelComparisonMode, FunnelComparisonRequest } from "@trainwell-funnel/shared"
+
+const NO_COMPARISON = "none"
+
+const COMPARISON_LABELS: Record<FunnelComparisonMode, string> = {
+  previousPeriod: "Previous period",
+  previousYear: "Same period last year",
+  custom: "Custom range",
+}
+
+const toCustomComparison = (range: DateRange | undefined): FunnelComparisonRequest | undefined =>
+  range?.from && range.to
+    ? { mode: "custom", startDate: range.from.toISOString(), endDate: range.to.toISOString() }
+    : undefined
 
 interface DateRangePickerProps {
   value?: DateRange
   onChange?: (range: DateRange | undefined) => void
+  compareTo?: FunnelComparisonRequest
+  onCompareToChange?: (compareTo: FunnelComparisonRequest | undefined) => void // Shows the "compare to" option when set
   className?: string
 }
 
 export function DateRangePicker({
   value,
   onChange,
+  compareTo,
+  onCompareToChange,
   className,
 }: DateRangePickerProps) {
   const [date, setDate] = React.useState<DateRange | undefined>(value)
+  const [customRange, setCustomRange] = React.useState<DateRange | undefined>(
+    compareTo?.startDate && compareTo.endDate
+      ? { from: new Date(compareTo.startDate), to: new Date(compareTo.endDate) }
+      : undefined
+  )
+  // Custom mode stays selected while its range is still being picked
+  const [customMode, setCustomMode] = React.useState(compareTo?.mode === "custom")
 
   React.useEffect(() => {
     setDate(value)
@@ -34,6 +66,28 @@ export function DateRangePicker({
     onChange?.(range)
   }
 
+  const handleModeChange = (key: string) => {
+    setCustomMode(key === "custom")
+    if (key === NO_COMPARISON) {
+      onCompareToChange?.(undefined)
+    } else if (key === "custom") {
+      // Wait for a complete custom range before comparing
+      onCompareToChange?.(toCustomComparison(customRange))
+    } else {
+      onCompareToChange?.({ mode: key as FunnelComparisonMode })
+    }
+  }
+
+  const handleCustomSelect = (range: DateRange | undefined) => {
+    setCustomRange(range)
+    const comparison = toCustomComparison(range)
+    if (comparison) {
+      onCompareToChange?.(comparison)
+    }
+  }
+
+  const comparisonMode = customMode ? "custom" : compareTo?.mode ?? NO_COMPARISON
+
   return (
     <div className={cn("grid gap-2", className)}>
       <Popover>
@@ -42,7 +96,8 @@ export function DateRangePicker({
             id="date"
             variant="outline"
             className={cn(
-              "w-[300px] justify-start text-left font-normal",
+              compareTo ? "w-[400px]" : "w-[300px]",
+              "justify-start text-left font-normal",
               !date && "text-muted-foreground"
             )}
           >
@@ -59,6 +114,11 @@ export function DateRangePicker({
             ) : (
               <span>Pick a date range</span>
             )}
+            {compareTo && (
+              <span className="ml-auto text-xs text-muted-foreground">
+                vs {COMPARISON_LABELS[compareTo.mode].toLowerCase()}
+              </span>
+            )}
           </Button>
         </PopoverTrigger>
         <PopoverContent className="w-auto p-0" align="start">
@@ -71,6 +131,36 @@ export function DateRangePicker({
             numberOfMonths={2}
             toDate={new Date()}
           />
+          {onCompareToChange && (
+            <div className="border-t p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Compare to</span>
+                <Select value={comparisonMode} onValueChange={handleModeChange}>
+                  <SelectTrigger className="h-8 w-[200px]" aria-label="Compare to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COMPARISON}>No comparison</SelectItem>
+                    {(Object.keys(COMPARISON_LABELS) as FunnelComparisonMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {COMPARISON_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {comparisonMode === "custom" && (
+                <Calendar
+                  mode="range"
+                  defaultMonth={customRange?.from}
+                  selected={customRange}
+                  onSelect={handleCustomSelect}
+                  numberOfMonths={2}
+                  toDate={new Date()}
+                />
+              )}
+            </div>
+          )}
         </PopoverContent>
       </Popover>
     </div>
@@ -0,0 +1,37 @@
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { MetricDelta } from "@trainwell-funnel/shared"
+
+interface DeltaIndicatorProps {
+  delta: MetricDelta
+  unit?: "count" | "points" // Rates change by percentage points rather than by a count
+  className?: string
+}
+
+/**
+ * Change against the comparison period with an up/down arrow
+ */
+export function DeltaIndicator({ delta, unit = "count", className }: DeltaIndicatorProps) {
+  const { absolute, relative } = delta
+  const Arrow = absolute >= 0 ? ArrowUp : ArrowDown
+  const sign = absolute > 0 ? "+" : absolute < 0 ? "-" : ""
+  const absoluteLabel = unit === "points"
+    ? `${sign}${Math.abs(absolute).toFixed(1)} pts`
+    : `${sign}${Math.abs(absolute).toLocaleString()}`
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium",
+        absolute > 0 && "text-green-600",
+        absolute < 0 && "text-red-600",
+        absolute === 0 && "text-muted-foreground",
+        className
+      )}
+    >
+      {absolute !== 0 && <Arrow className="h-3 w-3" />}
+      {absoluteLabel}
+      {unit === "count" && relative !== null && ` (${sign}${Math.abs(relative).toFixed(1)}%)`}
+    </span>
+  )
+}
@@ -0,0 +1,118 @@
+import { Link } from "react-router"
+import { format } from "date-fns"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { Button } from "@/components/ui/button"
+import { useEvent } from "@/hooks/use-events"
+import type { EventDTO } from "@trainwell-funnel/shared"
+
+// Event fields the explorer can filter on from the detail panel
+export type EventFilterField = "user_id" | "session_id" | "hostname" | "path"
+
+interface EventDetailSheetProps {
+  eventId: string
+  onClose: () => void
+  onFilter: (field: EventFilterField, value: string) => void
+}
+
+function DetailRow({ label, value, mono }: { label: string; value: string | null | undefined; mono?: boolean }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 py-1.5 text-sm">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className={`col-span-2 break-all ${mono ? "font-mono text-xs" : ""}`}>
+        {value ?? <span className="text-muted-foreground">–</span>}
+      </dd>
+    </div>
+  )
+}
+
+function EventDetails({ event, onFilter }: { event: EventDTO; onFilter: EventDetailSheetProps["onFilter"] }) {
+  const utm = Object.entries(event.content.utm ?? {}).filter(([, value]) => value)
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <h3 className="mb-1 text-sm font-medium">Event</h3>
+        <dl className="divide-y">
+          <DetailRow label="ID" value={event.id} mono />
+          <DetailRow label="Date" value={format(new Date(event.date), "MMM d, yyyy HH:mm:ss.SSS")} />
+          <DetailRow label="Type" value={event.type} />
+          <DetailRow label="Platform" value={event.platform} />
+          <DetailRow label="Version" value={event.version} />
+        </dl>
+      </section>
+
+      <section>
+        <h3 className="mb-1 text-sm font-medium">Identity</h3>
+        <dl className="divide-y">
+          <DetailRow label="User" value={event.user_id} mono />
+          <DetailRow label="Session" value={event.session_id} mono />
+          <DetailRow label="Device" value={event.device_id} mono />
+        </dl>
+      </section>
+
+      <section>
+        <h3 className="mb-1 text-sm font-medium">Page</h3>
+        <dl className="divide-y">
+          <DetailRow label="Hostname" value={event.content.hostname} />
+          <DetailRow label="Path" value={event.content.path} />
+          <DetailRow label="Query string" value={event.content.queryString} mono />
+          <DetailRow label="First view" value={event.content.first_view ? "Yes" : "No"} />
+          {utm.map(([key, value]) => (
+            <DetailRow key={key} label={key} value={value} />
+          ))}
+        </dl>
+      </section>
+
+      <section className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => onFilter("user_id", event.user_id)}>
+          Events for this user
+        </Button>
+        <Button size="sm" variant="outline" asChild>
+          <Link to={`/users/${encodeURIComponent(event.user_id)}`}>User timeline</Link>
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onFilter("session_id", event.session_id)}>
+          Events in this session
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onFilter("path", event.content.path)}>
+          Views of this path
+        </Button>
+      </section>
+    </div>
+  )
+}
+
+/**
+ * Side panel with every field of a single event
+ */
+export function EventDetailSheet({ eventId, onClose, onFilter }: EventDetailSheetProps) {
+  const { data: event, isPending, isError, error } = useEvent(eventId)
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{event?.content.path ?? "Event"}</SheetTitle>
+          <SheetDescription>{event?.content.hostname ?? "Loading event..."}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-auto px-4 pb-4">
+          {isError ? (
+            <p className="text-sm text-destructive">
+              {error instanceof Error ? error.message : "Failed to load event"}
+            </p>
+          ) : isPending ? (
+            <p className="text-sm text-muted-foreground">Loading event...</p>
+          ) : (
+            <EventDetails event={event} onFilter={onFilter} />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
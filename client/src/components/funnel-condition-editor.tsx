@@ -0,0 +1,246 @@
+import { Plus, Trash2, ListTree } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type {
+  FunnelConditionField,
+  FunnelConditionGroup,
+  FunnelConditionOperator,
+  FunnelStepCondition,
+} from "@trainwell-funnel/shared"
+import { createCondition, isConditionGroup, operatorNeedsValue } from "@/lib/funnel-conditions"
+
+// Matches the server's nesting limit
+const MAX_DEPTH = 3
+
+const FIELD_LABELS: Record<FunnelConditionField, string> = {
+  path: "Path",
+  hostname: "Hostname",
+  first_view: "First view",
+  utm_source: "UTM source",
+  utm_medium: "UTM medium",
+  utm_campaign: "UTM campaign",
+  utm_term: "UTM term",
+  utm_content: "UTM content",
+  platform: "Platform",
+  device_id: "Device ID",
+}
+
+const OPERATOR_LABELS: Record<FunnelConditionOperator, string> = {
+  equals: "Equals",
+  notEquals: "Does not equal",
+  startsWith: "Starts with",
+  contains: "Contains",
+  regex: "Matches regex",
+  glob: "Matches glob",
+  exists: "Is set",
+  notExists: "Is not set",
+}
+
+const BOOLEAN_OPERATORS: FunnelConditionOperator[] = ["equals", "notEquals"]
+
+interface ConditionRowProps {
+  condition: FunnelStepCondition
+  onChange: (condition: FunnelStepCondition) => void
+  onRemove: () => void
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  const isBoolean = condition.field === "first_view"
+  const operators = isBoolean
+    ? BOOLEAN_OPERATORS
+    : (Object.keys(OPERATOR_LABELS) as FunnelConditionOperator[])
+
+  const changeField = (field: FunnelConditionField) => {
+    if (field === "first_view") {
+      onChange({ field, operator: "equals", value: true })
+    } else {
+      const value = typeof condition.value === "string" ? condition.value : ""
+      onChange({ ...condition, field, value })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={condition.field} onValueChange={changeField}>
+        <SelectTrigger className="w-[140px]" aria-label="Field">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FIELD_LABELS) as FunnelConditionField[]).map((field) => (
+            <SelectItem key={field} value={field}>
+              {FIELD_LABELS[field]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={condition.operator}
+        onValueChange={(operator: FunnelConditionOperator) =>
+          onChange({ ...condition, operator })
+        }
+      >
+        <SelectTrigger className="w-[140px]" aria-label="Operator">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isBoolean ? (
+        <Select
+          value={String(condition.value)}
+          onValueChange={(value) => onChange({ ...condition, value: value === "true" })}
+        >
+          <SelectTrigger className="flex-1" aria-label="Value">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">True</SelectItem>
+            <SelectItem value="false">False</SelectItem>
+          </SelectContent>
+        </Select>
+      ) : operatorNeedsValue(condition.operator) ? (
+        <Input
+          className="flex-1"
+          aria-label="Value"
+          value={String(condition.value ?? "")}
+          onChange={(e) => onChange({ ...condition, value: e.target.value.trim() })}
+          placeholder="Value"
+        />
+      ) : (
+        <div className="flex-1" />
+      )}
+
+      <Button
+        onClick={onRemove}
+        size="sm"
+        variant="ghost"
+        className="h-8 w-8 p-0"
+        aria-label="Remove condition"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+interface FunnelConditionEditorProps {
+  group: FunnelConditionGroup
+  onChange: (group: FunnelConditionGroup) => void
+  onRemove?: () => void
+  depth?: number
+}
+
+/**
+ * Editor for a group of step conditions combined with AND/OR
+ * Groups can contain nested groups up to the server's depth limit
+ */
+export function FunnelConditionEditor({
+  group,
+  onChange,
+  onRemove,
+  depth = 1,
+}: FunnelConditionEditorProps) {
+  const updateCondition = (
+    index: number,
+    condition: FunnelStepCondition | FunnelConditionGroup
+  ) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map((current, i) => (i === index ? condition : current)),
+    })
+  }
+
+  const removeCondition = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  const addCondition = () => {
+    onChange({ ...group, conditions: [...group.conditions, createCondition()] })
+  }
+
+  const addGroup = () => {
+    const nested: FunnelConditionGroup = {
+      combinator: group.combinator === "and" ? "or" : "and",
+      conditions: [createCondition()],
+    }
+    onChange({ ...group, conditions: [...group.conditions, nested] })
+  }
+
+  return (
+    <div className={depth > 1 ? "border-l-2 pl-3 space-y-2" : "space-y-2"}>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground">Match</span>
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator: "and" | "or") => onChange({ ...group, combinator })}
+        >
+          <SelectTrigger className="h-8 w-[90px]" aria-label="Combinator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">All</SelectItem>
+            <SelectItem value="or">Any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">of the following</span>
+        {onRemove && (
+          <Button
+            onClick={onRemove}
+            size="sm"
+            variant="ghost"
+            className="ml-auto h-8 w-8 p-0"
+            aria-label="Remove group"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((condition, index) =>
+        isConditionGroup(condition) ? (
+          <FunnelConditionEditor
+            key={index}
+            group={condition}
+            depth={depth + 1}
+            onChange={(nested) => updateCondition(index, nested)}
+            onRemove={() => removeCondition(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={condition}
+            onChange={(updated) => updateCondition(index, updated)}
+            onRemove={() => removeCondition(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={addCondition} size="sm" variant="outline" className="h-8">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button onClick={addGroup} size="sm" variant="outline" className="h-8">
+            <ListTree className="h-4 w-4 mr-1" />
+            Add Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
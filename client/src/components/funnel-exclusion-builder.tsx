@@ -0,0 +1,188 @@
+import { Ban, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { FunnelMatchOperator } from "@trainwell-funnel/shared"
+import type { FunnelStep } from "@/components/funnel-step-builder"
+
+export interface FunnelExclusionRule {
+  id: string
+  matchType: "path" | "hostname"
+  matchValue: string
+  operator: FunnelMatchOperator
+  fromStepId: string // Steps are referenced by id so reordering keeps the range
+  toStepId: string
+}
+
+const OPERATOR_LABELS: Record<FunnelMatchOperator, string> = {
+  equals: "Equals",
+  startsWith: "Starts with",
+  contains: "Contains",
+  regex: "Matches regex",
+  glob: "Matches glob",
+}
+
+interface FunnelExclusionBuilderProps {
+  steps: FunnelStep[]
+  exclusions: FunnelExclusionRule[]
+  onChange: (exclusions: FunnelExclusionRule[]) => void
+}
+
+/**
+ * Editor for events that disqualify users between two funnel steps
+ */
+export function FunnelExclusionBuilder({ steps, exclusions, onChange }: FunnelExclusionBuilderProps) {
+  const stepIndex = (id: string) => steps.findIndex((step) => step.id === id)
+
+  const addExclusion = () => {
+    onChange([
+      ...exclusions,
+      {
+        id: crypto.randomUUID(),
+        matchType: "path",
+        matchValue: "",
+        operator: "equals",
+        fromStepId: steps[0]!.id,
+        toStepId: steps[1]!.id,
+      },
+    ])
+  }
+
+  const updateExclusion = (id: string, updates: Partial<FunnelExclusionRule>) => {
+    onChange(
+      exclusions.map((exclusion) => {
+        if (exclusion.id !== id) {
+          return exclusion
+        }
+        const updated = { ...exclusion, ...updates }
+        // Keep the end step after the start step
+        if (stepIndex(updated.toStepId) <= stepIndex(updated.fromStepId)) {
+          updated.toStepId = steps[stepIndex(updated.fromStepId) + 1]!.id
+        }
+        return updated
+      })
+    )
+  }
+
+  const removeExclusion = (id: string) => {
+    onChange(exclusions.filter((exclusion) => exclusion.id !== id))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Exclusions</h3>
+        <Button onClick={addExclusion} size="sm" variant="outline" className="h-8">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Exclusion
+        </Button>
+      </div>
+
+      {exclusions.map((exclusion) => (
+        <div key={exclusion.id} className="border rounded-lg p-3 space-y-2 bg-card">
+          <div className="flex items-center gap-2">
+            <Ban className="h-4 w-4 text-destructive" />
+            <Select
+              value={exclusion.matchType}
+              onValueChange={(value: "path" | "hostname") =>
+                updateExclusion(exclusion.id, { matchType: value })
+              }
+            >
+              <SelectTrigger className="h-8 w-[110px]" aria-label="Match by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="path">Path</SelectItem>
+                <SelectItem value="hostname">Hostname</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={exclusion.operator}
+              onValueChange={(value: FunnelMatchOperator) =>
+                updateExclusion(exclusion.id, { operator: value })
+              }
+            >
+              <SelectTrigger className="h-8 w-[130px]" aria-label="Operator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OPERATOR_LABELS) as FunnelMatchOperator[]).map((operator) => (
+                  <SelectItem key={operator} value={operator}>
+                    {OPERATOR_LABELS[operator]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="h-8 flex-1"
+              aria-label="Excluded value"
+              value={exclusion.matchValue}
+              onChange={(e) =>
+                updateExclusion(exclusion.id, { matchValue: e.target.value.trim() })
+              }
+              placeholder={exclusion.matchType === "path" ? "/cancel" : "example.com"}
+            />
+            <Button
+              onClick={() => removeExclusion(exclusion.id)}
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              aria-label="Remove exclusion"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>Between</span>
+            <Select
+              value={exclusion.fromStepId}
+              onValueChange={(fromStepId) => updateExclusion(exclusion.id, { fromStepId })}
+            >
+              <SelectTrigger className="h-8 flex-1" aria-label="From step">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {steps.slice(0, -1).map((step, index) => (
+                  <SelectItem key={step.id} value={step.id}>
+                    {index + 1}. {step.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>and</span>
+            <Select
+              value={exclusion.toStepId}
+              onValueChange={(toStepId) => updateExclusion(exclusion.id, { toStepId })}
+            >
+              <SelectTrigger className="h-8 flex-1" aria-label="To step">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {steps.map((step, index) =>
+                  index > stepIndex(exclusion.fromStepId) ? (
+                    <SelectItem key={step.id} value={step.id}>
+                      {index + 1}. {step.name}
+                    </SelectItem>
+                  ) : null
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      {exclusions.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Users who visit an excluded page between the chosen steps are removed from the funnel.
+        </p>
+      )}
+    </div>
+  )
+}
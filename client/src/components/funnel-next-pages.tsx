@@ -0,0 +1,66 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useFunnelNextPages } from "@/hooks/use-events"
+import type { FunnelNextPagesRequest } from "@trainwell-funnel/shared"
+
+interface FunnelNextPagesProps {
+  request: FunnelNextPagesRequest
+}
+
+/**
+ * Most common pages visited right after dropping off at a funnel step
+ */
+export function FunnelNextPages({ request }: FunnelNextPagesProps) {
+  const { data, isPending, isError } = useFunnelNextPages(request)
+  const result = data?.data
+
+  if (isError || data?.success === false) {
+    return <p className="text-sm text-destructive">{data?.error ?? "Failed to load next pages"}</p>
+  }
+
+  if (isPending || !result) {
+    return <p className="text-sm text-muted-foreground">Loading next pages...</p>
+  }
+
+  if (result.dropped === 0) {
+    return <p className="text-sm text-muted-foreground">Nobody dropped off at this step</p>
+  }
+
+  const exitedShare = (result.exited / result.dropped) * 100
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        {result.dropped.toLocaleString()} dropped off, {result.exited.toLocaleString()} (
+        {exitedShare.toFixed(1)}%) without viewing another page
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Page</TableHead>
+            <TableHead className="text-right">Count</TableHead>
+            <TableHead className="text-right">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.pages.map((page) => (
+            <TableRow key={`${page.hostname}${page.path}`}>
+              <TableCell>
+                <div className="font-medium">{page.path}</div>
+                <div className="text-xs text-muted-foreground">{page.hostname}</div>
+              </TableCell>
+              <TableCell className="text-right">{page.count.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{page.share.toFixed(1)}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { ArrowRightLeft } from "lucide-react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { FunnelOrder } from "@trainwell-funnel/shared"
+
+const ORDER_LABELS: Record<FunnelOrder, string> = {
+  strict: "Strict order",
+  sequential: "Sequential order",
+  any: "Any order",
+}
+
+interface FunnelOrderSelectProps {
+  value: FunnelOrder
+  onChange: (order: FunnelOrder) => void
+}
+
+export function FunnelOrderSelect({ value, onChange }: FunnelOrderSelectProps) {
+  return (
+    <Select value={value} onValueChange={(key: FunnelOrder) => onChange(key)}>
+      <SelectTrigger className="w-[180px]" aria-label="Step order">
+        <ArrowRightLeft className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ORDER_LABELS) as FunnelOrder[]).map((order) => (
+          <SelectItem key={order} value={order}>
+            {ORDER_LABELS[order]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
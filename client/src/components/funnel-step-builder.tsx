@@ -1,4 +1,4 @@
-import { Plus, Trash2, GripVertical } from "lucide-react"
+import { Plus, Trash2, GripVertical, SlidersHorizontal, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -9,32 +9,83 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { FunnelConditionEditor } from "@/components/funnel-condition-editor"
+import { FunnelExclusionBuilder, type FunnelExclusionRule } from "@/components/funnel-exclusion-builder"
+import type { FunnelConditionGroup, FunnelMatchOperator } from "@trainwell-funnel/shared"
+
+export interface FunnelStepAlternative {
+  matchType: "path" | "hostname"
+  matchValue: string
+  operator: FunnelMatchOperator
+}
 
 export interface FunnelStep {
   id: string
   name: string
   matchType: "path" | "hostname"
   matchValue: string
+  operator: FunnelMatchOperator
+  conditions?: FunnelConditionGroup // Replaces the simple matcher when set
+  alternatives?: FunnelStepAlternative[] // Other matchers that also complete the step
+  optional?: boolean // Only applies between the first and last steps
+}
+
+const OPERATOR_LABELS: Record<FunnelMatchOperator, string> = {
+  equals: "Equals",
+  startsWith: "Starts with",
+  contains: "Contains",
+  regex: "Matches regex",
+  glob: "Matches glob",
+}
+
+const getPlaceholder = (step: FunnelStepAlternative): string => {
+  switch (step.operator) {
+    case "regex":
+      return step.matchType === "path" ? "^/checkout/step-\\d+" : "^(www\\.)?trainwell\\.net$"
+    case "glob":
+      return step.matchType === "path" ? "/plans/*/checkout" : "*.trainwell.net"
+    case "contains":
+      return step.matchType === "path" ? "checkout" : "trainwell"
+    default:
+      return step.matchType === "path" ? "/landing" : "example.com"
+  }
 }
 
 interface FunnelStepBuilderProps {
   steps: FunnelStep[]
   onChange: (steps: FunnelStep[]) => void
+  exclusions?: FunnelExclusionRule[]
+  onExclusionsChange?: (exclusions: FunnelExclusionRule[]) => void
 }
 
-export function FunnelStepBuilder({ steps, onChange }: FunnelStepBuilderProps) {
+export function FunnelStepBuilder({
+  steps,
+  onChange,
+  exclusions = [],
+  onExclusionsChange,
+}: FunnelStepBuilderProps) {
   const addStep = () => {
     const newStep: FunnelStep = {
       id: crypto.randomUUID(),
       name: `Step ${steps.length + 1}`,
       matchType: "path",
       matchValue: "",
+      operator: "equals",
     }
     onChange([...steps, newStep])
   }
 
   const removeStep = (id: string) => {
-    onChange(steps.filter((step) => step.id !== id))
+    const remaining = steps.filter((step) => step.id !== id)
+    onChange(remaining)
+
+    // Exclusions need two steps to sit between
+    const kept = remaining.length > 1
+      ? exclusions.filter((exclusion) => exclusion.fromStepId !== id && exclusion.toStepId !== id)
+      : []
+    if (kept.length !== exclusions.length) {
+      onExclusionsChange?.(kept)
+    }
   }
 
   const updateStep = (id: string, updates: Partial<FunnelStep>) => {
@@ -43,6 +94,53 @@ export function FunnelStepBuilder({ steps, onChange }: FunnelStepBuilderProps) {
     )
   }
 
+  // Seed advanced mode with the current simple matchers so nothing is lost
+  const toggleConditions = (step: FunnelStep) => {
+    if (step.conditions) {
+      updateStep(step.id, { conditions: undefined })
+      return
+    }
+
+    const matchers = [step, ...(step.alternatives ?? [])]
+    updateStep(step.id, {
+      alternatives: undefined,
+      conditions: {
+        combinator: matchers.length > 1 ? "or" : "and",
+        conditions: matchers.map((matcher) => ({
+          field: matcher.matchType,
+          operator: matcher.operator,
+          value: matcher.matchValue,
+        })),
+      },
+    })
+  }
+
+  const addAlternative = (step: FunnelStep) => {
+    updateStep(step.id, {
+      alternatives: [
+        ...(step.alternatives ?? []),
+        { matchType: step.matchType, operator: "equals", matchValue: "" },
+      ],
+    })
+  }
+
+  const updateAlternative = (
+    step: FunnelStep,
+    index: number,
+    updates: Partial<FunnelStepAlternative>
+  ) => {
+    updateStep(step.id, {
+      alternatives: step.alternatives?.map((alternative, i) =>
+        i === index ? { ...alternative, ...updates } : alternative
+      ),
+    })
+  }
+
+  const removeAlternative = (step: FunnelStep, index: number) => {
+    const alternatives = step.alternatives?.filter((_, i) => i !== index)
+    updateStep(step.id, { alternatives: alternatives?.length ? alternatives : undefined })
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -81,11 +179,31 @@ export function FunnelStepBuilder({ steps, onChange }: FunnelStepBuilderProps) {
               <div className="flex items-center gap-2">
                 <GripVertical className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm font-medium">Step {index + 1}</span>
+                {index > 0 && index < steps.length - 1 && (
+                  <Button
+                    onClick={() => updateStep(step.id, { optional: !step.optional })}
+                    size="sm"
+                    variant={step.optional ? "secondary" : "ghost"}
+                    className="ml-auto h-8"
+                    aria-pressed={!!step.optional}
+                  >
+                    Optional
+                  </Button>
+                )}
+                <Button
+                  onClick={() => toggleConditions(step)}
+                  size="sm"
+                  variant={step.conditions ? "secondary" : "ghost"}
+                  className={index > 0 && index < steps.length - 1 ? "h-8" : "ml-auto h-8"}
+                >
+                  <SlidersHorizontal className="h-4 w-4 mr-1" />
+                  {step.conditions ? "Simple Match" : "Conditions"}
+                </Button>
                 <Button
                   onClick={() => removeStep(step.id)}
                   size="sm"
                   variant="ghost"
-                  className="ml-auto h-8 w-8 p-0"
+                  className="h-8 w-8 p-0"
                 >
                   <Trash2 className="h-4 w-4" />
                 </Button>
@@ -103,43 +221,134 @@ export function FunnelStepBuilder({ steps, onChange }: FunnelStepBuilderProps) {
                 />
               </div>
 
-              <div className="grid grid-cols-2 gap-3">
-                <div className="space-y-2">
-                  <Label htmlFor={`match-type-${step.id}`}>Match By</Label>
-                  <Select
-                    value={step.matchType}
-                    onValueChange={(value: "path" | "hostname") =>
-                      updateStep(step.id, { matchType: value })
-                    }
+              {step.conditions ? (
+                <FunnelConditionEditor
+                  group={step.conditions}
+                  onChange={(conditions) => updateStep(step.id, { conditions })}
+                />
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor={`match-type-${step.id}`}>Match By</Label>
+                      <Select
+                        value={step.matchType}
+                        onValueChange={(value: "path" | "hostname") =>
+                          updateStep(step.id, { matchType: value })
+                        }
+                      >
+                        <SelectTrigger id={`match-type-${step.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="path">Path</SelectItem>
+                          <SelectItem value="hostname">Hostname</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor={`operator-${step.id}`}>Operator</Label>
+                      <Select
+                        value={step.operator}
+                        onValueChange={(value: FunnelMatchOperator) =>
+                          updateStep(step.id, { operator: value })
+                        }
+                      >
+                        <SelectTrigger id={`operator-${step.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(OPERATOR_LABELS) as FunnelMatchOperator[]).map((operator) => (
+                            <SelectItem key={operator} value={operator}>
+                              {OPERATOR_LABELS[operator]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor={`match-value-${step.id}`}>
+                      {step.matchType === "path" ? "Path" : "Hostname"}
+                    </Label>
+                    <Input
+                      id={`match-value-${step.id}`}
+                      value={step.matchValue}
+                      onChange={(e) =>
+                        updateStep(step.id, { matchValue: e.target.value.trim() })
+                      }
+                      placeholder={getPlaceholder(step)}
+                    />
+                  </div>
+
+                  {step.alternatives?.map((alternative, altIndex) => (
+                    <div key={altIndex} className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-6">or</span>
+                      <Select
+                        value={alternative.matchType}
+                        onValueChange={(value: "path" | "hostname") =>
+                          updateAlternative(step, altIndex, { matchType: value })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[110px]" aria-label="Match by">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="path">Path</SelectItem>
+                          <SelectItem value="hostname">Hostname</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={alternative.operator}
+                        onValueChange={(value: FunnelMatchOperator) =>
+                          updateAlternative(step, altIndex, { operator: value })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-[130px]" aria-label="Operator">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(OPERATOR_LABELS) as FunnelMatchOperator[]).map((operator) => (
+                            <SelectItem key={operator} value={operator}>
+                              {OPERATOR_LABELS[operator]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="h-8 flex-1"
+                        aria-label="Alternative value"
+                        value={alternative.matchValue}
+                        onChange={(e) =>
+                          updateAlternative(step, altIndex, { matchValue: e.target.value.trim() })
+                        }
+                        placeholder={getPlaceholder(alternative)}
+                      />
+                      <Button
+                        onClick={() => removeAlternative(step, altIndex)}
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        aria-label="Remove alternative"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    onClick={() => addAlternative(step)}
+                    size="sm"
+                    variant="ghost"
+                    className="h-8"
                   >
-                    <SelectTrigger id={`match-type-${step.id}`}>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="path">Path</SelectItem>
-                      <SelectItem value="hostname">Hostname</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor={`match-value-${step.id}`}>
-                    {step.matchType === "path" ? "Path" : "Hostname"}
-                  </Label>
-                  <Input
-                    id={`match-value-${step.id}`}
-                    value={step.matchValue}
-                    onChange={(e) =>
-                      updateStep(step.id, { matchValue: e.target.value.trim() })
-                    }
-                    placeholder={
-                      step.matchType === "path"
-                        ? "/landing"
-                        : "example.com"
-                    }
-                  />
-                </div>
-              </div>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Or Match
+                  </Button>
+                </>
+              )}
             </div>
           ))}
         </div>
@@ -148,9 +357,17 @@ export function FunnelStepBuilder({ steps, onChange }: FunnelStepBuilderProps) {
       {steps.length > 0 && (
         <p className="text-xs text-muted-foreground">
           Users must complete each step in order. Step {steps.length} requires
-          completion of all previous steps.
+          completion of all previous steps except optional ones.
         </p>
       )}
+
+      {steps.length > 1 && onExclusionsChange && (
+        <FunnelExclusionBuilder
+          steps={steps}
+          exclusions={exclusions}
+          onChange={onExclusionsChange}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,96 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts"
+import type { FunnelTrendInterval, FunnelTrends } from "@trainwell-funnel/shared"
+
+// Overall conversion first, then one color per step
+const LINE_COLORS = ["#443564", "#775FAB", "#E08A5C", "#4C9A8A", "#D4A72C", "#5B7FC7"]
+
+// Periods start at UTC midnight, so format in UTC to avoid showing the previous day
+const PERIOD_FORMATS: Record<FunnelTrendInterval, Intl.DateTimeFormatOptions> = {
+  day: { month: "short", day: "numeric", timeZone: "UTC" },
+  week: { month: "short", day: "numeric", timeZone: "UTC" },
+  month: { month: "short", year: "numeric", timeZone: "UTC" },
+}
+
+interface FunnelTrendChartProps {
+  trends: FunnelTrends
+}
+
+/**
+ * Conversion rates over time, keyed by the period of each cohort's step 1
+ */
+export function FunnelTrendChart({ trends }: FunnelTrendChartProps) {
+  const steps = trends.points[0]?.steps.slice(1) ?? []
+
+  const data = trends.points.map((point) => ({
+    period: new Date(point.periodStart).toLocaleDateString(undefined, PERIOD_FORMATS[trends.interval]),
+    users: point.summary.totalUsers,
+    overall: point.summary.overallConversionRate,
+    ...Object.fromEntries(
+      point.steps.slice(1).map((step) => [`step_${step.stepIndex}`, step.conversionRate])
+    ),
+  }))
+
+  if (data.length === 0) {
+    return (
+      <div className="flex h-[350px] items-center justify-center text-muted-foreground">
+        <p className="text-sm">No trend data available</p>
+      </div>
+    )
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={350}>
+      <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis dataKey="period" className="text-xs" />
+        <YAxis
+          domain={[0, 100]}
+          tickFormatter={(value: number) => `${value}%`}
+          className="text-xs"
+        />
+        <Tooltip
+          formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+          labelFormatter={(label: string, payload) =>
+            `${label} · ${payload[0]?.payload.users.toLocaleString() ?? 0} users entered`
+          }
+          contentStyle={{ borderRadius: "0.5rem" }}
+        />
+        <Legend
+          wrapperStyle={{ paddingTop: "20px" }}
+          formatter={(value) => (
+            <span className="text-sm">{value}</span>
+          )}
+        />
+        <Line
+          type="monotone"
+          dataKey="overall"
+          name="Overall conversion"
+          stroke={LINE_COLORS[0]}
+          strokeWidth={3}
+          dot={false}
+        />
+        {/* The last step's rate equals the overall conversion, so it is not repeated */}
+        {steps.slice(0, -1).map((step, index) => (
+          <Line
+            key={step.stepIndex}
+            type="monotone"
+            dataKey={`step_${step.stepIndex}`}
+            name={step.step}
+            stroke={LINE_COLORS[(index + 1) % LINE_COLORS.length]}
+            strokeWidth={2}
+            dot={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,174 @@
+import { useState } from "react"
+import { Link } from "react-router"
+import { format } from "date-fns"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Button } from "@/components/ui/button"
+import { FunnelNextPages } from "@/components/funnel-next-pages"
+import { useFunnelUsers } from "@/hooks/use-events"
+import type { FunnelUserStatus, FunnelUsersRequest } from "@trainwell-funnel/shared"
+
+const PAGE_SIZE = 50
+
+const formatEventTime = (date: string) => format(new Date(date), "MMM d, yyyy HH:mm")
+
+// User lists, or the pages drop-offs visited next
+type PanelView = FunnelUserStatus | "next"
+
+const VIEW_DESCRIPTIONS: Record<PanelView, string> = {
+  converted: "Users who reached this step",
+  dropped: "Users who reached this step but no later step",
+  next: "Pages visited right after dropping off, instead of the next step",
+}
+
+// Funnel definition without the step and page to list
+export type FunnelUsersQuery = Omit<FunnelUsersRequest, "stepIndex" | "status" | "limit" | "skip">
+
+interface FunnelUsersPanelProps {
+  funnel: FunnelUsersQuery // Funnel the clicked bar belongs to
+  stepIndex: number
+  onClose: () => void
+}
+
+/**
+ * Side panel listing the users who reached a funnel step, those who dropped off
+ * after it and the pages they went to instead
+ * Mount with a key per step so the view and page reset when another bar is clicked
+ */
+export function FunnelUsersPanel({ funnel, stepIndex, onClose }: FunnelUsersPanelProps) {
+  const [view, setView] = useState<PanelView>("converted")
+  const [skip, setSkip] = useState(0)
+
+  const isLastStep = stepIndex === funnel.steps.length - 1
+  // Unordered funnels have no step after which users drop off
+  const hasNextPages = funnel.order !== "any"
+
+  const usersRequest: FunnelUsersRequest | undefined =
+    view === "next"
+      ? undefined
+      : {
+          ...funnel,
+          stepIndex,
+          status: view,
+          limit: PAGE_SIZE,
+          skip,
+        }
+
+  const { data, isPending, isError } = useFunnelUsers(usersRequest)
+  const users = data?.data ?? []
+  const total = data?.pagination?.total ?? 0
+
+  const changeView = (next: PanelView) => {
+    setView(next)
+    setSkip(0)
+  }
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>{funnel.steps[stepIndex]?.name}</SheetTitle>
+          <SheetDescription>{VIEW_DESCRIPTIONS[view]}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 flex-col gap-4 overflow-hidden px-4">
+          {!isLastStep && (
+            <Tabs value={view} onValueChange={(value) => changeView(value as PanelView)}>
+              <TabsList>
+                <TabsTrigger value="converted">Converted</TabsTrigger>
+                <TabsTrigger value="dropped">Dropped off</TabsTrigger>
+                {hasNextPages && <TabsTrigger value="next">Next pages</TabsTrigger>}
+              </TabsList>
+            </Tabs>
+          )}
+
+          <div className="flex-1 overflow-auto">
+            {view === "next" ? (
+              <FunnelNextPages request={{ ...funnel, stepIndex }} />
+            ) : isError || data?.success === false ? (
+              <p className="text-sm text-destructive">
+                {data?.error ?? "Failed to load users"}
+              </p>
+            ) : isPending ? (
+              <p className="text-sm text-muted-foreground">Loading users...</p>
+            ) : users.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No users for this step</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>First Event</TableHead>
+                    <TableHead>Last Event</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => (
+                    <TableRow key={user.user_id}>
+                      <TableCell className="font-mono text-xs">
+                        {/* New tab, so the funnel analysis stays open */}
+                        <Link
+                          to={`/users/${encodeURIComponent(user.user_id)}`}
+                          target="_blank"
+                          className="underline-offset-4 hover:underline"
+                        >
+                          {user.user_id}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatEventTime(user.firstEventAt)}</TableCell>
+                      <TableCell>{formatEventTime(user.lastEventAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {view !== "next" && total > 0 && (
+            <div className="flex items-center justify-between pb-4 text-sm text-muted-foreground">
+              <span>
+                {(skip + 1).toLocaleString()}-{(skip + users.length).toLocaleString()} of{" "}
+                {total.toLocaleString()}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={skip === 0}
+                  onClick={() => setSkip(Math.max(0, skip - PAGE_SIZE))}
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={skip + PAGE_SIZE >= total}
+                  onClick={() => setSkip(skip + PAGE_SIZE)}
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
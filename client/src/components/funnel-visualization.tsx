@@ -9,16 +9,26 @@ import {
   ResponsiveContainer,
   Cell,
 } from "recharts"
+import { formatDuration } from "@/lib/format-duration"
+import { DeltaIndicator } from "@/components/delta-indicator"
+import type { FunnelBreakdownSegment, FunnelStepDelta, TimeToConvert } from "@trainwell-funnel/shared"
 
 export interface FunnelData {
   step: string
   users: number
+  sessions?: number // Session mode only
   conversionRate: number
   dropoffRate: number
+  optional?: boolean
+  timeToConvert?: TimeToConvert
+  previousUsers?: number // Users in the comparison period
+  delta?: FunnelStepDelta
 }
 
 interface FunnelVisualizationProps {
   data: FunnelData[]
+  segments?: FunnelBreakdownSegment[] // Renders grouped bars per segment when present
+  onStepClick?: (stepIndex: number) => void
 }
 
 const COLORS = {
@@ -28,6 +38,13 @@ const COLORS = {
   critical: "#443564", // Dark violet - critical conversion
 }
 
+// Distinct colors for breakdown segments, "Other" is always gray
+const SEGMENT_COLORS = ["#775FAB", "#E08A5C", "#4C9A8A", "#D4A72C", "#5B7FC7", "#C75B8A"]
+const OTHER_COLOR = "#A1A1AA"
+
+const getSegmentColor = (segment: FunnelBreakdownSegment, index: number): string =>
+  segment.isOther ? OTHER_COLOR : SEGMENT_COLORS[index % SEGMENT_COLORS.length]!
+
 const getBarColor = (conversionRate: number): string => {
   if (conversionRate >= 80) return COLORS.high
   if (conversionRate >= 60) return COLORS.medium
@@ -41,19 +58,39 @@ const CustomTooltip = ({ active, payload }: any) => {
     const data = payload[0].payload
     return (
       <div className="bg-popover border rounded-lg shadow-lg p-3">
-        <p className="font-medium mb-2">{data.step}</p>
+        <p className="font-medium mb-2">
+          {data.step}
+          {data.optional && <span className="ml-2 text-xs text-muted-foreground">Optional</span>}
+        </p>
         <div className="space-y-1 text-sm">
           <p className="text-muted-foreground">
             <span className="font-medium text-foreground">{data.users.toLocaleString()}</span> users
+            {data.delta && <DeltaIndicator delta={data.delta.users} className="ml-2" />}
           </p>
+          {data.sessions !== undefined && (
+            <p className="text-muted-foreground">
+              <span className="font-medium text-foreground">{data.sessions.toLocaleString()}</span> sessions
+            </p>
+          )}
           <p className="text-muted-foreground">
             Overall Conversion: <span className="font-medium text-foreground">{data.conversionRate.toFixed(1)}%</span>
+            {data.delta && (
+              <DeltaIndicator delta={data.delta.conversionRate} unit="points" className="ml-2" />
+            )}
           </p>
           {data.dropoffRate > 0 && (
             <p className="text-destructive">
               Drop-off from Previous: <span className="font-medium">{data.dropoffRate.toFixed(1)}%</span>
             </p>
           )}
+          {data.timeToConvert && (
+            <p className="text-muted-foreground">
+              Time from Previous: <span className="font-medium text-foreground">
+                {formatDuration(data.timeToConvert.medianMs)}
+              </span> median · p75 {formatDuration(data.timeToConvert.p75Ms)} · p90{" "}
+              {formatDuration(data.timeToConvert.p90Ms)} · mean {formatDuration(data.timeToConvert.meanMs)}
+            </p>
+          )}
         </div>
       </div>
     )
@@ -61,7 +98,86 @@ const CustomTooltip = ({ active, payload }: any) => {
   return null
 }
 
-export function FunnelVisualization({ data }: FunnelVisualizationProps) {
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const SegmentTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-popover border rounded-lg shadow-lg p-3">
+        <p className="font-medium mb-2">{label}</p>
+        <div className="space-y-1 text-sm">
+          {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
+          {payload.map((entry: any) => (
+            <p key={entry.dataKey} className="flex items-center gap-2 text-muted-foreground">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: entry.color }} />
+              {entry.name}:
+              <span className="font-medium text-foreground">{entry.value.toLocaleString()}</span>
+              ({entry.payload[`${entry.dataKey}_rate`].toFixed(1)}%)
+            </p>
+          ))}
+        </div>
+      </div>
+    )
+  }
+  return null
+}
+
+function SegmentedFunnelChart({ segments }: { segments: FunnelBreakdownSegment[] }) {
+  // One row per step, one users/rate pair per segment
+  const rows = (segments[0]?.steps ?? []).map((step, stepIndex) => ({
+    step: step.step,
+    ...Object.fromEntries(
+      segments.flatMap((segment, segmentIndex) => [
+        [`segment_${segmentIndex}`, segment.steps[stepIndex]?.users ?? 0],
+        [`segment_${segmentIndex}_rate`, segment.steps[stepIndex]?.conversionRate ?? 0],
+      ])
+    ),
+  }))
+
+  return (
+    <ResponsiveContainer width="100%" height={350}>
+      <BarChart
+        data={rows}
+        margin={{
+          top: 20,
+          right: 30,
+          left: 20,
+          bottom: 60,
+        }}
+      >
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis
+          dataKey="step"
+          angle={-45}
+          textAnchor="end"
+          height={80}
+          className="text-xs"
+        />
+        <YAxis
+          label={{ value: "Users", angle: -90, position: "insideLeft" }}
+          className="text-xs"
+        />
+        <Tooltip content={<SegmentTooltip />} />
+        <Legend
+          wrapperStyle={{ paddingTop: "20px" }}
+          formatter={(value) => (
+            <span className="text-sm">{value}</span>
+          )}
+        />
+        {segments.map((segment, index) => (
+          <Bar
+            key={segment.value}
+            dataKey={`segment_${index}`}
+            name={segment.value}
+            fill={getSegmentColor(segment, index)}
+            radius={[4, 4, 0, 0]}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+export function FunnelVisualization({ data, segments, onStepClick }: FunnelVisualizationProps) {
   if (data.length === 0) {
     return (
       <div className="flex h-[350px] items-center justify-center text-muted-foreground">
@@ -73,6 +189,14 @@ export function FunnelVisualization({ data }: FunnelVisualizationProps) {
     )
   }
 
+  if (segments && segments.length > 0) {
+    return <SegmentedFunnelChart segments={segments} />
+  }
+
+  const hasComparison = data.some((entry) => entry.previousUsers !== undefined)
+  // Session mode plots sessions, which its conversion rates are based on
+  const bySession = data.some((entry) => entry.sessions !== undefined)
+
   return (
     <ResponsiveContainer width="100%" height={350}>
       <BarChart
@@ -91,9 +215,12 @@ export function FunnelVisualization({ data }: FunnelVisualizationProps) {
           textAnchor="end"
           height={80}
           className="text-xs"
+          tickFormatter={(step: string, index: number) =>
+            data[index]?.optional ? `${step} (optional)` : step
+          }
         />
         <YAxis
-          label={{ value: "Users", angle: -90, position: "insideLeft" }}
+          label={{ value: bySession ? "Sessions" : "Users", angle: -90, position: "insideLeft" }}
           className="text-xs"
         />
         <Tooltip content={<CustomTooltip />} />
@@ -103,9 +230,30 @@ export function FunnelVisualization({ data }: FunnelVisualizationProps) {
             <span className="text-sm">{value}</span>
           )}
         />
-        <Bar dataKey="users" name="Total Users" radius={[8, 8, 0, 0]}>
+        {hasComparison && (
+          <Bar
+            dataKey="previousUsers"
+            name="Comparison Period"
+            fill={OTHER_COLOR}
+            radius={[8, 8, 0, 0]}
+          />
+        )}
+        <Bar
+          dataKey={bySession ? "sessions" : "users"}
+          name={bySession ? "Total Sessions" : "Total Users"}
+          radius={[8, 8, 0, 0]}
+          onClick={onStepClick ? (_entry, index) => onStepClick(index) : undefined}
+          cursor={onStepClick ? "pointer" : undefined}
+        >
           {data.map((entry, index) => (
-            <Cell key={`cell-${index}`} fill={getBarColor(entry.conversionRate)} />
+            <Cell
+              key={`cell-${index}`}
+              fill={getBarColor(entry.conversionRate)}
+              // Optional steps are drawn hollow so skipping them doesn't read as drop-off
+              {...(entry.optional
+                ? { fillOpacity: 0.35, stroke: getBarColor(entry.conversionRate), strokeDasharray: "4 3" }
+                : {})}
+            />
           ))}
         </Bar>
       </BarChart>
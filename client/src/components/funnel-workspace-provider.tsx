@@ -0,0 +1,62 @@
+import { useEffect, useState, type ReactNode } from "react"
+import { useSavedFunnel } from "@/hooks/use-saved-funnels"
+import { readFunnelLink, toFunnelLinkState, type FunnelLinkState } from "@/lib/funnel-url"
+import { FunnelWorkspaceContext } from "@/lib/funnel-workspace"
+import type { SavedFunnel } from "@trainwell-funnel/shared"
+
+/**
+ * Holds the funnel being edited so it survives navigating between pages
+ */
+export function FunnelWorkspaceProvider({ children }: { children: ReactNode }) {
+  // Funnel shared in the URL the app was opened with
+  const [sharedLink] = useState(() =>
+    readFunnelLink(window.location.pathname.startsWith("/funnels") ? window.location.search : "")
+  )
+
+  // Saved funnel open on the funnels page, if any
+  const [openFunnel, setOpenFunnel] = useState<SavedFunnel>()
+
+  // Funnel the funnels page starts from, remounted whenever a funnel is opened or started
+  const [view, setView] = useState<{ key: number; state?: FunnelLinkState }>({
+    key: 0,
+    state: sharedLink.state,
+  })
+
+  const openSavedFunnel = (funnel: SavedFunnel) => {
+    setOpenFunnel(funnel)
+    setView((current) => ({ key: current.key + 1, state: toFunnelLinkState(funnel) }))
+  }
+
+  // Reattach a shared saved funnel, loading its definition if the link didn't carry one
+  const { data: linkedFunnel } = useSavedFunnel(sharedLink.savedFunnelId)
+  useEffect(() => {
+    if (view.key !== 0 || openFunnel || !linkedFunnel?.success || !linkedFunnel.data) {
+      return
+    }
+
+    if (sharedLink.state) {
+      setOpenFunnel(linkedFunnel.data)
+    } else {
+      openSavedFunnel(linkedFunnel.data)
+    }
+  }, [linkedFunnel, sharedLink, view.key, openFunnel])
+
+  return (
+    <FunnelWorkspaceContext.Provider
+      value={{
+        view,
+        openFunnel,
+        openSavedFunnel,
+        startNewFunnel: () => {
+          setOpenFunnel(undefined)
+          setView((current) => ({ key: current.key + 1 }))
+        },
+        setOpenFunnel,
+        funnelRenamed: (funnel) => setOpenFunnel((open) => (open?.id === funnel.id ? funnel : open)),
+        funnelDeleted: (id) => setOpenFunnel((open) => (open?.id === id ? undefined : open)),
+      }}
+    >
+      {children}
+    </FunnelWorkspaceContext.Provider>
+  )
+}
@@ -0,0 +1,178 @@
+import { useState } from "react"
+import { useNavigate } from "react-router"
+import {
+  Copy,
+  Filter,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar"
+import {
+  useCreateSavedFunnel,
+  useDeleteSavedFunnel,
+  useSavedFunnels,
+  useUpdateSavedFunnel,
+} from "@/hooks/use-saved-funnels"
+import { MAX_FUNNEL_NAME_LENGTH } from "@/lib/funnel-definition"
+import { useFunnelWorkspace } from "@/lib/funnel-workspace"
+import type { SavedFunnel, SavedFunnelInput } from "@trainwell-funnel/shared"
+
+/**
+ * Editable fields of a saved funnel, for saving it back under a new name
+ */
+function toInput(funnel: SavedFunnel, name: string): SavedFunnelInput {
+  return {
+    name,
+    ...(funnel.description ? { description: funnel.description } : {}),
+    steps: funnel.steps,
+    ...(funnel.dateRange ? { dateRange: funnel.dateRange } : {}),
+    ...(funnel.options ? { options: funnel.options } : {}),
+  }
+}
+
+export function NavSavedFunnels() {
+  const { isMobile } = useSidebar()
+  const navigate = useNavigate()
+  const { openFunnel, openSavedFunnel, startNewFunnel, funnelRenamed, funnelDeleted } = useFunnelWorkspace()
+  const { data, isLoading } = useSavedFunnels()
+  const createFunnel = useCreateSavedFunnel()
+  const updateFunnel = useUpdateSavedFunnel()
+  const deleteFunnel = useDeleteSavedFunnel()
+  const [renamingId, setRenamingId] = useState<string>()
+  const [renameValue, setRenameValue] = useState("")
+
+  const funnels = data?.success ? data.data ?? [] : []
+
+  const open = (funnel: SavedFunnel) => {
+    openSavedFunnel(funnel)
+    navigate("/funnels")
+  }
+
+  const startNew = () => {
+    startNewFunnel()
+    navigate("/funnels")
+  }
+
+  const startRename = (funnel: SavedFunnel) => {
+    setRenamingId(funnel.id)
+    setRenameValue(funnel.name)
+  }
+
+  const finishRename = (funnel: SavedFunnel) => {
+    const name = renameValue.trim()
+    setRenamingId(undefined)
+    if (!name || name === funnel.name) {
+      return
+    }
+
+    updateFunnel.mutate({ id: funnel.id, input: toInput(funnel, name) }, { onSuccess: funnelRenamed })
+  }
+
+  const duplicate = (funnel: SavedFunnel) => {
+    // Shortened so the suffix still fits in a name
+    const suffix = " (copy)"
+    const name = `${funnel.name.slice(0, MAX_FUNNEL_NAME_LENGTH - suffix.length).trimEnd()}${suffix}`
+    createFunnel.mutate(toInput(funnel, name), { onSuccess: open })
+  }
+
+  const remove = (funnel: SavedFunnel) => {
+    if (!window.confirm(`Delete "${funnel.name}"?`)) {
+      return
+    }
+
+    deleteFunnel.mutate(funnel.id, { onSuccess: () => funnelDeleted(funnel.id) })
+  }
+
+  return (
+    <SidebarGroup className="group-data-[collapsible=icon]:hidden">
+      <SidebarGroupLabel>Saved Funnels</SidebarGroupLabel>
+      <SidebarMenu>
+        {funnels.map((funnel) => (
+          <SidebarMenuItem key={funnel.id}>
+            {renamingId === funnel.id ? (
+              <Input
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={() => finishRename(funnel)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishRename(funnel)
+                  if (e.key === "Escape") setRenamingId(undefined)
+                }}
+                maxLength={MAX_FUNNEL_NAME_LENGTH}
+                className="h-8"
+                aria-label="Funnel name"
+                autoFocus
+              />
+            ) : (
+              <SidebarMenuButton
+                isActive={funnel.id === openFunnel?.id}
+                onClick={() => open(funnel)}
+                title={funnel.description ?? undefined}
+              >
+                <Filter />
+                <span>{funnel.name}</span>
+              </SidebarMenuButton>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <SidebarMenuAction showOnHover>
+                  <MoreHorizontal />
+                  <span className="sr-only">More</span>
+                </SidebarMenuAction>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent
+                className="w-48"
+                side={isMobile ? "bottom" : "right"}
+                align={isMobile ? "end" : "start"}
+              >
+                <DropdownMenuItem onSelect={() => startRename(funnel)}>
+                  <Pencil className="text-muted-foreground" />
+                  <span>Rename</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => duplicate(funnel)}>
+                  <Copy className="text-muted-foreground" />
+                  <span>Duplicate</span>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => remove(funnel)}>
+                  <Trash2 className="text-muted-foreground" />
+                  <span>Delete</span>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </SidebarMenuItem>
+        ))}
+        {!isLoading && funnels.length === 0 && (
+          <SidebarMenuItem>
+            <span className="px-2 text-xs text-muted-foreground">No saved funnels yet</span>
+          </SidebarMenuItem>
+        )}
+        <SidebarMenuItem>
+          <SidebarMenuButton onClick={startNew}>
+            <Plus />
+            <span>New funnel</span>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      </SidebarMenu>
+    </SidebarGroup>
+  )
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react"
+import { Layer, Rectangle, ResponsiveContainer, Sankey, Tooltip } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { usePathAnalysis } from "@/hooks/use-paths"
+import type { PathAnalysisRequest, PathAnchor } from "@trainwell-funnel/shared"
+
+const ANCHOR_LABELS: Record<PathAnchor, string> = {
+  start: "Starting at",
+  end: "Ending at",
+}
+
+const DEPTHS = [1, 2, 3, 4, 5, 6, 7, 8]
+
+const NODE_COLOR = "#775FAB"
+const ANCHOR_COLOR = "#443564"
+
+interface PathExplorerProps {
+  startDate?: string
+  endDate?: string
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const PathNodeShape = ({ x, y, width, height, payload, anchorStep, lastStep }: any) => {
+  // Labels sit beside the node, on the left for the last column so they stay inside the chart
+  const isLastColumn = payload.step === lastStep
+  const isAnchor = payload.step === anchorStep
+
+  return (
+    <Layer>
+      <Rectangle
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={isAnchor ? ANCHOR_COLOR : NODE_COLOR}
+        fillOpacity={1}
+        radius={2}
+      />
+      <text
+        x={isLastColumn ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={isLastColumn ? "end" : "start"}
+        dominantBaseline="middle"
+        className="fill-foreground text-xs"
+      >
+        {payload.name}
+        <tspan className="fill-muted-foreground"> {payload.value.toLocaleString()}</tspan>
+      </text>
+    </Layer>
+  )
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const PathTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const item = payload[0].payload.payload
+    // Links carry their source and target nodes, nodes only their own name
+    const label = item.source && item.target ? `${item.source.name} → ${item.target.name}` : item.name
+    return (
+      <div className="bg-popover border rounded-lg shadow-lg p-3">
+        <p className="font-medium mb-1">{label}</p>
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{payload[0].value.toLocaleString()}</span> sessions
+        </p>
+      </div>
+    )
+  }
+  return null
+}
+
+/**
+ * Sankey diagram of the most common page flows starting or ending at a page
+ */
+export function PathExplorer({ startDate, endDate }: PathExplorerProps) {
+  const [anchor, setAnchor] = useState<PathAnchor>("start")
+  const [pageInput, setPageInput] = useState("/")
+  const [page, setPage] = useState("/")
+  const [depth, setDepth] = useState(4)
+
+  // Debounced page - wait 1 second after user stops typing
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setPage(pageInput.trim()), 1000)
+    return () => clearTimeout(timeoutId)
+  }, [pageInput])
+
+  const request: PathAnalysisRequest | undefined = startDate && endDate && page
+    ? { startDate, endDate, anchor, page, depth }
+    : undefined
+
+  const { data, isPending, isError, error } = usePathAnalysis(request)
+  const result = data?.success ? data.data : undefined
+  const anchorStep = anchor === "start" ? 0 : depth
+  const lastStep = result ? Math.max(...result.nodes.map((node) => node.step)) : depth
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Path Explorer</CardTitle>
+        <CardDescription>
+          Most common page flows {anchor === "start" ? "after" : "leading to"} a page, per session
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Select value={anchor} onValueChange={(key: PathAnchor) => setAnchor(key)}>
+            <SelectTrigger className="w-[140px]" aria-label="Anchor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ANCHOR_LABELS) as PathAnchor[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {ANCHOR_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            placeholder="/pricing"
+            className="w-[240px]"
+            aria-label="Page"
+          />
+          <Select value={String(depth)} onValueChange={(value) => setDepth(Number(value))}>
+            <SelectTrigger className="w-[120px]" aria-label="Depth">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEPTHS.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value} {value === 1 ? "step" : "steps"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {result && (
+            <span className="text-sm text-muted-foreground">
+              {result.sessions.toLocaleString()} sessions
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isError || data?.success === false ? (
+          <div className="flex h-[450px] items-center justify-center">
+            <p className="text-sm text-destructive">
+              {data?.error ?? (error instanceof Error ? error.message : "Failed to load paths")}
+            </p>
+          </div>
+        ) : !request || (isPending && !result) ? (
+          <div className="flex h-[450px] items-center justify-center text-muted-foreground">
+            <p className="text-sm">{request ? "Loading paths..." : "Enter a page to explore its paths"}</p>
+          </div>
+        ) : !result || result.links.length === 0 ? (
+          <div className="flex h-[450px] items-center justify-center text-muted-foreground">
+            <div className="text-center space-y-2">
+              <p className="text-sm">No paths found</p>
+              <p className="text-xs">No sessions moved between pages around {page} in this date range</p>
+            </div>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={450}>
+            <Sankey
+              data={{ nodes: result.nodes, links: result.links }}
+              dataKey="sessions"
+              nameKey="name"
+              nodePadding={24}
+              margin={{ top: 10, right: 10, bottom: 10, left: 10 }}
+              node={<PathNodeShape anchorStep={anchorStep} lastStep={lastStep} />}
+              link={{ stroke: NODE_COLOR, strokeOpacity: 0.25 }}
+            >
+              <Tooltip content={<PathTooltip />} />
+            </Sankey>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
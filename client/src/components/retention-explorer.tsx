@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { RetentionHeatmap } from "@/components/retention-heatmap"
+import { useRetentionAnalysis } from "@/hooks/use-retention"
+import type { RetentionAnalysisRequest, RetentionInterval } from "@trainwell-funnel/shared"
+
+const INTERVAL_LABELS: Record<RetentionInterval, string> = {
+  day: "Daily",
+  week: "Weekly",
+}
+
+// Periods offered per interval, e.g. day 0 through day 14
+const PERIOD_OPTIONS: Record<RetentionInterval, number[]> = {
+  day: [8, 15, 31],
+  week: [5, 9, 13],
+}
+
+interface RetentionExplorerProps {
+  startDate?: string
+  endDate?: string
+}
+
+/**
+ * Retention of users coming back after a start event, as a cohort heatmap
+ */
+export function RetentionExplorer({ startDate, endDate }: RetentionExplorerProps) {
+  const [startInput, setStartInput] = useState("/onboarding")
+  const [returnInput, setReturnInput] = useState("/")
+  const [events, setEvents] = useState({ start: "/onboarding", return: "/" })
+  const [interval, setRetentionInterval] = useState<RetentionInterval>("day")
+  const [periods, setPeriods] = useState(PERIOD_OPTIONS.day[0]!)
+
+  // Debounced event paths - wait 1 second after user stops typing
+  useEffect(() => {
+    const timeoutId = setTimeout(
+      () => setEvents({ start: startInput.trim(), return: returnInput.trim() }),
+      1000
+    )
+    return () => clearTimeout(timeoutId)
+  }, [startInput, returnInput])
+
+  const handleIntervalChange = (value: RetentionInterval) => {
+    setRetentionInterval(value)
+    setPeriods(PERIOD_OPTIONS[value][0]!)
+  }
+
+  const request: RetentionAnalysisRequest | undefined =
+    startDate && endDate && events.start && events.return
+      ? {
+          startDate,
+          endDate,
+          startEvent: { matchType: "path", matchValue: events.start },
+          returnEvent: { matchType: "path", matchValue: events.return },
+          interval,
+          periods,
+        }
+      : undefined
+
+  const { data, isError, error } = useRetentionAnalysis(request)
+  const result = data?.success ? data.data : undefined
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retention</CardTitle>
+        <CardDescription>
+          Share of users returning in each {interval} after their first start event
+        </CardDescription>
+        <div className="flex flex-wrap items-end gap-4 pt-2">
+          <div className="space-y-1">
+            <Label htmlFor="retention-start">Start event page</Label>
+            <Input
+              id="retention-start"
+              value={startInput}
+              onChange={(e) => setStartInput(e.target.value)}
+              placeholder="/onboarding"
+              className="w-[220px]"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="retention-return">Return event page</Label>
+            <Input
+              id="retention-return"
+              value={returnInput}
+              onChange={(e) => setReturnInput(e.target.value)}
+              placeholder="/workouts"
+              className="w-[220px]"
+            />
+          </div>
+          <Select value={interval} onValueChange={handleIntervalChange}>
+            <SelectTrigger className="w-[120px]" aria-label="Interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(INTERVAL_LABELS) as RetentionInterval[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {INTERVAL_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(periods)} onValueChange={(value) => setPeriods(Number(value))}>
+            <SelectTrigger className="w-[140px]" aria-label="Periods">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS[interval].map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {interval === "day" ? "Day" : "Week"} 0–{value - 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {isError || data?.success === false ? (
+          <div className="flex h-[300px] items-center justify-center">
+            <p className="text-sm text-destructive">
+              {data?.error ?? (error instanceof Error ? error.message : "Failed to load retention")}
+            </p>
+          </div>
+        ) : !request || !result ? (
+          <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+            <p className="text-sm">
+              {request ? "Loading retention..." : "Enter a start and return page to measure retention"}
+            </p>
+          </div>
+        ) : (
+          <RetentionHeatmap analysis={result} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
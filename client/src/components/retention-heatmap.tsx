@@ -0,0 +1,97 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { RetentionAnalysis, RetentionInterval } from "@trainwell-funnel/shared"
+
+// Cohorts start at UTC midnight, so format in UTC to avoid showing the previous day
+const COHORT_FORMAT: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" }
+
+const PERIOD_LABELS: Record<RetentionInterval, string> = {
+  day: "Day",
+  week: "Week",
+}
+
+interface RetentionHeatmapProps {
+  analysis: RetentionAnalysis
+}
+
+function RetentionCell({ rate, retained }: { rate: number | null; retained?: number | null }) {
+  if (rate === null) {
+    return <TableCell className="text-center text-muted-foreground">–</TableCell>
+  }
+
+  // Darker violet for higher retention, white text once the background gets dark
+  return (
+    <TableCell
+      className={`text-center tabular-nums ${rate >= 50 ? "text-white" : ""}`}
+      style={{ backgroundColor: `rgba(119, 95, 171, ${Math.max(rate / 100, 0.04)})` }}
+      title={retained !== undefined && retained !== null ? `${retained.toLocaleString()} users` : undefined}
+    >
+      {rate.toFixed(1)}%
+    </TableCell>
+  )
+}
+
+/**
+ * Cohort by period retention table, shaded by retention rate
+ */
+export function RetentionHeatmap({ analysis }: RetentionHeatmapProps) {
+  const periods = Array.from({ length: analysis.periods }, (_value, period) => period)
+
+  if (analysis.cohorts.length === 0) {
+    return (
+      <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+        <div className="text-center space-y-2">
+          <p className="text-sm">No users did the start event</p>
+          <p className="text-xs">Check the start event and date range</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Cohort</TableHead>
+          <TableHead className="text-right">Users</TableHead>
+          {periods.map((period) => (
+            <TableHead key={period} className="text-center">
+              {PERIOD_LABELS[analysis.interval]} {period}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        <TableRow className="font-medium">
+          <TableCell>All users</TableCell>
+          <TableCell className="text-right">{analysis.summary.users.toLocaleString()}</TableCell>
+          {periods.map((period) => (
+            <RetentionCell key={period} rate={analysis.summary.rates[period] ?? null} />
+          ))}
+        </TableRow>
+        {analysis.cohorts.map((cohort) => (
+          <TableRow key={cohort.cohortStart}>
+            <TableCell className="whitespace-nowrap">
+              {analysis.interval === "week" && "Week of "}
+              {new Date(cohort.cohortStart).toLocaleDateString(undefined, COHORT_FORMAT)}
+            </TableCell>
+            <TableCell className="text-right">{cohort.users.toLocaleString()}</TableCell>
+            {periods.map((period) => (
+              <RetentionCell
+                key={period}
+                rate={cohort.rates[period] ?? null}
+                retained={cohort.retained[period]}
+              />
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,114 @@
+import { useState } from "react"
+import { Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useCreateSavedFunnel, useUpdateSavedFunnel } from "@/hooks/use-saved-funnels"
+import { MAX_FUNNEL_NAME_LENGTH } from "@/lib/funnel-definition"
+import type { SavedFunnel, SavedFunnelInput } from "@trainwell-funnel/shared"
+
+interface SaveFunnelPopoverProps {
+  // Funnel currently open, saved over unless saving as new
+  savedFunnel?: SavedFunnel
+  definition: Omit<SavedFunnelInput, "name" | "description">
+  disabled?: boolean
+  onSaved: (funnel: SavedFunnel) => void
+}
+
+/**
+ * Save the current funnel definition under a name
+ */
+export function SaveFunnelPopover({ savedFunnel, definition, disabled, onSaved }: SaveFunnelPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState(savedFunnel?.name ?? "")
+  const [description, setDescription] = useState(savedFunnel?.description ?? "")
+  const createFunnel = useCreateSavedFunnel()
+  const updateFunnel = useUpdateSavedFunnel()
+  const isPending = createFunnel.isPending || updateFunnel.isPending
+  const error = createFunnel.error ?? updateFunnel.error
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      setName(savedFunnel?.name ?? "")
+      setDescription(savedFunnel?.description ?? "")
+      createFunnel.reset()
+      updateFunnel.reset()
+    }
+  }
+
+  const save = (asNew: boolean) => {
+    const input: SavedFunnelInput = {
+      ...definition,
+      name: name.trim(),
+      ...(description.trim() ? { description: description.trim() } : {}),
+    }
+    const onSuccess = (funnel: SavedFunnel) => {
+      setOpen(false)
+      onSaved(funnel)
+    }
+
+    if (savedFunnel && !asNew) {
+      updateFunnel.mutate({ id: savedFunnel.id, input }, { onSuccess })
+    } else {
+      createFunnel.mutate(input, { onSuccess })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <Save className="mr-2 h-4 w-4" />
+          {savedFunnel ? "Save" : "Save funnel"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault()
+            save(false)
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="saved-funnel-name">Name</Label>
+            <Input
+              id="saved-funnel-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Onboarding conversion"
+              maxLength={MAX_FUNNEL_NAME_LENGTH}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-funnel-description">Description</Label>
+            <Textarea
+              id="saved-funnel-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+              rows={3}
+            />
+          </div>
+          {error && (
+            <p className="text-sm text-destructive">{error.message}</p>
+          )}
+          <div className="flex justify-end gap-2">
+            {savedFunnel && (
+              <Button type="button" variant="outline" disabled={isPending || !name.trim()} onClick={() => save(true)}>
+                Save as new
+              </Button>
+            )}
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,3 +1,5 @@
+import { Fragment } from "react"
+import { Link, useMatches } from "react-router"
 import { SidebarIcon } from "lucide-react"
 
 import { SearchForm } from "@/components/search-form"
@@ -12,9 +14,26 @@ import {
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { useSidebar } from "@/components/ui/sidebar"
+import { useHealthCheck } from "@/hooks/use-events"
+import { useFunnelWorkspace } from "@/lib/funnel-workspace"
+import type { RouteHandle } from "@/routes"
 
 export function SiteHeader() {
   const { toggleSidebar } = useSidebar()
+  const { data: health, isLoading } = useHealthCheck()
+  const { openFunnel } = useFunnelWorkspace()
+  const matches = useMatches()
+
+  // One crumb per matched route, plus the open saved funnel on the funnels page
+  const crumbs = matches
+    .filter((match) => (match.handle as RouteHandle | undefined)?.crumb)
+    .map((match) => {
+      const { crumb } = match.handle as RouteHandle
+      return { label: typeof crumb === "function" ? crumb(match.params) : crumb, url: match.pathname }
+    })
+  if (openFunnel && crumbs.at(-1)?.url === "/funnels") {
+    crumbs.push({ label: openFunnel.name, url: "/funnels" })
+  }
 
   return (
     <header className="bg-background sticky top-0 z-50 flex w-full items-center border-b">
@@ -31,17 +50,35 @@ export function SiteHeader() {
         <Breadcrumb className="hidden sm:block">
           <BreadcrumbList>
             <BreadcrumbItem>
-              <BreadcrumbLink href="#">
-                Trainwell Funnel
+              <BreadcrumbLink asChild>
+                <Link to="/">Trainwell Funnel</Link>
               </BreadcrumbLink>
             </BreadcrumbItem>
-            <BreadcrumbSeparator />
-            <BreadcrumbItem>
-              <BreadcrumbPage>Dashboard</BreadcrumbPage>
-            </BreadcrumbItem>
+            {crumbs.map((crumb, index) => (
+              <Fragment key={`${crumb.url}-${index}`}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {index === crumbs.length - 1 ? (
+                    <BreadcrumbPage>{crumb.label}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink asChild>
+                      <Link to={crumb.url}>{crumb.label}</Link>
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </Fragment>
+            ))}
           </BreadcrumbList>
         </Breadcrumb>
-        <SearchForm className="w-full sm:ml-auto sm:w-auto" />
+        <div className="flex w-full items-center gap-4 sm:ml-auto sm:w-auto">
+          {!isLoading && health && (
+            <div className="hidden items-center gap-2 text-sm text-muted-foreground md:flex">
+              <div className="h-2 w-2 rounded-full bg-green-500" />
+              <span>API Connected</span>
+            </div>
+          )}
+          <SearchForm className="w-full sm:w-auto" />
+        </div>
       </div>
     </header>
   )
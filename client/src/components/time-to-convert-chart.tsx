@@ -0,0 +1,98 @@
+import { useState } from "react"
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { formatBucket, formatDuration } from "@/lib/format-duration"
+import type { FunnelStepResult } from "@trainwell-funnel/shared"
+
+interface TimeToConvertChartProps {
+  steps: FunnelStepResult[]
+}
+
+/**
+ * Histogram of how long users take to move from one step to the next
+ */
+export function TimeToConvertChart({ steps }: TimeToConvertChartProps) {
+  const transitions = steps.filter((step) => step.timeToConvert)
+  const [selected, setSelected] = useState<string>()
+
+  if (transitions.length === 0) {
+    return (
+      <div className="flex h-[250px] items-center justify-center text-muted-foreground">
+        <p className="text-sm">No conversions between steps yet</p>
+      </div>
+    )
+  }
+
+  // Fall back to the first transition when the funnel changes under the selection
+  const current =
+    transitions.find((step) => String(step.stepIndex) === selected) ?? transitions[0]!
+  const timeToConvert = current.timeToConvert!
+  const data = timeToConvert.histogram.map((bucket) => ({
+    bucket: formatBucket(bucket),
+    users: bucket.users,
+  }))
+
+  const stats = [
+    { label: "Median", value: timeToConvert.medianMs },
+    { label: "75th percentile", value: timeToConvert.p75Ms },
+    { label: "90th percentile", value: timeToConvert.p90Ms },
+    { label: "Mean", value: timeToConvert.meanMs },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <Select value={String(current.stepIndex)} onValueChange={setSelected}>
+        <SelectTrigger className="w-[280px]" aria-label="Step transition">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {transitions.map((step) => (
+            <SelectItem key={step.stepIndex} value={String(step.stepIndex)}>
+              {steps[step.stepIndex - 1]?.step} → {step.step}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="grid grid-cols-4 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-lg font-bold">{formatDuration(stat.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={250}>
+        <BarChart data={data} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+          <XAxis dataKey="bucket" className="text-xs" />
+          <YAxis
+            label={{ value: "Users", angle: -90, position: "insideLeft" }}
+            className="text-xs"
+            allowDecimals={false}
+          />
+          <Tooltip
+            formatter={(value: number) => [value.toLocaleString(), "Users"]}
+            contentStyle={{ borderRadius: "0.5rem" }}
+          />
+          <Bar dataKey="users" fill="#775FAB" radius={[8, 8, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
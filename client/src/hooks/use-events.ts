@@ -1,6 +1,11 @@
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api-client';
-import type { EventQueryParams, FunnelAnalysisRequest } from '@trainwell-funnel/shared';
+import type {
+  EventQueryParams,
+  FunnelAnalysisRequest,
+  FunnelUsersRequest,
+  FunnelNextPagesRequest,
+} from '@trainwell-funnel/shared';
 
 /**
  * React Query hooks for events API
@@ -20,11 +25,13 @@ export function useEvent(id: string | undefined) {
 
 /**
  * Get multiple events with filters
+ * Keeps the current page on screen while the next one loads
  */
 export function useEvents(params?: EventQueryParams) {
   return useQuery({
     queryKey: ['events', params],
     queryFn: () => apiClient.getEvents(params),
+    placeholderData: keepPreviousData,
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
 }
@@ -39,6 +46,32 @@ export function useFunnelAnalysis() {
   });
 }
 
+/**
+ * List the users behind a funnel step
+ * Keeps the current page on screen while the next one loads
+ */
+export function useFunnelUsers(request: FunnelUsersRequest | undefined) {
+  return useQuery({
+    queryKey: ['funnel-users', request],
+    queryFn: () => apiClient.getFunnelUsers(request!),
+    enabled: !!request,
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+/**
+ * Find where users went after dropping off at a funnel step
+ */
+export function useFunnelNextPages(request: FunnelNextPagesRequest | undefined) {
+  return useQuery({
+    queryKey: ['funnel-next-pages', request],
+    queryFn: () => apiClient.getFunnelNextPages(request!),
+    enabled: !!request,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
 /**
  * Health check query
  */
@@ -0,0 +1,21 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api-client';
+import type { PathAnalysisRequest } from '@trainwell-funnel/shared';
+
+/**
+ * React Query hooks for path analysis API
+ */
+
+/**
+ * Top page flows starting or ending at a page
+ * Keeps the previous diagram on screen while a new one loads
+ */
+export function usePathAnalysis(request: PathAnalysisRequest | undefined) {
+  return useQuery({
+    queryKey: ['path-analysis', request],
+    queryFn: () => apiClient.analyzePaths(request!),
+    enabled: !!request,
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
@@ -0,0 +1,21 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api-client';
+import type { RetentionAnalysisRequest } from '@trainwell-funnel/shared';
+
+/**
+ * React Query hooks for retention analysis API
+ */
+
+/**
+ * Cohort by period retention matrix
+ * Keeps the previous matrix on screen while a new one loads
+ */
+export function useRetentionAnalysis(request: RetentionAnalysisRequest | undefined) {
+  return useQuery({
+    queryKey: ['retention-analysis', request],
+    queryFn: () => apiClient.analyzeRetention(request!),
+    enabled: !!request,
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api-client';
+import type { SavedFunnel, SavedFunnelInput } from '@trainwell-funnel/shared';
+
+/**
+ * React Query hooks for saved funnels API
+ * Mutations refresh the saved funnel list once they succeed
+ */
+
+const SAVED_FUNNELS_KEY = ['saved-funnels'];
+
+/**
+ * Unwrap a saved funnel response, throwing its error when the request failed
+ */
+function unwrap(response: { success: boolean; data?: SavedFunnel; error?: string }): SavedFunnel {
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to save funnel');
+  }
+
+  return response.data;
+}
+
+/**
+ * List saved funnels, most recently updated first
+ */
+export function useSavedFunnels() {
+  return useQuery({
+    queryKey: SAVED_FUNNELS_KEY,
+    queryFn: () => apiClient.getSavedFunnels(),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Get a single saved funnel, e.g. one referenced by a shared link
+ */
+export function useSavedFunnel(id: string | undefined) {
+  return useQuery({
+    queryKey: [...SAVED_FUNNELS_KEY, id],
+    queryFn: () => apiClient.getSavedFunnel(id!),
+    enabled: !!id,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Save a new funnel
+ */
+export function useCreateSavedFunnel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SavedFunnelInput) => unwrap(await apiClient.createSavedFunnel(input)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SAVED_FUNNELS_KEY }),
+  });
+}
+
+/**
+ * Replace a saved funnel
+ */
+export function useUpdateSavedFunnel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: SavedFunnelInput }) =>
+      unwrap(await apiClient.updateSavedFunnel(id, input)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SAVED_FUNNELS_KEY }),
+  });
+}
+
+/**
+ * Delete a saved funnel
+ */
+export function useDeleteSavedFunnel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteSavedFunnel(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SAVED_FUNNELS_KEY }),
+  });
+}
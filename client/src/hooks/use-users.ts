@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api-client';
+import type { UserTimelineParams } from '@trainwell-funnel/shared';
+
+/**
+ * React Query hooks for users API
+ */
+
+/**
+ * A user's events grouped by session
+ * Keeps the loaded sessions on screen while older ones load, but not another user's
+ */
+export function useUserTimeline(userId: string | undefined, params?: UserTimelineParams) {
+  return useQuery({
+    queryKey: ['user-timeline', userId, params],
+    queryFn: () => apiClient.getUserTimeline(userId!, params),
+    enabled: !!userId,
+    placeholderData: (previous) => (previous?.data?.userId === userId ? previous : undefined),
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
@@ -5,8 +5,21 @@ import type {
   EventQueryParams,
   FunnelAnalysisRequest,
   FunnelAnalysisResponse,
+  FunnelUsersRequest,
+  FunnelUsersResponse,
+  FunnelNextPagesRequest,
+  FunnelNextPagesResponse,
   CampaignAnalysisRequest,
   CampaignAnalysisResponse,
+  PathAnalysisRequest,
+  PathAnalysisResponse,
+  RetentionAnalysisRequest,
+  RetentionAnalysisResponse,
+  SavedFunnelInput,
+  SavedFunnelResponse,
+  SavedFunnelsResponse,
+  UserTimelineParams,
+  UserTimelineResponse,
 } from '@trainwell-funnel/shared';
 
 /**
@@ -14,7 +27,7 @@ import type {
  * Handles all HTTP requests to the server
  */
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000';
 
 class ApiClient {
   private baseUrl: string;
@@ -102,6 +115,26 @@ class ApiClient {
     });
   }
 
+  /**
+   * List the users who reached a funnel step or dropped off after it
+   */
+  async getFunnelUsers(request: FunnelUsersRequest): Promise<FunnelUsersResponse> {
+    return this.fetch<FunnelUsersResponse>('/api/v1/events/funnel/users', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Find the most common pages visited after dropping off at a funnel step
+   */
+  async getFunnelNextPages(request: FunnelNextPagesRequest): Promise<FunnelNextPagesResponse> {
+    return this.fetch<FunnelNextPagesResponse>('/api/v1/events/funnel/next-pages', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
   /**
    * Health check
    */
@@ -134,6 +167,79 @@ class ApiClient {
     const queryString = this.buildQueryString({ startDate, endDate });
     return this.fetch(`/api/v1/campaigns/first-view-insights${queryString}`);
   }
+
+  /**
+   * Explore the top page flows starting or ending at a page
+   */
+  async analyzePaths(request: PathAnalysisRequest): Promise<PathAnalysisResponse> {
+    return this.fetch<PathAnalysisResponse>('/api/v1/paths/analyze', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Measure how many users return after a start event, per cohort
+   */
+  async analyzeRetention(request: RetentionAnalysisRequest): Promise<RetentionAnalysisResponse> {
+    return this.fetch<RetentionAnalysisResponse>('/api/v1/retention/analyze', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * List saved funnels, most recently updated first
+   */
+  async getSavedFunnels(): Promise<SavedFunnelsResponse> {
+    return this.fetch<SavedFunnelsResponse>('/api/v1/funnels');
+  }
+
+  /**
+   * Get a saved funnel by ID
+   */
+  async getSavedFunnel(id: string): Promise<SavedFunnelResponse> {
+    return this.fetch<SavedFunnelResponse>(`/api/v1/funnels/${id}`);
+  }
+
+  /**
+   * Save a new funnel
+   */
+  async createSavedFunnel(input: SavedFunnelInput): Promise<SavedFunnelResponse> {
+    return this.fetch<SavedFunnelResponse>('/api/v1/funnels', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  /**
+   * Replace a saved funnel
+   */
+  async updateSavedFunnel(id: string, input: SavedFunnelInput): Promise<SavedFunnelResponse> {
+    return this.fetch<SavedFunnelResponse>(`/api/v1/funnels/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  /**
+   * Delete a saved funnel
+   */
+  async deleteSavedFunnel(id: string): Promise<{ success: boolean; error?: string }> {
+    return this.fetch(`/api/v1/funnels/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Get all of a user's events grouped by session, most recent session first
+   */
+  async getUserTimeline(userId: string, params?: UserTimelineParams): Promise<UserTimelineResponse> {
+    const queryString = params ? this.buildQueryString(params) : '';
+    return this.fetch<UserTimelineResponse>(
+      `/api/v1/users/${encodeURIComponent(userId)}/timeline${queryString}`
+    );
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,30 @@
+import type { TimeToConvertBucket } from "@trainwell-funnel/shared"
+
+const UNITS: { label: string; ms: number }[] = [
+  { label: "d", ms: 24 * 60 * 60 * 1000 },
+  { label: "h", ms: 60 * 60 * 1000 },
+  { label: "m", ms: 60 * 1000 },
+  { label: "s", ms: 1000 },
+]
+
+/**
+ * Format a duration with its largest unit, e.g. 90 minutes -> "1.5h"
+ */
+export function formatDuration(ms: number): string {
+  const unit = UNITS.find((unit) => ms >= unit.ms) ?? UNITS[UNITS.length - 1]!
+  const value = ms / unit.ms
+  return `${Number.isInteger(value) ? value : value.toFixed(1)}${unit.label}`
+}
+
+/**
+ * Label a histogram bucket, e.g. "5m–30m" or "7d+"
+ */
+export function formatBucket(bucket: TimeToConvertBucket): string {
+  if (bucket.maxMs === null) {
+    return `${formatDuration(bucket.minMs)}+`
+  }
+  if (bucket.minMs === 0) {
+    return `< ${formatDuration(bucket.maxMs)}`
+  }
+  return `${formatDuration(bucket.minMs)}–${formatDuration(bucket.maxMs)}`
+}
@@ -0,0 +1,36 @@
+import type {
+  FunnelConditionGroup,
+  FunnelConditionOperator,
+  FunnelStepCondition,
+} from "@trainwell-funnel/shared"
+
+export const isConditionGroup = (
+  condition: FunnelStepCondition | FunnelConditionGroup
+): condition is FunnelConditionGroup => "combinator" in condition
+
+export const operatorNeedsValue = (operator: FunnelConditionOperator) =>
+  operator !== "exists" && operator !== "notExists"
+
+export const createCondition = (): FunnelStepCondition => ({
+  field: "path",
+  operator: "equals",
+  value: "",
+})
+
+/**
+ * Check that every condition in a group has the value it needs
+ */
+export function isConditionGroupComplete(group: FunnelConditionGroup): boolean {
+  return (
+    group.conditions.length > 0 &&
+    group.conditions.every((condition) => {
+      if (isConditionGroup(condition)) {
+        return isConditionGroupComplete(condition)
+      }
+      if (!operatorNeedsValue(condition.operator) || typeof condition.value === "boolean") {
+        return true
+      }
+      return typeof condition.value === "string" && condition.value.trim() !== ""
+    })
+  )
+}
@@ -0,0 +1,127 @@
+import { differenceInCalendarDays, isToday, subDays } from "date-fns"
+import { type DateRange } from "react-day-picker"
+import type { FunnelStep } from "@/components/funnel-step-builder"
+import type { FunnelExclusionRule } from "@/components/funnel-exclusion-builder"
+import type {
+  FunnelExclusion,
+  FunnelStepConfig,
+  SavedFunnelDateRange,
+} from "@trainwell-funnel/shared"
+
+// Limits the API enforces on saved funnels
+export const MAX_FUNNEL_NAME_LENGTH = 100
+const MAX_RELATIVE_RANGE_DAYS = 365
+
+/**
+ * Convert the step builder's steps into API step configs
+ */
+export function toStepConfigs(steps: FunnelStep[]): FunnelStepConfig[] {
+  return steps.map((step, index): FunnelStepConfig => ({
+    ...(step.conditions
+      ? { name: step.name, conditions: step.conditions }
+      : {
+        name: step.name,
+        matchType: step.matchType,
+        matchValue: step.matchValue,
+        operator: step.operator,
+        ...(step.alternatives ? { anyOf: step.alternatives } : {}),
+      }),
+    // The first and last steps are always required
+    ...(step.optional && index > 0 && index < steps.length - 1 ? { optional: true } : {}),
+  }))
+}
+
+/**
+ * Convert exclusion rules, which reference steps by id, into API exclusions
+ */
+export function toExclusions(exclusions: FunnelExclusionRule[], steps: FunnelStep[]): FunnelExclusion[] {
+  const stepIndex = (id: string) => steps.findIndex(step => step.id === id)
+
+  return exclusions.map((exclusion): FunnelExclusion => ({
+    matchType: exclusion.matchType,
+    matchValue: exclusion.matchValue,
+    operator: exclusion.operator,
+    fromStep: stepIndex(exclusion.fromStepId),
+    toStep: stepIndex(exclusion.toStepId),
+  }))
+}
+
+/**
+ * Convert API step configs back into editable steps
+ */
+export function fromStepConfigs(configs: FunnelStepConfig[]): FunnelStep[] {
+  return configs.map((config) => ({
+    id: crypto.randomUUID(),
+    name: config.name,
+    matchType: config.matchType ?? "path",
+    matchValue: config.matchValue ?? "",
+    operator: config.operator ?? "equals",
+    ...(config.conditions ? { conditions: config.conditions } : {}),
+    ...(config.anyOf
+      ? {
+        alternatives: config.anyOf.map((matcher) => ({
+          matchType: matcher.matchType ?? "path",
+          matchValue: matcher.matchValue ?? "",
+          operator: matcher.operator ?? "equals",
+        })),
+      }
+      : {}),
+    ...(config.optional ? { optional: true } : {}),
+  }))
+}
+
+/**
+ * Convert API exclusions back into rules referencing the given steps
+ */
+export function fromExclusions(exclusions: FunnelExclusion[], steps: FunnelStep[]): FunnelExclusionRule[] {
+  return exclusions
+    .filter((exclusion) => steps[exclusion.fromStep] && steps[exclusion.toStep])
+    .map((exclusion) => ({
+      id: crypto.randomUUID(),
+      matchType: exclusion.matchType ?? "path",
+      matchValue: exclusion.matchValue ?? "",
+      operator: exclusion.operator ?? "equals",
+      fromStepId: steps[exclusion.fromStep]!.id,
+      toStepId: steps[exclusion.toStep]!.id,
+    }))
+}
+
+/**
+ * Store ranges ending today as the last N days so they stay current
+ * Ranges longer than a relative range can span are stored as fixed dates
+ */
+export function toSavedDateRange(range: DateRange | undefined): SavedFunnelDateRange | undefined {
+  if (!range?.from || !range.to) {
+    return undefined
+  }
+
+  const days = Math.max(differenceInCalendarDays(range.to, range.from), 1)
+  if (isToday(range.to) && days <= MAX_RELATIVE_RANGE_DAYS) {
+    return { type: "relative", days }
+  }
+
+  return toAbsoluteDateRange(range)
+}
+
+/**
+ * Store a range as fixed dates, so shared links show exactly the same analysis
+ */
+export function toAbsoluteDateRange(range: DateRange | undefined): SavedFunnelDateRange | undefined {
+  if (!range?.from || !range.to) {
+    return undefined
+  }
+
+  return { type: "absolute", startDate: range.from.toISOString(), endDate: range.to.toISOString() }
+}
+
+/**
+ * Resolve a saved date range into picker dates
+ */
+export function fromSavedDateRange(range: SavedFunnelDateRange): DateRange {
+  if (range.type === "relative") {
+    const today = new Date()
+    return { from: subDays(today, range.days), to: today }
+  }
+
+  return { from: new Date(range.startDate), to: new Date(range.endDate) }
+}
@@ -0,0 +1,96 @@
+import type {
+  FunnelComparisonRequest,
+  FunnelStepConfig,
+  SavedFunnel,
+  SavedFunnelDateRange,
+  SavedFunnelOptions,
+} from "@trainwell-funnel/shared"
+
+// Query string parameters of a shared funnel link
+const STATE_PARAM = "funnel"
+const SAVED_FUNNEL_PARAM = "saved"
+
+/**
+ * Everything needed to reproduce a funnel analysis from a link
+ */
+export interface FunnelLinkState {
+  steps: FunnelStepConfig[]
+  dateRange?: SavedFunnelDateRange
+  options?: SavedFunnelOptions
+  compareTo?: FunnelComparisonRequest
+}
+
+/**
+ * Funnel encoded in the URL, and the saved funnel it was opened from, if any
+ */
+export interface FunnelLink {
+  state?: FunnelLinkState
+  savedFunnelId?: string
+}
+
+// Base64url so the JSON survives chat apps that mangle "+", "/" and "="
+function toBase64Url(text: string): string {
+  let binary = ""
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)))
+}
+
+/**
+ * Link state of a saved funnel
+ */
+export function toFunnelLinkState(funnel: SavedFunnel): FunnelLinkState {
+  return {
+    steps: funnel.steps,
+    ...(funnel.dateRange ? { dateRange: funnel.dateRange } : {}),
+    ...(funnel.options ? { options: funnel.options } : {}),
+  }
+}
+
+/**
+ * Read a shared funnel from a query string, ignoring state that doesn't decode
+ */
+export function readFunnelLink(search: string): FunnelLink {
+  const params = new URLSearchParams(search)
+  const encoded = params.get(STATE_PARAM)
+  const savedFunnelId = params.get(SAVED_FUNNEL_PARAM) ?? undefined
+  let state: FunnelLinkState | undefined
+
+  if (encoded) {
+    try {
+      const decoded = JSON.parse(fromBase64Url(encoded))
+      if (Array.isArray(decoded?.steps)) {
+        state = decoded
+      }
+    } catch {
+      // Truncated or hand-edited links open an empty funnel
+    }
+  }
+
+  return { state, savedFunnelId }
+}
+
+/**
+ * Build the query string for a funnel, keeping any unrelated parameters
+ */
+export function buildFunnelSearch(link: FunnelLink, search: string): string {
+  const params = new URLSearchParams(search)
+  params.delete(STATE_PARAM)
+  params.delete(SAVED_FUNNEL_PARAM)
+
+  if (link.savedFunnelId) {
+    params.set(SAVED_FUNNEL_PARAM, link.savedFunnelId)
+  }
+  if (link.state) {
+    params.set(STATE_PARAM, toBase64Url(JSON.stringify(link.state)))
+  }
+
+  const query = params.toString()
+  return query ? `?${query}` : ""
+}
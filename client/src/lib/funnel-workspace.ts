@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react"
+import type { FunnelLinkState } from "@/lib/funnel-url"
+import type { SavedFunnel } from "@trainwell-funnel/shared"
+
+/**
+ * Funnel being edited, shared between the funnels page and the sidebar
+ */
+export interface FunnelWorkspace {
+  // Definition the funnels page starts from, with a key that changes whenever one is opened
+  view: { key: number; state?: FunnelLinkState }
+  // Saved funnel that is open, if any
+  openFunnel?: SavedFunnel
+  openSavedFunnel: (funnel: SavedFunnel) => void
+  startNewFunnel: () => void
+  // Track the open funnel after it's saved, renamed or deleted
+  setOpenFunnel: (funnel: SavedFunnel) => void
+  funnelRenamed: (funnel: SavedFunnel) => void
+  funnelDeleted: (id: string) => void
+}
+
+export const FunnelWorkspaceContext = createContext<FunnelWorkspace | undefined>(undefined)
+
+export function useFunnelWorkspace(): FunnelWorkspace {
+  const workspace = useContext(FunnelWorkspaceContext)
+  if (!workspace) {
+    throw new Error("useFunnelWorkspace must be used within a FunnelWorkspaceProvider")
+  }
+
+  return workspace
+}
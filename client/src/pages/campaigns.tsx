@@ -0,0 +1,63 @@
+import { useState, useEffect } from "react"
+import { type DateRange } from "react-day-picker"
+import { subDays } from "date-fns"
+import { useCampaignAnalysis } from "@/hooks/use-campaigns"
+import { DateRangePicker } from "@/components/date-range-picker"
+import { CampaignMetricsTable, CampaignSummaryCards } from "@/components/campaign-metrics"
+
+export function CampaignsPage() {
+  const { mutate: analyzeCampaigns, data: campaignResults, isPending } = useCampaignAnalysis()
+
+  // Date range state - default to last 30 days
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 30),
+    to: new Date(),
+  })
+
+  // Campaign analysis - trigger when date range changes
+  useEffect(() => {
+    if (!dateRange?.from || !dateRange?.to) {
+      return
+    }
+
+    const timeoutId = setTimeout(() => {
+      const request = {
+        startDate: dateRange.from!.toISOString(),
+        endDate: dateRange.to!.toISOString(),
+      }
+      analyzeCampaigns(request)
+    }, 1000) // 1 second debounce
+
+    return () => clearTimeout(timeoutId)
+  }, [dateRange, analyzeCampaigns])
+
+  const campaigns = campaignResults?.success && campaignResults.data
+    ? campaignResults.data.campaigns
+    : []
+
+  const summary = campaignResults?.success && campaignResults.data
+    ? campaignResults.data.summary
+    : { totalCampaigns: 0, totalUsers: 0, topCampaign: null }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Campaigns</h2>
+        <DateRangePicker value={dateRange} onChange={setDateRange} />
+      </div>
+
+      <div className="grid auto-rows-min gap-4 md:grid-cols-3">
+        <CampaignSummaryCards
+          totalCampaigns={summary.totalCampaigns}
+          totalUsers={summary.totalUsers}
+          topCampaign={summary.topCampaign}
+        />
+      </div>
+
+      <CampaignMetricsTable
+        campaigns={campaigns}
+        isLoading={isPending}
+      />
+    </div>
+  )
+}
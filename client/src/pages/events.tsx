@@ -0,0 +1,318 @@
+import { useEffect, useState } from "react"
+import { Link } from "react-router"
+import { type DateRange } from "react-day-picker"
+import { format, subDays } from "date-fns"
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { DateRangePicker } from "@/components/date-range-picker"
+import { EventDetailSheet, type EventFilterField } from "@/components/event-detail-sheet"
+import { useEvents } from "@/hooks/use-events"
+import type { EventDTO, EventQueryParams, EventSortOrder } from "@trainwell-funnel/shared"
+
+const PAGE_SIZES = [25, 50, 100]
+
+type EventFilters = Record<EventFilterField, string>
+
+const EMPTY_FILTERS: EventFilters = { user_id: "", session_id: "", hostname: "", path: "" }
+
+const FILTER_FIELDS: { field: EventFilterField; label: string; placeholder: string }[] = [
+  { field: "user_id", label: "User ID", placeholder: "user_123" },
+  { field: "session_id", label: "Session ID", placeholder: "session_456" },
+  { field: "hostname", label: "Hostname", placeholder: "www.trainwell.net" },
+  { field: "path", label: "Path", placeholder: "/pricing" },
+]
+
+type SortKey = "date" | EventFilterField
+
+// Columns other than the date sort the loaded page, the API pages through events by date
+const PAGE_SORT_VALUES: Record<EventFilterField, (event: EventDTO) => string> = {
+  user_id: (event) => event.user_id,
+  session_id: (event) => event.session_id,
+  hostname: (event) => event.content.hostname,
+  path: (event) => event.content.path,
+}
+
+function SortableHead({
+  label,
+  sortKey,
+  sort,
+  onSort,
+}: {
+  label: string
+  sortKey: SortKey
+  sort: { key: SortKey; direction: EventSortOrder }
+  onSort: (key: SortKey) => void
+}) {
+  const Icon = sort.key !== sortKey ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(sortKey)}>
+        {label}
+        <Icon className="ml-1 h-3 w-3" />
+      </Button>
+    </TableHead>
+  )
+}
+
+export function EventsPage() {
+  // Date range state - default to last 7 days
+  const [dateRange, setDateRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 7),
+    to: new Date(),
+  })
+
+  const [filterInputs, setFilterInputs] = useState<EventFilters>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<EventFilters>(EMPTY_FILTERS)
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1]!)
+  const [dateSort, setDateSort] = useState<EventSortOrder>("desc")
+  const [pageSort, setPageSort] = useState<{ key: EventFilterField; direction: EventSortOrder }>()
+  const [selectedEventId, setSelectedEventId] = useState<string>()
+
+  // Cursor of the current page, and its position for display
+  const [cursor, setCursor] = useState<Pick<EventQueryParams, "after" | "before">>({})
+  const [pageIndex, setPageIndex] = useState(0)
+
+  const resetPage = () => {
+    setCursor({})
+    setPageIndex(0)
+  }
+
+  // Debounced filters - wait 1 second after user stops typing
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setFilters(filterInputs)
+      setCursor({})
+      setPageIndex(0)
+    }, 1000)
+    return () => clearTimeout(timeoutId)
+  }, [filterInputs])
+
+  const params: EventQueryParams = {
+    ...Object.fromEntries(
+      Object.entries(filters)
+        .map(([field, value]) => [field, value.trim()])
+        .filter(([, value]) => value)
+    ),
+    ...(dateRange?.from ? { startDate: dateRange.from.toISOString() } : {}),
+    ...(dateRange?.to ? { endDate: dateRange.to.toISOString() } : {}),
+    limit: pageSize,
+    sort: dateSort,
+    ...cursor,
+  }
+
+  const { data, isPending, isError, error, isPlaceholderData } = useEvents(params)
+  const pagination = data?.pagination
+  const total = pagination?.total ?? 0
+
+  const loaded = data?.success ? data.data ?? [] : []
+  const events = pageSort
+    ? [...loaded].sort((a, b) => {
+        const order = PAGE_SORT_VALUES[pageSort.key](a).localeCompare(PAGE_SORT_VALUES[pageSort.key](b))
+        return pageSort.direction === "asc" ? order : -order
+      })
+    : loaded
+  const sort = pageSort ?? { key: "date" as const, direction: dateSort }
+
+  const handleSort = (key: SortKey) => {
+    if (key === "date") {
+      // Sorting by date starts again from the first page
+      setDateSort(sort.key === "date" && dateSort === "desc" ? "asc" : "desc")
+      setPageSort(undefined)
+      resetPage()
+      return
+    }
+
+    setPageSort((current) => ({
+      key,
+      direction: current?.key === key && current.direction === "asc" ? "desc" : "asc",
+    }))
+  }
+
+  const handleDateRangeChange = (range: DateRange | undefined) => {
+    setDateRange(range)
+    resetPage()
+  }
+
+  // Filters picked from the detail panel apply straight away
+  const handleFilter = (field: EventFilterField, value: string) => {
+    const next = { ...EMPTY_FILTERS, [field]: value }
+    setFilterInputs(next)
+    setFilters(next)
+    resetPage()
+    setSelectedEventId(undefined)
+  }
+
+  const hasFilters = Object.values(filterInputs).some((value) => value)
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Events</h2>
+        <DateRangePicker value={dateRange} onChange={handleDateRangeChange} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events Explorer</CardTitle>
+          <CardDescription>Raw page view events, for checking what's behind a number</CardDescription>
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            {FILTER_FIELDS.map(({ field, label, placeholder }) => (
+              <Input
+                key={field}
+                value={filterInputs[field]}
+                onChange={(e) => setFilterInputs((current) => ({ ...current, [field]: e.target.value }))}
+                placeholder={`${label}: ${placeholder}`}
+                className="w-[200px]"
+                aria-label={label}
+              />
+            ))}
+            {hasFilters && (
+              <Button variant="ghost" onClick={() => setFilterInputs(EMPTY_FILTERS)}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isError || data?.success === false ? (
+            <div className="flex h-[300px] items-center justify-center">
+              <p className="text-sm text-destructive">
+                {data?.error ?? (error instanceof Error ? error.message : "Failed to load events")}
+              </p>
+            </div>
+          ) : isPending ? (
+            <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+              <p className="text-sm">Loading events...</p>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+              <div className="text-center space-y-2">
+                <p className="text-sm">No events found</p>
+                <p className="text-xs">Try a wider date range or fewer filters</p>
+              </div>
+            </div>
+          ) : (
+            <Table className={isPlaceholderData ? "opacity-60" : undefined}>
+              <TableHeader>
+                <TableRow>
+                  <SortableHead label="Date" sortKey="date" sort={sort} onSort={handleSort} />
+                  <SortableHead label="User" sortKey="user_id" sort={sort} onSort={handleSort} />
+                  <SortableHead label="Session" sortKey="session_id" sort={sort} onSort={handleSort} />
+                  <SortableHead label="Hostname" sortKey="hostname" sort={sort} onSort={handleSort} />
+                  <SortableHead label="Path" sortKey="path" sort={sort} onSort={handleSort} />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow
+                    key={event.id}
+                    className="cursor-pointer"
+                    data-state={event.id === selectedEventId ? "selected" : undefined}
+                    onClick={() => setSelectedEventId(event.id)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(event.date), "MMM d, yyyy HH:mm:ss")}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <Link
+                        to={`/users/${encodeURIComponent(event.user_id)}`}
+                        className="underline-offset-4 hover:underline"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {event.user_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{event.session_id}</TableCell>
+                    <TableCell>{event.content.hostname}</TableCell>
+                    <TableCell className="max-w-[320px] truncate" title={event.content.path}>
+                      {event.content.path}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {total > 0 && (
+            <div className="flex items-center justify-between pt-4 text-sm text-muted-foreground">
+              <span>
+                Page {(pageIndex + 1).toLocaleString()} of {Math.ceil(total / pageSize).toLocaleString()} ·{" "}
+                {total.toLocaleString()} events
+              </span>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={String(pageSize)}
+                  onValueChange={(value) => {
+                    setPageSize(Number(value))
+                    resetPage()
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-[110px]" aria-label="Page size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_SIZES.map((size) => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} / page
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!pagination?.prevCursor || isPlaceholderData}
+                  onClick={() => {
+                    setCursor({ before: pagination!.prevCursor! })
+                    setPageIndex(pageIndex - 1)
+                  }}
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!pagination?.nextCursor || isPlaceholderData}
+                  onClick={() => {
+                    setCursor({ after: pagination!.nextCursor! })
+                    setPageIndex(pageIndex + 1)
+                  }}
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedEventId && (
+        <EventDetailSheet
+          eventId={selectedEventId}
+          onClose={() => setSelectedEventId(undefined)}
+          onFilter={handleFilter}
+        />
+      )}
+    </div>
+  )
+}
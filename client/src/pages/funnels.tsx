@@ -0,0 +1,524 @@
+import { useState, useEffect } from "react"
+import { useLocation, useNavigate } from "react-router"
+import { BarChart3, Link, LineChart as LineChartIcon } from "lucide-react"
+import { type DateRange } from "react-day-picker"
+import { subDays } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useFunnelAnalysis } from "@/hooks/use-events"
+import { DateRangePicker } from "@/components/date-range-picker"
+import { ConversionWindowSelect } from "@/components/conversion-window-select"
+import { BreakdownSelect } from "@/components/breakdown-select"
+import { CountBySelect } from "@/components/count-by-select"
+import { FunnelOrderSelect } from "@/components/funnel-order-select"
+import { FunnelStepBuilder, type FunnelStep } from "@/components/funnel-step-builder"
+import type { FunnelExclusionRule } from "@/components/funnel-exclusion-builder"
+import { isConditionGroupComplete } from "@/lib/funnel-conditions"
+import {
+  fromExclusions,
+  fromSavedDateRange,
+  fromStepConfigs,
+  toAbsoluteDateRange,
+  toExclusions,
+  toSavedDateRange,
+  toStepConfigs,
+} from "@/lib/funnel-definition"
+import { buildFunnelSearch, type FunnelLinkState } from "@/lib/funnel-url"
+import { useFunnelWorkspace } from "@/lib/funnel-workspace"
+import { FunnelVisualization, type FunnelData } from "@/components/funnel-visualization"
+import { FunnelUsersPanel, type FunnelUsersQuery } from "@/components/funnel-users-panel"
+import { TimeToConvertChart } from "@/components/time-to-convert-chart"
+import { FunnelTrendChart } from "@/components/funnel-trend-chart"
+import { DeltaIndicator } from "@/components/delta-indicator"
+import { Button } from "@/components/ui/button"
+import { ButtonGroup } from "@/components/ui/button-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { PathExplorer } from "@/components/path-explorer"
+import { RetentionExplorer } from "@/components/retention-explorer"
+import { SaveFunnelPopover } from "@/components/save-funnel-popover"
+import type {
+  FunnelAnalysisRequest,
+  FunnelAnalysisResponse,
+  ConversionWindow,
+  FunnelBreakdownProperty,
+  FunnelTrendInterval,
+  FunnelComparisonRequest,
+  FunnelCountBy,
+  FunnelOrder,
+  SavedFunnel,
+  SavedFunnelInput,
+} from "@trainwell-funnel/shared"
+
+export function FunnelsPage() {
+  const { view, openFunnel, setOpenFunnel } = useFunnelWorkspace()
+
+  // Remount whenever a funnel is opened or started, so state starts from its definition
+  return (
+    <FunnelEditor
+      key={view.key}
+      initialState={view.state}
+      savedFunnel={openFunnel}
+      onSaved={setOpenFunnel}
+    />
+  )
+}
+
+interface FunnelEditorProps {
+  // Funnel to start from, from a shared link or a saved funnel
+  initialState?: FunnelLinkState
+  // Saved funnel that is open, if any
+  savedFunnel?: SavedFunnel
+  onSaved: (funnel: SavedFunnel) => void
+}
+
+function FunnelEditor({ initialState, savedFunnel, onSaved }: FunnelEditorProps) {
+  const location = useLocation()
+  const navigate = useNavigate()
+  const { mutate: analyzeFunnel, data: funnelResults, isPending, isError, error } = useFunnelAnalysis()
+
+  const options = initialState?.options
+
+  // Date range state - default to the initial funnel's range, or the last 30 days
+  const [dateRange, setDateRange] = useState<DateRange | undefined>(() =>
+    initialState?.dateRange
+      ? fromSavedDateRange(initialState.dateRange)
+      : { from: subDays(new Date(), 30), to: new Date() }
+  )
+
+  // Funnel steps state
+  const [funnelSteps, setFunnelSteps] = useState<FunnelStep[]>(() =>
+    initialState ? fromStepConfigs(initialState.steps) : []
+  )
+
+  // Events that disqualify users between two steps
+  const [exclusions, setExclusions] = useState<FunnelExclusionRule[]>(() =>
+    options?.exclusions ? fromExclusions(options.exclusions, funnelSteps) : []
+  )
+
+  // Conversion window - undefined means the whole date range
+  const [conversionWindow, setConversionWindow] = useState<ConversionWindow | undefined>(options?.conversionWindow)
+
+  // Count users across the range, or conversions within a single session
+  const [countBy, setCountBy] = useState<FunnelCountBy>(options?.countBy ?? "user")
+
+  // Whether steps must happen back to back, in order, or in any order
+  const [order, setOrder] = useState<FunnelOrder>(options?.order ?? "sequential")
+
+  // Optional property to split the funnel by
+  const [breakdownBy, setBreakdownBy] = useState<FunnelBreakdownProperty | undefined>(options?.breakdownBy)
+
+  // Bar chart of the whole range, or conversion trends over time
+  const [chartMode, setChartMode] = useState<ChartMode>(options?.trendInterval ? "trends" : "bars")
+  const [trendInterval, setTrendInterval] = useState<FunnelTrendInterval>(options?.trendInterval ?? "day")
+
+  // Optional period to compare the funnel against
+  const [compareTo, setCompareTo] = useState<FunnelComparisonRequest | undefined>(initialState?.compareTo)
+
+  // Funnel definition of the last analysis, for listing the users behind a step
+  const [funnelQuery, setFunnelQuery] = useState<FunnelUsersQuery | undefined>()
+
+  const [activeTab, setActiveTab] = useState("funnel")
+
+  // Briefly confirm the funnel link was copied
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  // Debounced funnel analysis - wait 1 second after user stops typing
+  useEffect(() => {
+    if (funnelSteps.length === 0 || !dateRange?.from || !dateRange?.to) {
+      return
+    }
+
+    // Validate that all steps have required values
+    const hasEmptySteps = funnelSteps.some(
+      step => !step.name.trim() || (step.conditions
+        ? !isConditionGroupComplete(step.conditions)
+        : !step.matchValue.trim() || step.alternatives?.some(alt => !alt.matchValue.trim()))
+    )
+    // Exclusions sit between ordered steps, so unordered funnels ignore them
+    const activeExclusions = order === "any" ? [] : exclusions
+    if (hasEmptySteps || activeExclusions.some(exclusion => !exclusion.matchValue.trim())) {
+      return
+    }
+
+    const timeoutId = setTimeout(() => {
+      const funnel: FunnelUsersQuery = {
+        steps: toStepConfigs(funnelSteps),
+        startDate: dateRange.from!.toISOString(),
+        endDate: dateRange.to!.toISOString(),
+        conversionWindow,
+        countBy,
+        order,
+        exclusions: toExclusions(activeExclusions, funnelSteps),
+      }
+      const request: FunnelAnalysisRequest = {
+        ...funnel,
+        compareTo,
+        // The API can't combine breakdowns with trends
+        ...(chartMode === "trends" ? { trendInterval } : { breakdownBy }),
+      }
+      setFunnelQuery(funnel)
+      analyzeFunnel(request)
+    }, 1000) // 1 second debounce
+
+    return () => clearTimeout(timeoutId)
+  }, [funnelSteps, exclusions, dateRange, conversionWindow, countBy, order, breakdownBy, chartMode, trendInterval, compareTo, analyzeFunnel])
+
+  // Funnel definition as it would be saved, with options the API ignores left out
+  const definition: Omit<SavedFunnelInput, "name" | "description"> = {
+    steps: toStepConfigs(funnelSteps),
+    dateRange: toSavedDateRange(dateRange),
+    options: {
+      ...(conversionWindow ? { conversionWindow } : {}),
+      countBy,
+      order,
+      // Exclusions only apply to ordered funnels
+      ...(order !== "any" && exclusions.length > 0
+        ? { exclusions: toExclusions(exclusions, funnelSteps) }
+        : {}),
+      ...(chartMode === "trends" ? { trendInterval } : breakdownBy ? { breakdownBy } : {}),
+    },
+  }
+
+  // Keep the URL in sync so it can be shared, with fixed dates so it reproduces this exact analysis
+  const funnelSearch = buildFunnelSearch(
+    {
+      savedFunnelId: savedFunnel?.id,
+      state: funnelSteps.length > 0
+        ? { ...definition, dateRange: toAbsoluteDateRange(dateRange), ...(compareTo ? { compareTo } : {}) }
+        : undefined,
+    },
+    location.search
+  )
+  useEffect(() => {
+    if (funnelSearch !== location.search) {
+      navigate({ search: funnelSearch }, { replace: true })
+    }
+  }, [funnelSearch, location.search, navigate])
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}${location.pathname}${funnelSearch}`)
+    setLinkCopied(true)
+    setTimeout(() => setLinkCopied(false), 2000)
+  }
+
+  // Convert API results to visualization data
+  const funnelData: FunnelData[] = funnelResults?.success && funnelResults.data
+    ? funnelResults.data.steps.map((step, index) => ({
+        step: step.step,
+        users: step.users,
+        sessions: step.sessions,
+        conversionRate: step.conversionRate,
+        dropoffRate: step.dropoffRate,
+        optional: step.optional,
+        timeToConvert: step.timeToConvert,
+        previousUsers: funnelResults.data!.comparison?.steps[index]?.users,
+        delta: funnelResults.data!.comparison?.deltas[index],
+      }))
+    : []
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">{savedFunnel?.name ?? "Funnels"}</h2>
+        <div className="flex items-center space-x-4">
+          <DateRangePicker
+            value={dateRange}
+            onChange={setDateRange}
+            compareTo={activeTab === "funnel" ? compareTo : undefined}
+            onCompareToChange={activeTab === "funnel" ? setCompareTo : undefined}
+          />
+          {activeTab === "funnel" && (
+            <>
+              <ConversionWindowSelect value={conversionWindow} onChange={setConversionWindow} />
+              <CountBySelect value={countBy} onChange={setCountBy} />
+              <FunnelOrderSelect value={order} onChange={setOrder} />
+              {chartMode === "bars" && (
+                <BreakdownSelect value={breakdownBy} onChange={setBreakdownBy} />
+              )}
+              <Button
+                variant="outline"
+                disabled={funnelSteps.length === 0}
+                onClick={handleCopyLink}
+              >
+                <Link className="mr-2 h-4 w-4" />
+                {linkCopied ? "Copied" : "Copy link"}
+              </Button>
+              <SaveFunnelPopover
+                savedFunnel={savedFunnel}
+                definition={definition}
+                disabled={funnelSteps.length === 0}
+                onSaved={onSaved}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList>
+          <TabsTrigger value="funnel">Funnel Analysis</TabsTrigger>
+          <TabsTrigger value="paths">Path Explorer</TabsTrigger>
+          <TabsTrigger value="retention">Retention</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="funnel" className="space-y-4">
+          <FunnelTab
+            funnelResults={funnelResults}
+            funnelData={funnelData}
+            funnelSteps={funnelSteps}
+            setFunnelSteps={setFunnelSteps}
+            exclusions={exclusions}
+            setExclusions={setExclusions}
+            unordered={order === "any"}
+            funnelQuery={funnelQuery}
+            chartMode={chartMode}
+            setChartMode={setChartMode}
+            trendInterval={trendInterval}
+            setTrendInterval={setTrendInterval}
+            isPending={isPending}
+            isError={isError}
+            error={error}
+          />
+        </TabsContent>
+
+        <TabsContent value="paths" className="space-y-4">
+          <PathExplorer
+            startDate={dateRange?.from?.toISOString()}
+            endDate={dateRange?.to?.toISOString()}
+          />
+        </TabsContent>
+
+        <TabsContent value="retention" className="space-y-4">
+          <RetentionExplorer
+            startDate={dateRange?.from?.toISOString()}
+            endDate={dateRange?.to?.toISOString()}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+type ChartMode = "bars" | "trends"
+
+function FunnelTab({
+  funnelResults,
+  funnelData,
+  funnelSteps,
+  setFunnelSteps,
+  exclusions,
+  setExclusions,
+  unordered,
+  funnelQuery,
+  chartMode,
+  setChartMode,
+  trendInterval,
+  setTrendInterval,
+  isPending,
+  isError,
+  error
+}: {
+  funnelResults: FunnelAnalysisResponse | undefined
+  funnelData: FunnelData[]
+  funnelSteps: FunnelStep[]
+  setFunnelSteps: (steps: FunnelStep[]) => void
+  exclusions: FunnelExclusionRule[]
+  setExclusions: (exclusions: FunnelExclusionRule[]) => void
+  unordered: boolean
+  funnelQuery: FunnelUsersQuery | undefined
+  chartMode: ChartMode
+  setChartMode: (mode: ChartMode) => void
+  trendInterval: FunnelTrendInterval
+  setTrendInterval: (interval: FunnelTrendInterval) => void
+  isPending: boolean
+  isError: boolean
+  error: Error | null
+}) {
+  const summary = funnelResults?.data?.summary
+  const summaryDeltas = funnelResults?.data?.comparison?.summaryDeltas
+
+  // Step whose users are listed in the side panel
+  const [selectedStep, setSelectedStep] = useState<number | null>(null)
+
+  return (
+    <>
+      <div className="grid auto-rows-min gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {funnelResults?.data?.summary.totalUsers.toLocaleString() ?? '-'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Entered the funnel
+              {summary?.totalSessions !== undefined &&
+                ` in ${summary.totalSessions.toLocaleString()} sessions`}
+            </p>
+            {summaryDeltas && (
+              <DeltaIndicator delta={summaryDeltas.totalUsers} className="mt-1" />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Completed Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {funnelResults?.data?.summary.completedUsers.toLocaleString() ?? '-'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {summary?.completedSessions !== undefined
+                ? `Finished all steps in ${summary.completedSessions.toLocaleString()} sessions`
+                : "Finished all steps"}
+            </p>
+            {summaryDeltas && (
+              <DeltaIndicator delta={summaryDeltas.completedUsers} className="mt-1" />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overall Conversion</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {funnelResults?.data?.summary.overallConversionRate.toFixed(1) ?? '-'}%
+            </div>
+            <p className="text-xs text-muted-foreground">
+              End-to-end conversion rate
+            </p>
+            {summaryDeltas && (
+              <DeltaIndicator delta={summaryDeltas.overallConversionRate} unit="points" className="mt-1" />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="min-h-screen flex-1 rounded-xl md:min-h-min">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7 h-full">
+          <Card className="col-span-4">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Funnel Visualization</CardTitle>
+                <CardDescription>
+                  {isPending ? 'Analyzing funnel...' : 'Configure your funnel steps to analyze user flow'}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                {chartMode === "trends" && (
+                  <Select
+                    value={trendInterval}
+                    onValueChange={(value: FunnelTrendInterval) => setTrendInterval(value)}
+                  >
+                    <SelectTrigger className="h-8 w-[110px]" aria-label="Trend interval">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Daily</SelectItem>
+                      <SelectItem value="week">Weekly</SelectItem>
+                      <SelectItem value="month">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <ButtonGroup aria-label="Chart type">
+                  <Button
+                    size="sm"
+                    variant={chartMode === "bars" ? "secondary" : "outline"}
+                    onClick={() => setChartMode("bars")}
+                  >
+                    <BarChart3 className="h-4 w-4" />
+                    Steps
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={chartMode === "trends" ? "secondary" : "outline"}
+                    onClick={() => setChartMode("trends")}
+                  >
+                    <LineChartIcon className="h-4 w-4" />
+                    Trends
+                  </Button>
+                </ButtonGroup>
+              </div>
+            </CardHeader>
+            <CardContent className="pl-2">
+              {isError && (
+                <div className="flex h-[350px] items-center justify-center text-destructive">
+                  <div className="text-center space-y-2">
+                    <p className="text-sm font-medium">Error analyzing funnel</p>
+                    <p className="text-xs">{error?.message || 'An unknown error occurred'}</p>
+                  </div>
+                </div>
+              )}
+              {!isError && chartMode === "bars" && (
+                <FunnelVisualization
+                  data={funnelData}
+                  segments={funnelResults?.data?.breakdown?.segments}
+                  onStepClick={funnelQuery ? setSelectedStep : undefined}
+                />
+              )}
+              {!isError && chartMode === "trends" && (
+                funnelResults?.data?.trends ? (
+                  <FunnelTrendChart trends={funnelResults.data.trends} />
+                ) : (
+                  <FunnelVisualization data={[]} />
+                )
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="col-span-3">
+            <CardHeader>
+              <CardTitle>Funnel Configuration</CardTitle>
+              <CardDescription>
+                Add and configure funnel steps
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FunnelStepBuilder
+                steps={funnelSteps}
+                onChange={setFunnelSteps}
+                exclusions={exclusions}
+                onExclusionsChange={unordered ? undefined : setExclusions}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Steps done in any order have no time between them */}
+      {funnelResults?.data && funnelResults.data.steps.length > 1 && !unordered && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Time to Convert</CardTitle>
+            <CardDescription>
+              How long users take to reach each step after the previous one
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TimeToConvertChart steps={funnelResults.data.steps} />
+          </CardContent>
+        </Card>
+      )}
+
+      {funnelQuery && selectedStep !== null && selectedStep < funnelQuery.steps.length && (
+        <FunnelUsersPanel
+          key={selectedStep}
+          funnel={funnelQuery}
+          stepIndex={selectedStep}
+          onClose={() => setSelectedStep(null)}
+        />
+      )}
+    </>
+  )
+}
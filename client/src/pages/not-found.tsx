@@ -0,0 +1,14 @@
+import { Link } from "react-router"
+import { Button } from "@/components/ui/button"
+
+export function NotFoundPage() {
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-4 p-4 text-center">
+      <h2 className="text-3xl font-bold tracking-tight">Page not found</h2>
+      <p className="text-sm text-muted-foreground">This page doesn't exist or has moved</p>
+      <Button asChild variant="outline">
+        <Link to="/funnels">Go to funnels</Link>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import { useNavigate } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useSavedFunnels } from "@/hooks/use-saved-funnels"
+import { useFunnelWorkspace } from "@/lib/funnel-workspace"
+import type { SavedFunnel, SavedFunnelDateRange } from "@trainwell-funnel/shared"
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" }
+
+function formatDateRange(range: SavedFunnelDateRange | undefined): string {
+  if (!range) {
+    return "Last 30 days"
+  }
+
+  if (range.type === "relative") {
+    return `Last ${range.days} ${range.days === 1 ? "day" : "days"}`
+  }
+
+  const start = new Date(range.startDate).toLocaleDateString(undefined, DATE_FORMAT)
+  const end = new Date(range.endDate).toLocaleDateString(undefined, DATE_FORMAT)
+  return `${start} – ${end}`
+}
+
+export function ReportsPage() {
+  const navigate = useNavigate()
+  const { openSavedFunnel } = useFunnelWorkspace()
+  const { data, isLoading, isError } = useSavedFunnels()
+  const funnels = data?.success ? data.data ?? [] : []
+
+  const open = (funnel: SavedFunnel) => {
+    openSavedFunnel(funnel)
+    navigate("/funnels")
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <h2 className="text-3xl font-bold tracking-tight">Saved Reports</h2>
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Funnels</CardTitle>
+          <CardDescription>Funnels saved from the funnels page, most recently updated first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isError || data?.success === false ? (
+            <div className="flex h-[200px] items-center justify-center">
+              <p className="text-sm text-destructive">{data?.error ?? "Failed to load saved funnels"}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="flex h-[200px] items-center justify-center text-muted-foreground">
+              <p className="text-sm">Loading saved funnels...</p>
+            </div>
+          ) : funnels.length === 0 ? (
+            <div className="flex h-[200px] items-center justify-center text-muted-foreground">
+              <div className="text-center space-y-2">
+                <p className="text-sm">No saved funnels yet</p>
+                <p className="text-xs">Build a funnel and save it to see it here</p>
+              </div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Steps</TableHead>
+                  <TableHead>Date Range</TableHead>
+                  <TableHead>Updated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {funnels.map((funnel) => (
+                  <TableRow key={funnel.id} className="cursor-pointer" onClick={() => open(funnel)}>
+                    <TableCell>
+                      <div className="font-medium">{funnel.name}</div>
+                      {funnel.description && (
+                        <div className="text-xs text-muted-foreground">{funnel.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{funnel.steps.length}</TableCell>
+                    <TableCell>{formatDateRange(funnel.dateRange)}</TableCell>
+                    <TableCell>{new Date(funnel.updatedAt).toLocaleDateString(undefined, DATE_FORMAT)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
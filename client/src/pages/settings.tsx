@@ -0,0 +1,41 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useHealthCheck } from "@/hooks/use-events"
+import { API_BASE_URL } from "@/lib/api-client"
+
+export function SettingsPage() {
+  const { data: health, isLoading, isError } = useHealthCheck()
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <h2 className="text-3xl font-bold tracking-tight">Settings</h2>
+      <Card>
+        <CardHeader>
+          <CardTitle>API</CardTitle>
+          <CardDescription>Server the dashboard reads analytics from</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">URL</span>
+            <span className="font-mono">{API_BASE_URL}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Status</span>
+            {isLoading ? (
+              <span className="text-muted-foreground">Checking...</span>
+            ) : health && !isError ? (
+              <span className="flex items-center gap-2">
+                <div className="h-2 w-2 rounded-full bg-green-500" />
+                Connected
+              </span>
+            ) : (
+              <span className="flex items-center gap-2 text-destructive">
+                <div className="h-2 w-2 rounded-full bg-destructive" />
+                Unreachable
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
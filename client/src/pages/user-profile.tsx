@@ -0,0 +1,162 @@
+import { useState } from "react"
+import { Link, useParams } from "react-router"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useUserTimeline } from "@/hooks/use-users"
+import { formatDuration } from "@/lib/format-duration"
+import type { UserTimelineSession } from "@trainwell-funnel/shared"
+
+// Sessions loaded at a time, and the most the API returns
+const SESSION_PAGE_SIZE = 100
+const MAX_SESSIONS = 500
+
+const formatTime = (date: string, pattern: string = "MMM d, yyyy HH:mm") => format(new Date(date), pattern)
+
+function TimelineSession({ session }: { session: UserTimelineSession }) {
+  const utm = Object.entries(session.utm ?? {}).filter(([, value]) => value)
+
+  return (
+    <li className="relative ml-6 pb-8 last:pb-0">
+      <span className="absolute -left-[31px] top-1 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+
+      <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+        <time className="font-medium" dateTime={session.start}>
+          {formatTime(session.start)}
+        </time>
+        <span className="text-muted-foreground">
+          {formatDuration(session.duration)} · {session.pageCount.toLocaleString()}{" "}
+          {session.pageCount === 1 ? "page" : "pages"}
+        </span>
+      </div>
+      <p className="text-sm">
+        Landed on <span className="font-medium">{session.landingPage}</span>{" "}
+        <span className="text-muted-foreground">({session.hostname})</span>
+      </p>
+      <p className="font-mono text-xs text-muted-foreground">{session.sessionId ?? "No session id"}</p>
+      {utm.length > 0 && (
+        <div className="flex flex-wrap gap-1 pt-1">
+          {utm.map(([key, value]) => (
+            <span key={key} className="rounded-md border px-1.5 py-0.5 text-xs">
+              {key.replace("utm_", "")}: {value}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <ol className="mt-2 space-y-1 border-l pl-3 text-sm">
+        {session.events.map((event) => (
+          <li key={event.id} className="flex gap-3">
+            <time className="w-16 shrink-0 text-muted-foreground" dateTime={event.date}>
+              {formatTime(event.date, "HH:mm:ss")}
+            </time>
+            <span className="truncate" title={`${event.content.hostname}${event.content.path}`}>
+              {event.content.path}
+              {event.content.hostname !== session.hostname && (
+                <span className="text-muted-foreground"> ({event.content.hostname})</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </li>
+  )
+}
+
+export function UserProfilePage() {
+  const { userId } = useParams()
+  const [limit, setLimit] = useState(SESSION_PAGE_SIZE)
+
+  const { data, isPending, isError, error, isPlaceholderData } = useUserTimeline(userId, { limit })
+  const timeline = data?.success ? data.data : undefined
+
+  const stats = timeline
+    ? [
+        { label: "First seen", value: formatTime(timeline.firstSeen) },
+        { label: "Last seen", value: formatTime(timeline.lastSeen) },
+        { label: "Sessions", value: timeline.totalSessions.toLocaleString() },
+        { label: "Events", value: timeline.totalEvents.toLocaleString() },
+      ]
+    : []
+
+  const notFound = error instanceof Error && error.message.startsWith("HTTP 404")
+  const hasMore = !!timeline && timeline.sessions.length < timeline.totalSessions && limit < MAX_SESSIONS
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">User</h2>
+        <p className="font-mono text-sm text-muted-foreground">{userId}</p>
+      </div>
+
+      {isError || data?.success === false ? (
+        <Card>
+          <CardContent className="flex h-[300px] items-center justify-center">
+            {notFound ? (
+              <div className="text-center space-y-2 text-muted-foreground">
+                <p className="text-sm">No events found for this user</p>
+                <Link to="/users" className="text-xs underline">
+                  Look up another user
+                </Link>
+              </div>
+            ) : (
+              <p className="text-sm text-destructive">
+                {data?.error ?? (error instanceof Error ? error.message : "Failed to load user")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ) : isPending || !timeline ? (
+        <Card>
+          <CardContent className="flex h-[300px] items-center justify-center text-muted-foreground">
+            <p className="text-sm">Loading timeline...</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {stats.map((stat) => (
+                <div key={stat.label}>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-lg font-bold">{stat.value}</p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>
+                {timeline.sessions.length < timeline.totalSessions
+                  ? `The ${timeline.sessions.length.toLocaleString()} most recent of ${timeline.totalSessions.toLocaleString()} sessions`
+                  : "Every session, most recent first"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className={isPlaceholderData ? "opacity-60" : undefined}>
+              <ol className="ml-1.5 border-l">
+                {timeline.sessions.map((session) => (
+                  <TimelineSession key={session.sessionId ?? session.start} session={session} />
+                ))}
+              </ol>
+
+              {hasMore && (
+                <div className="flex justify-center pt-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isPlaceholderData}
+                    onClick={() => setLimit(limit + SESSION_PAGE_SIZE)}
+                  >
+                    Load older sessions
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
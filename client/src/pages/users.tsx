@@ -0,0 +1,45 @@
+import { useState, type FormEvent } from "react"
+import { useNavigate } from "react-router"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+
+export function UsersPage() {
+  const navigate = useNavigate()
+  const [userId, setUserId] = useState("")
+
+  const lookUp = (event: FormEvent) => {
+    event.preventDefault()
+    if (userId.trim()) {
+      navigate(`/users/${encodeURIComponent(userId.trim())}`)
+    }
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <h2 className="text-3xl font-bold tracking-tight">Users</h2>
+      <Card>
+        <CardHeader>
+          <CardTitle>User Profiles</CardTitle>
+          <CardDescription>Look up a user's activity across sessions</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={lookUp} className="flex max-w-md gap-2">
+            <Input
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              placeholder="User ID, e.g. user_123"
+              aria-label="User ID"
+            />
+            <Button type="submit" disabled={!userId.trim()}>
+              View timeline
+            </Button>
+          </form>
+          <p className="pt-4 text-xs text-muted-foreground">
+            User IDs in the funnel drill-downs and the events explorer link here too
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
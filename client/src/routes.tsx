@@ -0,0 +1,45 @@
+import { createBrowserRouter, Navigate, type Params } from "react-router"
+import { AppLayout } from "@/components/app-layout"
+import { FunnelsPage } from "@/pages/funnels"
+import { CampaignsPage } from "@/pages/campaigns"
+import { EventsPage } from "@/pages/events"
+import { UsersPage } from "@/pages/users"
+import { UserProfilePage } from "@/pages/user-profile"
+import { ReportsPage } from "@/pages/reports"
+import { SettingsPage } from "@/pages/settings"
+import { NotFoundPage } from "@/pages/not-found"
+
+/**
+ * Route metadata read by the site header
+ */
+export interface RouteHandle {
+  crumb: string | ((params: Params) => string) // Breadcrumb label, or built from the route params
+}
+
+export const router = createBrowserRouter([
+  {
+    path: "/",
+    element: <AppLayout />,
+    children: [
+      { index: true, element: <Navigate to="/funnels" replace /> },
+      { path: "funnels", element: <FunnelsPage />, handle: { crumb: "Funnels" } satisfies RouteHandle },
+      { path: "campaigns", element: <CampaignsPage />, handle: { crumb: "Campaigns" } satisfies RouteHandle },
+      { path: "events", element: <EventsPage />, handle: { crumb: "Events" } satisfies RouteHandle },
+      {
+        path: "users",
+        handle: { crumb: "Users" } satisfies RouteHandle,
+        children: [
+          { index: true, element: <UsersPage /> },
+          {
+            path: ":userId",
+            element: <UserProfilePage />,
+            handle: { crumb: (params) => params.userId ?? "User" } satisfies RouteHandle,
+          },
+        ],
+      },
+      { path: "reports", element: <ReportsPage />, handle: { crumb: "Saved Reports" } satisfies RouteHandle },
+      { path: "settings", element: <SettingsPage />, handle: { crumb: "Settings" } satisfies RouteHandle },
+      { path: "*", element: <NotFoundPage />, handle: { crumb: "Not Found" } satisfies RouteHandle },
+    ],
+  },
+])
@@ -1,8 +1,30 @@
 import type { Request, Response, NextFunction } from 'express';
 import { EventService } from '@/services/event.service';
 import logger from '@/lib/logger';
-import type { EventQueryFilters } from '@/models/event.model';
-import type { FunnelAnalysisRequest, FunnelAnalysisResponse } from '@trainwell-funnel/shared';
+import {
+  EVENT_SORT_ORDERS,
+  EventModel,
+  type EventPageQuery,
+  type EventQueryFilters,
+} from '@/models/event.model';
+import {
+  FUNNEL_BREAKDOWN_PROPERTIES,
+  FUNNEL_TREND_INTERVALS,
+  FUNNEL_COMPARISON_MODES,
+  FUNNEL_USER_STATUSES,
+  FunnelModel,
+  MAX_BREAKDOWN_LIMIT,
+  MAX_FUNNEL_USERS_LIMIT,
+  MAX_NEXT_PAGES_LIMIT,
+} from '@/models/funnel.model';
+import type {
+  FunnelAnalysisRequest,
+  FunnelAnalysisResponse,
+  FunnelNextPagesRequest,
+  FunnelNextPagesResponse,
+  FunnelUsersRequest,
+  FunnelUsersResponse,
+} from '@trainwell-funnel/shared';
 
 /**
  * Event Controller - HTTP Request/Response Handler
@@ -79,7 +101,42 @@ export class EventController {
       const limit = this.parseNumber(req.query.limit, 100, 1, 1000);
       const skip = this.parseNumber(req.query.skip, 0, 0, Number.MAX_SAFE_INTEGER);
 
-      const result = await this.service.getEvents(filters, limit, skip);
+      const sort = req.query.sort ?? 'desc';
+      if (!EVENT_SORT_ORDERS.includes(sort as EventPageQuery['sort'])) {
+        res.status(400).json({
+          success: false,
+          error: `sort must be one of ${EVENT_SORT_ORDERS.map((order) => `"${order}"`).join(', ')}`,
+        });
+        return;
+      }
+
+      if (req.query.after !== undefined && req.query.before !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'after and before cannot be combined',
+        });
+        return;
+      }
+
+      const page: EventPageQuery = { sort: sort as EventPageQuery['sort'] };
+      for (const key of ['after', 'before'] as const) {
+        const value = req.query[key];
+        if (value === undefined) {
+          continue;
+        }
+
+        const cursor = typeof value === 'string' ? EventModel.decodeCursor(value) : null;
+        if (!cursor) {
+          res.status(400).json({
+            success: false,
+            error: `${key} must be a cursor from a previous page`,
+          });
+          return;
+        }
+        page[key] = cursor;
+      }
+
+      const result = await this.service.getEvents(filters, limit, skip, page);
 
       res.status(200).json({
         success: true,
@@ -89,6 +146,9 @@ export class EventController {
           limit,
           skip,
           count: result.events.length,
+          sort: page.sort,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
         },
       });
     } catch (error) {
@@ -155,39 +215,83 @@ export class EventController {
         stepCount: body.steps?.length,
         startDate: body.startDate,
         endDate: body.endDate,
+        conversionWindow: body.conversionWindow,
+        breakdownBy: body.breakdownBy,
+        trendInterval: body.trendInterval,
+        compareTo: body.compareTo,
+        exclusionCount: body.exclusions?.length,
+        countBy: body.countBy,
+        order: body.order,
       });
 
-      // Validation
-      if (!body.steps || !Array.isArray(body.steps) || body.steps.length === 0) {
+      const definitionError = this.validateFunnelDefinition(body);
+      if (definitionError) {
         res.status(400).json({
           success: false,
-          error: 'At least one funnel step is required',
+          error: definitionError,
         });
         return;
       }
 
-      if (!body.startDate || !body.endDate) {
+      if (
+        body.breakdownBy !== undefined &&
+        !FUNNEL_BREAKDOWN_PROPERTIES.includes(body.breakdownBy)
+      ) {
         res.status(400).json({
           success: false,
-          error: 'Start date and end date are required',
+          error: `breakdownBy must be one of ${FUNNEL_BREAKDOWN_PROPERTIES.map((property) => `"${property}"`).join(', ')}`,
         });
         return;
       }
 
-      // Validate each step
-      for (const step of body.steps) {
-        if (!step.name || !step.matchType || !step.matchValue) {
+      if (
+        body.breakdownLimit !== undefined &&
+        (!Number.isInteger(body.breakdownLimit) ||
+          body.breakdownLimit < 1 ||
+          body.breakdownLimit > MAX_BREAKDOWN_LIMIT)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `breakdownLimit must be an integer between 1 and ${MAX_BREAKDOWN_LIMIT}`,
+        });
+        return;
+      }
+
+      if (
+        body.trendInterval !== undefined &&
+        !FUNNEL_TREND_INTERVALS.includes(body.trendInterval)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `trendInterval must be one of ${FUNNEL_TREND_INTERVALS.map((interval) => `"${interval}"`).join(', ')}`,
+        });
+        return;
+      }
+
+      if (body.trendInterval !== undefined && body.breakdownBy !== undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'breakdownBy and trendInterval cannot be combined',
+        });
+        return;
+      }
+
+      if (body.compareTo !== undefined) {
+        if (!FUNNEL_COMPARISON_MODES.includes(body.compareTo?.mode)) {
           res.status(400).json({
             success: false,
-            error: 'Each step must have name, matchType, and matchValue',
+            error: `compareTo.mode must be one of ${FUNNEL_COMPARISON_MODES.map((mode) => `"${mode}"`).join(', ')}`,
           });
           return;
         }
 
-        if (step.matchType !== 'path' && step.matchType !== 'hostname') {
+        if (
+          body.compareTo.mode === 'custom' &&
+          (!body.compareTo.startDate || !body.compareTo.endDate)
+        ) {
           res.status(400).json({
             success: false,
-            error: 'matchType must be either "path" or "hostname"',
+            error: 'compareTo.startDate and compareTo.endDate are required for a custom comparison',
           });
           return;
         }
@@ -208,6 +312,205 @@ export class EventController {
     }
   };
 
+  /**
+   * POST /api/v1/events/funnel/users
+   * List the users who reached a funnel step, or who dropped off after it
+   */
+  getFunnelUsers = async (
+    req: Request,
+    res: Response<FunnelUsersResponse>
+  ): Promise<void> => {
+    try {
+      const body = req.body as FunnelUsersRequest;
+
+      logger.http('Controller: POST /api/v1/events/funnel/users', {
+        stepCount: body.steps?.length,
+        startDate: body.startDate,
+        endDate: body.endDate,
+        stepIndex: body.stepIndex,
+        status: body.status,
+        limit: body.limit,
+        skip: body.skip,
+      });
+
+      const definitionError = this.validateFunnelDefinition(body);
+      if (definitionError) {
+        res.status(400).json({
+          success: false,
+          error: definitionError,
+        });
+        return;
+      }
+
+      if (
+        !Number.isInteger(body.stepIndex) ||
+        body.stepIndex < 0 ||
+        body.stepIndex >= body.steps.length
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'stepIndex must be the index of a funnel step',
+        });
+        return;
+      }
+
+      if (!FUNNEL_USER_STATUSES.includes(body.status)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be one of ${FUNNEL_USER_STATUSES.map((status) => `"${status}"`).join(', ')}`,
+        });
+        return;
+      }
+
+      if (body.status === 'dropped' && body.stepIndex === body.steps.length - 1) {
+        res.status(400).json({
+          success: false,
+          error: 'Nobody drops off after the last step',
+        });
+        return;
+      }
+
+      if (
+        body.limit !== undefined &&
+        (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > MAX_FUNNEL_USERS_LIMIT)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_FUNNEL_USERS_LIMIT}`,
+        });
+        return;
+      }
+
+      if (body.skip !== undefined && (!Number.isInteger(body.skip) || body.skip < 0)) {
+        res.status(400).json({
+          success: false,
+          error: 'skip must be a non-negative integer',
+        });
+        return;
+      }
+
+      const result = await this.service.getFunnelUsers(body);
+
+      res.status(200).json({
+        success: true,
+        data: result.users,
+        pagination: {
+          total: result.total,
+          limit: result.limit,
+          skip: result.skip,
+          count: result.users.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Controller: Error in getFunnelUsers:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  };
+
+  /**
+   * POST /api/v1/events/funnel/next-pages
+   * Find the most common pages visited after dropping off at a funnel step
+   */
+  getFunnelNextPages = async (
+    req: Request,
+    res: Response<FunnelNextPagesResponse>
+  ): Promise<void> => {
+    try {
+      const body = req.body as FunnelNextPagesRequest;
+
+      logger.http('Controller: POST /api/v1/events/funnel/next-pages', {
+        stepCount: body.steps?.length,
+        startDate: body.startDate,
+        endDate: body.endDate,
+        stepIndex: body.stepIndex,
+        limit: body.limit,
+      });
+
+      const definitionError = this.validateFunnelDefinition(body);
+      if (definitionError) {
+        res.status(400).json({
+          success: false,
+          error: definitionError,
+        });
+        return;
+      }
+
+      if (
+        !Number.isInteger(body.stepIndex) ||
+        body.stepIndex < 0 ||
+        body.stepIndex >= body.steps.length
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'stepIndex must be the index of a funnel step',
+        });
+        return;
+      }
+
+      if (body.stepIndex === body.steps.length - 1) {
+        res.status(400).json({
+          success: false,
+          error: 'Nobody drops off after the last step',
+        });
+        return;
+      }
+
+      // Without an order there's no step event that a drop-off happened after
+      if (body.order === 'any') {
+        res.status(400).json({
+          success: false,
+          error: 'Next pages require an ordered funnel',
+        });
+        return;
+      }
+
+      if (
+        body.limit !== undefined &&
+        (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > MAX_NEXT_PAGES_LIMIT)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_NEXT_PAGES_LIMIT}`,
+        });
+        return;
+      }
+
+      const result = await this.service.getFunnelNextPages(body);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in getFunnelNextPages:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  };
+
+  /**
+   * Validate the funnel definition shared by funnel analyses and drill-downs
+   * @returns The first validation error, or null when the definition is valid
+   */
+  private validateFunnelDefinition(
+    body: FunnelAnalysisRequest | FunnelUsersRequest | FunnelNextPagesRequest
+  ): string | null {
+    if (!body.steps || !Array.isArray(body.steps) || body.steps.length === 0) {
+      return 'At least one funnel step is required';
+    }
+
+    if (!body.startDate || !body.endDate) {
+      return 'Start date and end date are required';
+    }
+
+    return FunnelModel.validateDefinition(body);
+  }
+
   /**
    * Parse and validate numeric query parameters
    */
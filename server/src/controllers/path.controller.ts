@@ -0,0 +1,103 @@
+import type { Request, Response } from 'express';
+import { PathService } from '@/services/path.service';
+import logger from '@/lib/logger';
+import { MAX_PATH_DEPTH, MAX_PATH_LIMIT, PATH_ANCHORS } from '@/models/path.model';
+import type { PathAnalysisRequest, PathAnalysisResponse } from '@trainwell-funnel/shared';
+
+/**
+ * Path Controller - HTTP Request/Response Handler
+ * Handles all HTTP responses and request parsing for page flow analysis
+ * Uses dependency injection for better testability
+ */
+export class PathController {
+  private service: PathService;
+
+  /**
+   * Constructor
+   * @param service - PathService instance (injected)
+   */
+  constructor(service: PathService) {
+    this.service = service;
+  }
+
+  /**
+   * POST /api/v1/paths/analyze
+   * Explore the top page flows starting or ending at a page
+   */
+  analyzePaths = async (
+    req: Request,
+    res: Response<PathAnalysisResponse>
+  ): Promise<void> => {
+    try {
+      const body = req.body as PathAnalysisRequest;
+
+      logger.http('Controller: POST /api/v1/paths/analyze', {
+        startDate: body.startDate,
+        endDate: body.endDate,
+        anchor: body.anchor,
+        page: body.page,
+        depth: body.depth,
+        limit: body.limit,
+      });
+
+      if (!body.startDate || !body.endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'Start date and end date are required',
+        });
+        return;
+      }
+
+      if (!PATH_ANCHORS.includes(body.anchor)) {
+        res.status(400).json({
+          success: false,
+          error: `anchor must be one of ${PATH_ANCHORS.map((anchor) => `"${anchor}"`).join(', ')}`,
+        });
+        return;
+      }
+
+      if (typeof body.page !== 'string' || body.page.trim() === '') {
+        res.status(400).json({
+          success: false,
+          error: 'page is required',
+        });
+        return;
+      }
+
+      if (
+        body.depth !== undefined &&
+        (!Number.isInteger(body.depth) || body.depth < 1 || body.depth > MAX_PATH_DEPTH)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `depth must be an integer between 1 and ${MAX_PATH_DEPTH}`,
+        });
+        return;
+      }
+
+      if (
+        body.limit !== undefined &&
+        (!Number.isInteger(body.limit) || body.limit < 1 || body.limit > MAX_PATH_LIMIT)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_PATH_LIMIT}`,
+        });
+        return;
+      }
+
+      const result = await this.service.analyzePaths(body);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in analyzePaths:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  };
+}
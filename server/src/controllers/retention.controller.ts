@@ -0,0 +1,97 @@
+import type { Request, Response } from 'express';
+import { RetentionService } from '@/services/retention.service';
+import logger from '@/lib/logger';
+import { FunnelModel } from '@/models/funnel.model';
+import { MAX_RETENTION_PERIODS, RETENTION_INTERVALS } from '@/models/retention.model';
+import type {
+  RetentionAnalysisRequest,
+  RetentionAnalysisResponse,
+} from '@trainwell-funnel/shared';
+
+/**
+ * Retention Controller - HTTP Request/Response Handler
+ * Handles all HTTP responses and request parsing for retention analysis
+ * Uses dependency injection for better testability
+ */
+export class RetentionController {
+  private service: RetentionService;
+
+  /**
+   * Constructor
+   * @param service - RetentionService instance (injected)
+   */
+  constructor(service: RetentionService) {
+    this.service = service;
+  }
+
+  /**
+   * POST /api/v1/retention/analyze
+   * Build the cohort by period retention matrix
+   */
+  analyzeRetention = async (
+    req: Request,
+    res: Response<RetentionAnalysisResponse>
+  ): Promise<void> => {
+    try {
+      const body = req.body as RetentionAnalysisRequest;
+
+      logger.http('Controller: POST /api/v1/retention/analyze', {
+        startDate: body.startDate,
+        endDate: body.endDate,
+        interval: body.interval,
+        periods: body.periods,
+      });
+
+      if (!body.startDate || !body.endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'Start date and end date are required',
+        });
+        return;
+      }
+
+      const matcherError =
+        FunnelModel.validateEventMatcher(body.startEvent, 'startEvent') ??
+        FunnelModel.validateEventMatcher(body.returnEvent, 'returnEvent');
+      if (matcherError) {
+        res.status(400).json({
+          success: false,
+          error: matcherError,
+        });
+        return;
+      }
+
+      if (body.interval !== undefined && !RETENTION_INTERVALS.includes(body.interval)) {
+        res.status(400).json({
+          success: false,
+          error: `interval must be one of ${RETENTION_INTERVALS.map((interval) => `"${interval}"`).join(', ')}`,
+        });
+        return;
+      }
+
+      if (
+        body.periods !== undefined &&
+        (!Number.isInteger(body.periods) || body.periods < 1 || body.periods > MAX_RETENTION_PERIODS)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `periods must be an integer between 1 and ${MAX_RETENTION_PERIODS}`,
+        });
+        return;
+      }
+
+      const result = await this.service.analyzeRetention(body);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in analyzeRetention:', error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  };
+}
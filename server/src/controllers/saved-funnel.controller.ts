@@ -0,0 +1,200 @@
+import type { Request, Response, NextFunction } from 'express';
+import { SavedFunnelService } from '@/services/saved-funnel.service';
+import logger from '@/lib/logger';
+import { SavedFunnelModel } from '@/models/saved-funnel.model';
+import type {
+  SavedFunnelInput,
+  SavedFunnelResponse,
+  SavedFunnelsResponse,
+} from '@trainwell-funnel/shared';
+
+/**
+ * Saved Funnel Controller - HTTP Request/Response Handler
+ * Handles all HTTP responses and request parsing for saved funnels
+ * Uses dependency injection for better testability
+ */
+export class SavedFunnelController {
+  private service: SavedFunnelService;
+
+  /**
+   * Constructor
+   * @param service - SavedFunnelService instance (injected)
+   */
+  constructor(service: SavedFunnelService) {
+    this.service = service;
+  }
+
+  /**
+   * GET /api/v1/funnels
+   * List all saved funnels
+   */
+  listFunnels = async (
+    _req: Request,
+    res: Response<SavedFunnelsResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      logger.http('Controller: GET /api/v1/funnels');
+
+      const funnels = await this.service.listFunnels();
+
+      res.status(200).json({
+        success: true,
+        data: funnels,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in listFunnels:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * GET /api/v1/funnels/:id
+   * Get a single saved funnel
+   */
+  getFunnel = async (
+    req: Request,
+    res: Response<SavedFunnelResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      logger.http(`Controller: GET /api/v1/funnels/${id}`);
+
+      const funnel = id ? await this.service.getFunnel(id) : null;
+
+      if (!funnel) {
+        res.status(404).json({
+          success: false,
+          error: 'Funnel not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: funnel,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in getFunnel:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * POST /api/v1/funnels
+   * Save a new funnel
+   */
+  createFunnel = async (
+    req: Request,
+    res: Response<SavedFunnelResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const body = req.body as SavedFunnelInput;
+
+      logger.http('Controller: POST /api/v1/funnels', {
+        name: body.name,
+        stepCount: body.steps?.length,
+      });
+
+      const validationError = SavedFunnelModel.validate(body);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError,
+        });
+        return;
+      }
+
+      const funnel = await this.service.createFunnel(body);
+
+      res.status(201).json({
+        success: true,
+        data: funnel,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in createFunnel:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /api/v1/funnels/:id
+   * Replace a saved funnel
+   */
+  updateFunnel = async (
+    req: Request,
+    res: Response<SavedFunnelResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const body = req.body as SavedFunnelInput;
+
+      logger.http(`Controller: PUT /api/v1/funnels/${id}`, {
+        name: body.name,
+        stepCount: body.steps?.length,
+      });
+
+      const validationError = SavedFunnelModel.validate(body);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError,
+        });
+        return;
+      }
+
+      const funnel = id ? await this.service.updateFunnel(id, body) : null;
+
+      if (!funnel) {
+        res.status(404).json({
+          success: false,
+          error: 'Funnel not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: funnel,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in updateFunnel:', error);
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /api/v1/funnels/:id
+   * Delete a saved funnel
+   */
+  deleteFunnel = async (
+    req: Request,
+    res: Response<SavedFunnelResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      logger.http(`Controller: DELETE /api/v1/funnels/${id}`);
+
+      const deleted = id ? await this.service.deleteFunnel(id) : false;
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Funnel not found',
+        });
+        return;
+      }
+
+      res.status(200).json({ success: true });
+    } catch (error) {
+      logger.error('Controller: Error in deleteFunnel:', error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import type { Request, Response, NextFunction } from 'express';
+import { SessionService } from '@/services/session.service';
+import logger from '@/lib/logger';
+import {
+  DEFAULT_SESSION_LIMIT,
+  MAX_SESSION_LIMIT,
+  type SessionQueryFilters,
+} from '@/models/session.model';
+import type { SessionsResponse } from '@trainwell-funnel/shared';
+
+/**
+ * Session Controller - HTTP Request/Response Handler
+ * Handles all HTTP responses and request parsing for reconstructed sessions
+ * Uses dependency injection for better testability
+ */
+export class SessionController {
+  private service: SessionService;
+
+  /**
+   * Constructor
+   * @param service - SessionService instance (injected)
+   */
+  constructor(service: SessionService) {
+    this.service = service;
+  }
+
+  /**
+   * GET /api/v1/sessions
+   * Get sessions reconstructed from events, with aggregate stats
+   */
+  getSessions = async (
+    req: Request,
+    res: Response<SessionsResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      logger.http('Controller: GET /api/v1/sessions', { query: req.query });
+
+      const { startDate, endDate, bounced } = req.query;
+
+      if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Start date and end date are required',
+        });
+        return;
+      }
+
+      const startDateTime = new Date(startDate);
+      const endDateTime = new Date(endDate);
+      if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date format',
+        });
+        return;
+      }
+
+      if (bounced !== undefined && bounced !== 'true' && bounced !== 'false') {
+        res.status(400).json({
+          success: false,
+          error: 'bounced must be one of "true", "false"',
+        });
+        return;
+      }
+
+      const limit = req.query.limit === undefined ? DEFAULT_SESSION_LIMIT : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SESSION_LIMIT) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_SESSION_LIMIT}`,
+        });
+        return;
+      }
+
+      const skip = req.query.skip === undefined ? 0 : Number(req.query.skip);
+      if (!Number.isInteger(skip) || skip < 0) {
+        res.status(400).json({
+          success: false,
+          error: 'skip must be a non-negative integer',
+        });
+        return;
+      }
+
+      const filters: SessionQueryFilters = {};
+      for (const key of ['user_id', 'hostname', 'entryPage', 'exitPage'] as const) {
+        const value = req.query[key];
+        if (value && typeof value === 'string') {
+          filters[key] = value;
+        }
+      }
+      if (bounced !== undefined) {
+        filters.bounced = bounced === 'true';
+      }
+
+      const result = await this.service.getSessions(
+        startDateTime,
+        endDateTime,
+        filters,
+        limit,
+        skip
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.sessions,
+        stats: result.stats,
+        pagination: {
+          total: result.stats.totalSessions,
+          limit,
+          skip,
+          count: result.sessions.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Controller: Error in getSessions:', error);
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import type { Request, Response, NextFunction } from 'express';
+import { UserService } from '@/services/user.service';
+import logger from '@/lib/logger';
+import { MAX_TIMELINE_SESSION_LIMIT } from '@/models/user.model';
+import type { UserTimelineResponse } from '@trainwell-funnel/shared';
+
+/**
+ * User Controller - HTTP Request/Response Handler
+ * Handles all HTTP responses and request parsing for single user journeys
+ * Uses dependency injection for better testability
+ */
+export class UserController {
+  private service: UserService;
+
+  /**
+   * Constructor
+   * @param service - UserService instance (injected)
+   */
+  constructor(service: UserService) {
+    this.service = service;
+  }
+
+  /**
+   * GET /api/v1/users/:userId/timeline
+   * Get all of a user's events grouped by session
+   */
+  getTimeline = async (
+    req: Request,
+    res: Response<UserTimelineResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      logger.http(`Controller: GET /api/v1/users/${userId}/timeline`, { query: req.query });
+
+      if (!userId) {
+        res.status(400).json({
+          success: false,
+          error: 'User ID is required',
+        });
+        return;
+      }
+
+      const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+      if (
+        limit !== undefined &&
+        (!Number.isInteger(limit) || limit < 1 || limit > MAX_TIMELINE_SESSION_LIMIT)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_TIMELINE_SESSION_LIMIT}`,
+        });
+        return;
+      }
+
+      const timeline = await this.service.getTimeline(userId, limit);
+
+      if (!timeline) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: timeline,
+      });
+    } catch (error) {
+      logger.error('Controller: Error in getTimeline:', error);
+      next(error);
+    }
+  };
+}
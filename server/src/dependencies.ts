@@ -5,6 +5,21 @@ import { EventController } from '@/controllers/event.controller';
 import { CampaignRepository } from '@/repositories/campaign.repository';
 import { CampaignService } from '@/services/campaign.service';
 import { CampaignController } from '@/controllers/campaign.controller';
+import { PathRepository } from '@/repositories/path.repository';
+import { PathService } from '@/services/path.service';
+import { PathController } from '@/controllers/path.controller';
+import { RetentionRepository } from '@/repositories/retention.repository';
+import { RetentionService } from '@/services/retention.service';
+import { RetentionController } from '@/controllers/retention.controller';
+import { SavedFunnelRepository } from '@/repositories/saved-funnel.repository';
+import { SavedFunnelService } from '@/services/saved-funnel.service';
+import { SavedFunnelController } from '@/controllers/saved-funnel.controller';
+import { UserRepository } from '@/repositories/user.repository';
+import { UserService } from '@/services/user.service';
+import { UserController } from '@/controllers/user.controller';
+import { SessionRepository } from '@/repositories/session.repository';
+import { SessionService } from '@/services/session.service';
+import { SessionController } from '@/controllers/session.controller';
 
 /**
  * Dependency Container
@@ -13,6 +28,11 @@ import { CampaignController } from '@/controllers/campaign.controller';
 export class DependencyContainer {
   public eventController: EventController;
   public campaignController: CampaignController;
+  public pathController: PathController;
+  public retentionController: RetentionController;
+  public savedFunnelController: SavedFunnelController;
+  public userController: UserController;
+  public sessionController: SessionController;
 
   /**
    * Initialize all dependencies with proper injection
@@ -28,6 +48,31 @@ export class DependencyContainer {
     const campaignRepository = new CampaignRepository(db);
     const campaignService = new CampaignService(campaignRepository);
     this.campaignController = new CampaignController(campaignService);
+
+    // Initialize path dependencies
+    const pathRepository = new PathRepository(db);
+    const pathService = new PathService(pathRepository);
+    this.pathController = new PathController(pathService);
+
+    // Initialize retention dependencies
+    const retentionRepository = new RetentionRepository(db);
+    const retentionService = new RetentionService(retentionRepository);
+    this.retentionController = new RetentionController(retentionService);
+
+    // Initialize saved funnel dependencies
+    const savedFunnelRepository = new SavedFunnelRepository(db);
+    const savedFunnelService = new SavedFunnelService(savedFunnelRepository);
+    this.savedFunnelController = new SavedFunnelController(savedFunnelService);
+
+    // Initialize user dependencies
+    const userRepository = new UserRepository(db);
+    const userService = new UserService(userRepository);
+    this.userController = new UserController(userService);
+
+    // Initialize session dependencies
+    const sessionRepository = new SessionRepository(db);
+    const sessionService = new SessionService(sessionRepository);
+    this.sessionController = new SessionController(sessionService);
   }
 }
 
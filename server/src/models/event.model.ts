@@ -1,5 +1,12 @@
-import { ObjectId } from 'mongodb';
-import type { Platform, EventType, PageViewContent, EventDTO } from '@trainwell-funnel/shared';
+import { ObjectId, type Document } from 'mongodb';
+import type {
+  Platform,
+  EventType,
+  PageViewContent,
+  EventDTO,
+  EventSortOrder,
+  UTMParameters,
+} from '@trainwell-funnel/shared';
 
 /**
  * MongoDB document structure for analytics events
@@ -18,7 +25,17 @@ export interface EventDocument {
 }
 
 // Re-export shared types for convenience
-export type { Platform, EventType, PageViewContent, EventDTO };
+export type { Platform, EventType, PageViewContent, EventDTO, EventSortOrder };
+
+export const EVENT_SORT_ORDERS: EventSortOrder[] = ['asc', 'desc'];
+
+export const UTM_PARAMETERS: readonly (keyof UTMParameters)[] = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+];
 
 /**
  * Query filters for events
@@ -34,6 +51,25 @@ export interface EventQueryFilters {
   endDate?: Date;
 }
 
+/**
+ * Position of an event in the event list
+ * Events are ordered by date, with ties broken by _id
+ */
+export interface EventCursor {
+  date: Date;
+  id: ObjectId;
+}
+
+/**
+ * Sort order and starting point of a page of events
+ * after and before are exclusive and can't be combined
+ */
+export interface EventPageQuery {
+  sort: EventSortOrder;
+  after?: EventCursor;
+  before?: EventCursor;
+}
+
 /**
  * Event Model - Serialization utilities
  */
@@ -67,6 +103,113 @@ export class EventModel {
     return documents.map((doc) => this.toDTO(doc));
   }
 
+  /**
+   * Encode an event's position as an opaque pagination cursor
+   * @param document - Event to start the next or previous page from
+   * @returns Base64url cursor
+   */
+  static encodeCursor(document: Pick<EventDocument, '_id' | 'date'>): string {
+    return Buffer.from(
+      JSON.stringify([document.date.toISOString(), document._id.toString()])
+    ).toString('base64url');
+  }
+
+  /**
+   * Decode a pagination cursor
+   * @param cursor - Cursor from encodeCursor
+   * @returns Event position, or null if the cursor is malformed
+   */
+  static decodeCursor(cursor: string): EventCursor | null {
+    try {
+      const [date, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (typeof date !== 'string' || typeof id !== 'string' || !this.isValidObjectId(id)) {
+        return null;
+      }
+
+      const parsed = new Date(date);
+      if (isNaN(parsed.getTime())) {
+        return null;
+      }
+
+      return { date: parsed, id: new ObjectId(id) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Build the aggregation expression reading one of an event's UTM parameters
+   * Values come from content.utm, or are parsed out of content.queryString
+   */
+  static toUtmExpression(parameter: keyof UTMParameters): Document {
+    return {
+      $ifNull: [
+        `$content.utm.${parameter}`,
+        {
+          $let: {
+            vars: {
+              found: {
+                $regexFind: {
+                  input: { $ifNull: ['$content.queryString', ''] },
+                  regex: this.toUtmPattern(parameter),
+                },
+              },
+            },
+            in: { $arrayElemAt: ['$$found.captures', 0] },
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Build the aggregation expression reading all of an event's UTM parameters
+   * Evaluates to null when the event has none
+   */
+  static toUtmParametersExpression(): Document {
+    return {
+      $let: {
+        vars: {
+          utm: Object.fromEntries(
+            UTM_PARAMETERS.map((parameter) => [parameter, this.toUtmExpression(parameter)])
+          ),
+        },
+        in: {
+          $cond: [
+            { $anyElementTrue: [UTM_PARAMETERS.map((parameter) => `$$utm.${parameter}`)] },
+            '$$utm',
+            null,
+          ],
+        },
+      },
+    };
+  }
+
+  /**
+   * Read an event's UTM parameters the way toUtmParametersExpression does
+   * @param content - Page view content
+   * @returns The UTM parameters, or null when the event has none
+   */
+  static toUtmParameters(content: PageViewContent): UTMParameters | null {
+    const utm = Object.fromEntries(
+      UTM_PARAMETERS.map((parameter) => [
+        parameter,
+        content.utm?.[parameter] ??
+          content.queryString?.match(this.toUtmPattern(parameter))?.[1] ??
+          null,
+      ])
+    );
+
+    return Object.values(utm).some((value) => value) ? utm : null;
+  }
+
+  /**
+   * Regex capturing a UTM parameter's value in a query string
+   */
+  private static toUtmPattern(parameter: keyof UTMParameters): string {
+    return `(?:^|[?&])${parameter}=([^&#]+)`;
+  }
+
   /**
    * Validate ObjectId format
    * @param id - String to validate as ObjectId
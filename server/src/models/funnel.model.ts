@@ -0,0 +1,772 @@
+import type { Document, Filter } from 'mongodb';
+import { EventModel, type EventDocument } from '@/models/event.model';
+import type {
+  FunnelAnalysisRequest,
+  FunnelBreakdownProperty,
+  FunnelConditionField,
+  FunnelCountBy,
+  FunnelOrder,
+  FunnelConditionGroup,
+  FunnelUserStatus,
+  FunnelConditionOperator,
+  FunnelMatchOperator,
+  FunnelStepCondition,
+  FunnelExclusion,
+  FunnelStepConfig,
+  FunnelStepMatcher,
+  FunnelTrendInterval,
+  FunnelComparisonMode,
+  TimeToConvert,
+  UTMParameters,
+} from '@trainwell-funnel/shared';
+
+/**
+ * Steps and options that define a funnel, independent of its date range
+ */
+export type FunnelDefinition = Pick<
+  FunnelAnalysisRequest,
+  'steps' | 'exclusions' | 'conversionWindow' | 'countBy' | 'order'
+>;
+
+/**
+ * Options that shape how a funnel is computed by the repository
+ */
+export interface FunnelQueryOptions {
+  conversionWindowMs?: number; // Max time from a user's step 1 event to each later step
+  breakdownBy?: FunnelBreakdownProperty; // Group users into segments by this property
+  exclusions?: FunnelExclusion[]; // Events that disqualify users between two steps
+  countBy?: FunnelCountBy; // Count users (default) or single-session conversions
+  order?: FunnelOrder; // Step ordering, sequential by default
+}
+
+/**
+ * Per-step user counts and conversion times computed by the repository
+ */
+export interface FunnelStepMetrics {
+  counts: number[]; // Users, or sessions in session mode
+  timeToConvert: Array<TimeToConvert | null>; // null for step 1 and steps nobody reached
+  users?: number[]; // Distinct users per step, session mode only
+}
+
+/**
+ * Funnel metrics for one breakdown segment
+ */
+export interface FunnelSegmentMetrics extends FunnelStepMetrics {
+  segment: string | null; // null when the user's event had no value for the property
+}
+
+/**
+ * Funnel metrics for the whole funnel and for every breakdown segment
+ */
+export interface FunnelBreakdownMetrics {
+  totals: FunnelStepMetrics;
+  segments: FunnelSegmentMetrics[];
+}
+
+/**
+ * Funnel metrics for the users whose step 1 falls in one period
+ */
+export interface FunnelPeriodMetrics extends FunnelStepMetrics {
+  periodStart: Date;
+}
+
+/**
+ * Funnel metrics for the whole funnel and for every period with step 1 users
+ */
+export interface FunnelTrendMetrics {
+  totals: FunnelStepMetrics;
+  periods: FunnelPeriodMetrics[];
+}
+
+/**
+ * A user behind a funnel step, as read from the database
+ */
+export interface FunnelUserRecord {
+  user_id: string;
+  firstEventAt: Date;
+  lastEventAt: Date;
+}
+
+/**
+ * One page of the users behind a funnel step
+ */
+export interface FunnelUserPage {
+  users: FunnelUserRecord[];
+  total: number; // Users across all pages
+}
+
+/**
+ * Pages visited right after dropping off at a funnel step, as read from the database
+ */
+export interface FunnelNextPageMetrics {
+  dropped: number; // Users, or sessions in session mode
+  exited: number; // Drop-offs without a next page view
+  pages: Array<{ path: string; hostname: string; count: number }>; // Most common first
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Upper bounds of the time-to-convert histogram buckets
+ * The last bucket is open-ended
+ */
+export const TIME_TO_CONVERT_BUCKET_BOUNDS: readonly number[] = [
+  MINUTE_MS,
+  5 * MINUTE_MS,
+  30 * MINUTE_MS,
+  2 * HOUR_MS,
+  DAY_MS,
+  3 * DAY_MS,
+  7 * DAY_MS,
+];
+
+/**
+ * Supported step match operators
+ */
+export const FUNNEL_MATCH_OPERATORS: readonly FunnelMatchOperator[] = [
+  'equals',
+  'startsWith',
+  'contains',
+  'regex',
+  'glob',
+];
+
+/**
+ * Supported condition operators
+ */
+export const FUNNEL_CONDITION_OPERATORS: readonly FunnelConditionOperator[] = [
+  ...FUNNEL_MATCH_OPERATORS,
+  'notEquals',
+  'exists',
+  'notExists',
+];
+
+/**
+ * Supported breakdown properties
+ */
+export const FUNNEL_BREAKDOWN_PROPERTIES: readonly FunnelBreakdownProperty[] = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'hostname',
+  'platform',
+  'landing_path',
+];
+
+/**
+ * Supported trend intervals
+ */
+export const FUNNEL_TREND_INTERVALS: readonly FunnelTrendInterval[] = ['day', 'week', 'month'];
+
+/**
+ * Supported counting modes
+ */
+export const FUNNEL_COUNT_BY: readonly FunnelCountBy[] = ['user', 'session'];
+
+/**
+ * Supported step orderings
+ */
+export const FUNNEL_ORDERS: readonly FunnelOrder[] = ['strict', 'sequential', 'any'];
+
+/**
+ * Supported user list statuses
+ */
+export const FUNNEL_USER_STATUSES: readonly FunnelUserStatus[] = ['converted', 'dropped'];
+
+/**
+ * Supported comparison modes
+ */
+export const FUNNEL_COMPARISON_MODES: readonly FunnelComparisonMode[] = [
+  'previousPeriod',
+  'previousYear',
+  'custom',
+];
+
+/**
+ * Most segments a breakdown can keep before grouping the rest as "Other"
+ */
+export const MAX_BREAKDOWN_LIMIT = 20;
+
+/**
+ * Largest page of users a funnel user list can return
+ */
+export const MAX_FUNNEL_USERS_LIMIT = 500;
+
+/**
+ * Most next pages a post-drop-off analysis can return
+ */
+export const MAX_NEXT_PAGES_LIMIT = 50;
+
+/**
+ * Longest regex accepted from clients, to keep patterns cheap to evaluate
+ */
+export const MAX_REGEX_LENGTH = 200;
+
+/**
+ * Deepest nesting of condition groups accepted from clients
+ */
+export const MAX_CONDITION_DEPTH = 3;
+
+/**
+ * Document path of every condition field
+ */
+const CONDITION_FIELD_PATHS: Record<FunnelConditionField, string> = {
+  hostname: 'content.hostname',
+  path: 'content.path',
+  first_view: 'content.first_view',
+  utm_source: 'content.utm.utm_source',
+  utm_medium: 'content.utm.utm_medium',
+  utm_campaign: 'content.utm.utm_campaign',
+  utm_term: 'content.utm.utm_term',
+  utm_content: 'content.utm.utm_content',
+  platform: 'platform',
+  device_id: 'device_id',
+};
+
+const UTM_FIELDS: readonly FunnelConditionField[] = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+];
+
+/**
+ * Funnel Model - Step matching utilities
+ * Translates funnel step configs into MongoDB query filters and aggregation expressions
+ */
+export class FunnelModel {
+  /**
+   * Normalize a step into a single condition group
+   * matchType/matchValue become one condition, ANDed with any explicit conditions.
+   * A step's anyOf alternatives are ORed with its own matcher
+   * @param step - Funnel step or exclusion matcher
+   * @returns Condition group describing the whole step
+   */
+  static toConditionGroup(step: FunnelStepMatcher | FunnelStepConfig): FunnelConditionGroup {
+    const group = this.matcherToGroup(step);
+
+    if (!('anyOf' in step) || !step.anyOf || step.anyOf.length === 0) {
+      return group;
+    }
+
+    const alternatives = step.anyOf.map((matcher) => this.matcherToGroup(matcher));
+    return {
+      combinator: 'or',
+      conditions: group.conditions.length > 0 ? [group, ...alternatives] : alternatives,
+    };
+  }
+
+  /**
+   * Build a query filter matching events for a step
+   * Used in $match stages so the existing indexes can narrow the scan
+   * @param step - Funnel step or exclusion matcher
+   * @returns MongoDB filter for the step
+   */
+  static toStepQuery(step: FunnelStepMatcher): Filter<EventDocument> {
+    return this.groupToQuery(this.toConditionGroup(step));
+  }
+
+  /**
+   * Build an aggregation expression that is true when the current event matches a step
+   * Used inside $project stages where query operators are not available
+   * @param step - Funnel step or exclusion matcher
+   * @returns Boolean aggregation expression
+   */
+  static toStepExpression(step: FunnelStepMatcher): Document {
+    return this.groupToExpression(this.toConditionGroup(step));
+  }
+
+  /**
+   * Build the expressions attributing a user to a breakdown segment
+   * Landing path comes from first-touch (first_view) events, every other
+   * property from events matching the first step
+   * @param property - Breakdown property
+   * @param firstStep - First funnel step configuration
+   * @returns source: true for events carrying the segment; value: the segment value
+   */
+  static toBreakdownExpressions(
+    property: FunnelBreakdownProperty,
+    firstStep: FunnelStepConfig
+  ): { source: Document; value: Document | string } {
+    if (property === 'landing_path') {
+      return {
+        source: { $eq: ['$content.first_view', true] },
+        value: '$content.path',
+      };
+    }
+
+    return {
+      source: this.toStepExpression(firstStep),
+      value: this.fieldExpression(property),
+    };
+  }
+
+  /**
+   * Validate the steps and options that define a funnel
+   * Shared by funnel analyses and saved funnels
+   * @param definition - Funnel steps and options
+   * @returns Error message, or null when the definition is valid
+   */
+  static validateDefinition(definition: FunnelDefinition): string | null {
+    if (!definition.steps || !Array.isArray(definition.steps) || definition.steps.length === 0) {
+      return 'At least one funnel step is required';
+    }
+
+    // Validate each step
+    for (const step of definition.steps) {
+      if (
+        !step.name ||
+        (!step.conditions && !step.anyOf && (!step.matchType || !step.matchValue))
+      ) {
+        return 'Each step must have name, matchType, and matchValue';
+      }
+
+      if (
+        step.matchType !== undefined &&
+        step.matchType !== 'path' &&
+        step.matchType !== 'hostname'
+      ) {
+        return 'matchType must be either "path" or "hostname"';
+      }
+
+      const stepError = this.validateStep(step);
+      if (stepError) {
+        return stepError;
+      }
+    }
+
+    if (definition.steps[0]?.optional || definition.steps[definition.steps.length - 1]?.optional) {
+      return 'The first and last steps cannot be optional';
+    }
+
+    if (definition.exclusions !== undefined) {
+      if (!Array.isArray(definition.exclusions)) {
+        return 'exclusions must be an array';
+      }
+
+      for (const exclusion of definition.exclusions) {
+        const exclusionError = this.validateExclusion(exclusion, definition.steps.length);
+        if (exclusionError) {
+          return exclusionError;
+        }
+      }
+    }
+
+    if (definition.conversionWindow !== undefined) {
+      const { value, unit } = definition.conversionWindow ?? {};
+
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        return 'conversionWindow.value must be a positive number';
+      }
+
+      if (unit !== 'minutes' && unit !== 'hours' && unit !== 'days') {
+        return 'conversionWindow.unit must be "minutes", "hours" or "days"';
+      }
+    }
+
+    if (definition.countBy !== undefined && !FUNNEL_COUNT_BY.includes(definition.countBy)) {
+      return `countBy must be one of ${FUNNEL_COUNT_BY.map((countBy) => `"${countBy}"`).join(', ')}`;
+    }
+
+    if (definition.order !== undefined && !FUNNEL_ORDERS.includes(definition.order)) {
+      return `order must be one of ${FUNNEL_ORDERS.map((order) => `"${order}"`).join(', ')}`;
+    }
+
+    if (definition.order === 'any' && definition.exclusions && definition.exclusions.length > 0) {
+      return 'exclusions cannot be used with an unordered funnel';
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a step's matchers and conditions
+   * @param step - Funnel step configuration
+   * @returns Error message, or null when the step is valid
+   */
+  static validateStep(step: FunnelStepConfig): string | null {
+    if (step.optional !== undefined && typeof step.optional !== 'boolean') {
+      return 'optional must be a boolean';
+    }
+
+    const error = this.validateMatcher(step, `step "${step.name}"`);
+    if (error || step.anyOf === undefined) {
+      return error;
+    }
+
+    if (!Array.isArray(step.anyOf) || step.anyOf.length === 0) {
+      return `anyOf for step "${step.name}" must contain at least one matcher`;
+    }
+
+    for (const matcher of step.anyOf) {
+      if (!matcher?.conditions && (!matcher?.matchType || !matcher.matchValue)) {
+        return `Each anyOf matcher for step "${step.name}" must have matchType and matchValue, or conditions`;
+      }
+
+      if (
+        matcher.matchType !== undefined &&
+        matcher.matchType !== 'path' &&
+        matcher.matchType !== 'hostname'
+      ) {
+        return 'matchType must be either "path" or "hostname"';
+      }
+
+      const matcherError = this.validateMatcher(matcher, `step "${step.name}"`);
+      if (matcherError) {
+        return matcherError;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate an exclusion's step range and matchers
+   * @param exclusion - Funnel exclusion
+   * @param stepCount - Number of steps in the funnel
+   * @returns Error message, or null when the exclusion is valid
+   */
+  static validateExclusion(exclusion: FunnelExclusion, stepCount: number): string | null {
+    const { fromStep, toStep } = exclusion ?? {};
+
+    if (
+      !Number.isInteger(fromStep) ||
+      !Number.isInteger(toStep) ||
+      fromStep < 0 ||
+      toStep >= stepCount ||
+      fromStep >= toStep
+    ) {
+      return 'Exclusion fromStep and toStep must be step indexes with fromStep before toStep';
+    }
+
+    if (!exclusion.conditions && (!exclusion.matchType || !exclusion.matchValue)) {
+      return 'Each exclusion must have matchType and matchValue, or conditions';
+    }
+
+    if (
+      exclusion.matchType !== undefined &&
+      exclusion.matchType !== 'path' &&
+      exclusion.matchType !== 'hostname'
+    ) {
+      return 'matchType must be either "path" or "hostname"';
+    }
+
+    return this.validateMatcher(exclusion, 'exclusion');
+  }
+
+  /**
+   * Validate a matcher used on its own, e.g. a retention analysis's start event
+   * @param matcher - Event matcher
+   * @param label - Names the matcher in error messages
+   * @returns Error message, or null when the matcher is valid
+   */
+  static validateEventMatcher(matcher: FunnelStepMatcher, label: string): string | null {
+    if (!matcher?.conditions && (!matcher?.matchType || !matcher.matchValue)) {
+      return `${label} must have matchType and matchValue, or conditions`;
+    }
+
+    if (
+      matcher.matchType !== undefined &&
+      matcher.matchType !== 'path' &&
+      matcher.matchType !== 'hostname'
+    ) {
+      return 'matchType must be either "path" or "hostname"';
+    }
+
+    return this.validateMatcher(matcher, label);
+  }
+
+  /**
+   * Validate the matchers and conditions shared by steps and exclusions
+   * @param label - Describes the step or exclusion in error messages
+   */
+  private static validateMatcher(matcher: FunnelStepMatcher, label: string): string | null {
+    if (matcher.matchType && matcher.matchValue !== undefined) {
+      const operator = matcher.operator ?? 'equals';
+
+      if (!FUNNEL_MATCH_OPERATORS.includes(operator)) {
+        return `operator must be one of ${FUNNEL_MATCH_OPERATORS.map((op) => `"${op}"`).join(', ')}`;
+      }
+
+      const error = this.validateCondition(
+        { field: matcher.matchType, operator, value: matcher.matchValue },
+        label
+      );
+      if (error) {
+        return error;
+      }
+    }
+
+    if (matcher.conditions !== undefined) {
+      return this.validateGroup(matcher.conditions, 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Combine a single matcher's matchType/matchValue and conditions into one group
+   */
+  private static matcherToGroup(matcher: FunnelStepMatcher): FunnelConditionGroup {
+    const conditions: Array<FunnelStepCondition | FunnelConditionGroup> = [];
+
+    if (matcher.matchType && matcher.matchValue !== undefined) {
+      conditions.push({
+        field: matcher.matchType,
+        operator: matcher.operator ?? 'equals',
+        value: matcher.matchValue,
+      });
+    }
+
+    if (matcher.conditions) {
+      conditions.push(matcher.conditions);
+    }
+
+    // Unwrap a lone group so simple steps keep a flat, index-friendly filter
+    const [only] = conditions;
+    if (conditions.length === 1 && only && this.isGroup(only)) {
+      return only;
+    }
+
+    return { combinator: 'and', conditions };
+  }
+
+  /**
+   * Validate a condition group and everything nested in it
+   */
+  private static validateGroup(group: FunnelConditionGroup, depth: number): string | null {
+    if (depth > MAX_CONDITION_DEPTH) {
+      return `Condition groups can be nested at most ${MAX_CONDITION_DEPTH} levels deep`;
+    }
+
+    if (!group || (group.combinator !== 'and' && group.combinator !== 'or')) {
+      return 'Condition group combinator must be either "and" or "or"';
+    }
+
+    if (!Array.isArray(group.conditions) || group.conditions.length === 0) {
+      return 'Condition groups must contain at least one condition';
+    }
+
+    for (const condition of group.conditions) {
+      const error = this.isGroup(condition)
+        ? this.validateGroup(condition, depth + 1)
+        : this.validateCondition(condition, `condition on "${condition?.field}"`);
+      if (error) {
+        return error;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a single condition's field, operator and value
+   * @param label - Describes the condition in error messages
+   */
+  private static validateCondition(
+    condition: FunnelStepCondition,
+    label: string
+  ): string | null {
+    const { field, operator, value } = condition ?? {};
+
+    if (!field || !(field in CONDITION_FIELD_PATHS)) {
+      return `Condition field must be one of ${Object.keys(CONDITION_FIELD_PATHS).map((name) => `"${name}"`).join(', ')}`;
+    }
+
+    if (!FUNNEL_CONDITION_OPERATORS.includes(operator)) {
+      return `operator must be one of ${FUNNEL_CONDITION_OPERATORS.map((op) => `"${op}"`).join(', ')}`;
+    }
+
+    if (operator === 'exists' || operator === 'notExists') {
+      return null;
+    }
+
+    if (field === 'first_view') {
+      if ((operator !== 'equals' && operator !== 'notEquals') || typeof value !== 'boolean') {
+        return 'first_view conditions must use equals or notEquals with a boolean value';
+      }
+      return null;
+    }
+
+    if (typeof value !== 'string' || value === '') {
+      return `Condition on "${field}" requires a value`;
+    }
+
+    if (operator === 'regex') {
+      if (value.length > MAX_REGEX_LENGTH) {
+        return `regex must be at most ${MAX_REGEX_LENGTH} characters`;
+      }
+
+      try {
+        new RegExp(value);
+      } catch {
+        return `Invalid regex for ${label}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Translate a condition group into a query filter
+   */
+  private static groupToQuery(group: FunnelConditionGroup): Filter<EventDocument> {
+    const filters = group.conditions.map((condition) =>
+      this.isGroup(condition)
+        ? this.groupToQuery(condition)
+        : this.conditionToQuery(condition)
+    );
+
+    if (filters.length === 1 && filters[0]) {
+      return filters[0];
+    }
+
+    return group.combinator === 'and' ? { $and: filters } : { $or: filters };
+  }
+
+  /**
+   * Translate a single condition into a query filter
+   * UTM conditions fall back to $expr because they may come from the query string
+   */
+  private static conditionToQuery(condition: FunnelStepCondition): Filter<EventDocument> {
+    if (UTM_FIELDS.includes(condition.field)) {
+      return { $expr: this.conditionToExpression(condition) };
+    }
+
+    const path = CONDITION_FIELD_PATHS[condition.field];
+    const { operator, value } = condition;
+
+    switch (operator) {
+      case 'equals':
+        return { [path]: value };
+      case 'notEquals':
+        return { [path]: { $ne: value } };
+      case 'exists':
+        return { [path]: { $ne: null } };
+      case 'notExists':
+        return { [path]: null };
+      default:
+        return { [path]: { $regex: this.toPattern(operator, String(value)) } };
+    }
+  }
+
+  /**
+   * Translate a condition group into a boolean aggregation expression
+   */
+  private static groupToExpression(group: FunnelConditionGroup): Document {
+    const expressions = group.conditions.map((condition) =>
+      this.isGroup(condition)
+        ? this.groupToExpression(condition)
+        : this.conditionToExpression(condition)
+    );
+
+    if (expressions.length === 1 && expressions[0]) {
+      return expressions[0];
+    }
+
+    return group.combinator === 'and' ? { $and: expressions } : { $or: expressions };
+  }
+
+  /**
+   * Translate a single condition into a boolean aggregation expression
+   */
+  private static conditionToExpression(condition: FunnelStepCondition): Document {
+    const field = this.fieldExpression(condition.field);
+    const { operator, value } = condition;
+
+    switch (operator) {
+      case 'equals':
+        return { $eq: [field, value] };
+      case 'notEquals':
+        return { $ne: [field, value] };
+      case 'exists':
+        return { $ne: [{ $ifNull: [field, null] }, null] };
+      case 'notExists':
+        return { $eq: [{ $ifNull: [field, null] }, null] };
+      default:
+        // $regexMatch errors on non-string input, so missing fields never match
+        return {
+          $cond: [
+            { $eq: [{ $type: field }, 'string'] },
+            {
+              $regexMatch: {
+                input: field,
+                regex: this.toPattern(operator, String(value)),
+              },
+            },
+            false,
+          ],
+        };
+    }
+  }
+
+  /**
+   * Build the aggregation expression reading a condition field
+   * UTM values come from content.utm, or are parsed out of content.queryString
+   */
+  private static fieldExpression(field: FunnelConditionField): Document | string {
+    if (!UTM_FIELDS.includes(field)) {
+      return `$${CONDITION_FIELD_PATHS[field]}`;
+    }
+
+    return EventModel.toUtmExpression(field as keyof UTMParameters);
+  }
+
+  /**
+   * Translate a pattern operator into a regex source string
+   * User input is escaped for every operator except regex
+   */
+  private static toPattern(operator: FunnelConditionOperator, value: string): string {
+    switch (operator) {
+      case 'startsWith':
+        // Anchored prefix regexes can still use the index
+        return `^${this.escapeRegex(value)}`;
+      case 'contains':
+        return this.escapeRegex(value);
+      case 'glob':
+        return `^${this.globToRegex(value)}$`;
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Escape regex metacharacters so the value matches literally
+   */
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+
+  /**
+   * Convert a glob pattern to a regex source string
+   * `**` matches anything, `*` anything but `/`, `?` a single character but `/`
+   */
+  private static globToRegex(glob: string): string {
+    return glob
+      .split('**')
+      .map((part) =>
+        part
+          .split('*')
+          .map((segment) =>
+            segment
+              .split('?')
+              .map((literal) => this.escapeRegex(literal))
+              .join('[^/]')
+          )
+          .join('[^/]*')
+      )
+      .join('.*');
+  }
+
+  /**
+   * Tell condition groups apart from single conditions
+   */
+  private static isGroup(
+    condition: FunnelStepCondition | FunnelConditionGroup
+  ): condition is FunnelConditionGroup {
+    return typeof condition === 'object' && condition !== null && 'combinator' in condition;
+  }
+}
@@ -0,0 +1,44 @@
+import type { PathAnchor } from '@trainwell-funnel/shared';
+
+/**
+ * Sessions moving between two pages at one step, as read from the database
+ */
+export interface PathTransition {
+  step: number; // Column of the source page
+  source: string;
+  target: string;
+  sessions: number;
+}
+
+/**
+ * Most common transitions per step around an anchor page
+ */
+export interface PathTransitionMetrics {
+  sessions: number; // Sessions that viewed the anchor page
+  transitions: PathTransition[]; // Top transitions of each step, most sessions first
+}
+
+/**
+ * Supported path anchors
+ */
+export const PATH_ANCHORS: readonly PathAnchor[] = ['start', 'end'];
+
+/**
+ * Pages followed from the anchor page when no depth is requested
+ */
+export const DEFAULT_PATH_DEPTH = 4;
+
+/**
+ * Most pages a path analysis can follow from the anchor page
+ */
+export const MAX_PATH_DEPTH = 8;
+
+/**
+ * Transitions kept per step when no limit is requested
+ */
+export const DEFAULT_PATH_LIMIT = 10;
+
+/**
+ * Most transitions a path analysis can keep per step
+ */
+export const MAX_PATH_LIMIT = 50;
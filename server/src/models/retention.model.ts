@@ -0,0 +1,33 @@
+import type { RetentionInterval } from '@trainwell-funnel/shared';
+
+/**
+ * Users of one cohort and how many returned in each period, as read from the database
+ */
+export interface RetentionCohortMetrics {
+  cohortStart: Date;
+  users: number;
+  retained: number[]; // Indexed by period
+}
+
+/**
+ * Supported retention intervals
+ */
+export const RETENTION_INTERVALS: readonly RetentionInterval[] = ['day', 'week'];
+
+/**
+ * Length of each retention period in milliseconds
+ */
+export const RETENTION_INTERVAL_MS: Record<RetentionInterval, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Periods tracked when none are requested, e.g. day 0 through day 7
+ */
+export const DEFAULT_RETENTION_PERIODS = 8;
+
+/**
+ * Most periods a retention analysis can track
+ */
+export const MAX_RETENTION_PERIODS = 31;
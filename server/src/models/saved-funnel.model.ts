@@ -0,0 +1,260 @@
+import { ObjectId } from 'mongodb';
+import {
+  FUNNEL_BREAKDOWN_PROPERTIES,
+  FUNNEL_TREND_INTERVALS,
+  FunnelModel,
+} from '@/models/funnel.model';
+import type {
+  FunnelConditionGroup,
+  FunnelExclusion,
+  FunnelStepCondition,
+  FunnelStepConfig,
+  FunnelStepMatcher,
+  SavedFunnel,
+  SavedFunnelDateRange,
+  SavedFunnelInput,
+  SavedFunnelOptions,
+} from '@trainwell-funnel/shared';
+
+/**
+ * MongoDB document structure for saved funnels
+ * This is server-only - contains database-specific types (ObjectId, Date)
+ */
+export interface SavedFunnelDocument {
+  _id: ObjectId;
+  name: string;
+  description: string | null;
+  steps: FunnelStepConfig[];
+  dateRange: SavedFunnelDateRange | null;
+  options: SavedFunnelOptions;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fields written when a saved funnel is created or replaced
+ */
+export type SavedFunnelFields = Omit<SavedFunnelDocument, '_id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Longest saved funnel name accepted from clients
+ */
+export const MAX_SAVED_FUNNEL_NAME_LENGTH = 100;
+
+/**
+ * Longest saved funnel description accepted from clients
+ */
+export const MAX_SAVED_FUNNEL_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Most days a relative date range can span
+ */
+export const MAX_RELATIVE_RANGE_DAYS = 365;
+
+/**
+ * Saved Funnel Model - Validation and serialization utilities
+ */
+export class SavedFunnelModel {
+  /**
+   * Serialize MongoDB document to DTO
+   * Converts ObjectId to string and Date to ISO string for JSON responses
+   * @param document - MongoDB saved funnel document
+   * @returns SavedFunnel suitable for API responses
+   */
+  static toDTO(document: SavedFunnelDocument): SavedFunnel {
+    return {
+      id: document._id.toString(),
+      name: document.name,
+      ...(document.description ? { description: document.description } : {}),
+      steps: document.steps,
+      ...(document.dateRange ? { dateRange: document.dateRange } : {}),
+      options: document.options,
+      createdAt: document.createdAt.toISOString(),
+      updatedAt: document.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Serialize multiple MongoDB documents to DTOs
+   * @param documents - Array of MongoDB saved funnel documents
+   * @returns Array of SavedFunnels
+   */
+  static toDTOs(documents: SavedFunnelDocument[]): SavedFunnel[] {
+    return documents.map((doc) => this.toDTO(doc));
+  }
+
+  /**
+   * Pick the stored fields from a validated input, dropping anything unknown
+   * Steps, exclusions, their conditions and the date range are rebuilt field by field too
+   * @param input - Saved funnel input from the client
+   * @returns Fields to write to the document
+   */
+  static toFields(input: SavedFunnelInput): SavedFunnelFields {
+    const { conversionWindow, exclusions, countBy, order, breakdownBy, trendInterval } =
+      input.options ?? {};
+    const options: SavedFunnelOptions = {
+      ...(conversionWindow
+        ? { conversionWindow: { value: conversionWindow.value, unit: conversionWindow.unit } }
+        : {}),
+      ...(exclusions && exclusions.length > 0
+        ? { exclusions: exclusions.map((exclusion) => this.toExclusionFields(exclusion)) }
+        : {}),
+      ...(countBy ? { countBy } : {}),
+      ...(order ? { order } : {}),
+      ...(breakdownBy ? { breakdownBy } : {}),
+      ...(trendInterval ? { trendInterval } : {}),
+    };
+
+    return {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      steps: input.steps.map((step) => this.toStepFields(step)),
+      dateRange: input.dateRange ? this.toDateRangeFields(input.dateRange) : null,
+      options,
+    };
+  }
+
+  /**
+   * Pick the known fields of a relative or absolute date range
+   */
+  private static toDateRangeFields(dateRange: SavedFunnelDateRange): SavedFunnelDateRange {
+    return dateRange.type === 'relative'
+      ? { type: 'relative', days: dateRange.days }
+      : { type: 'absolute', startDate: dateRange.startDate, endDate: dateRange.endDate };
+  }
+
+  /**
+   * Pick the known fields of a step
+   */
+  private static toStepFields(step: FunnelStepConfig): FunnelStepConfig {
+    return {
+      name: step.name,
+      ...this.toMatcherFields(step),
+      ...(step.anyOf ? { anyOf: step.anyOf.map((matcher) => this.toMatcherFields(matcher)) } : {}),
+      ...(step.optional !== undefined ? { optional: step.optional } : {}),
+    };
+  }
+
+  /**
+   * Pick the known fields of an exclusion
+   */
+  private static toExclusionFields(exclusion: FunnelExclusion): FunnelExclusion {
+    return {
+      ...this.toMatcherFields(exclusion),
+      fromStep: exclusion.fromStep,
+      toStep: exclusion.toStep,
+    };
+  }
+
+  /**
+   * Pick the known fields of a step or exclusion matcher
+   */
+  private static toMatcherFields(matcher: FunnelStepMatcher): FunnelStepMatcher {
+    return {
+      ...(matcher.matchType !== undefined ? { matchType: matcher.matchType } : {}),
+      ...(matcher.matchValue !== undefined ? { matchValue: matcher.matchValue } : {}),
+      ...(matcher.operator !== undefined ? { operator: matcher.operator } : {}),
+      ...(matcher.conditions
+        ? { conditions: this.toConditionGroupFields(matcher.conditions) }
+        : {}),
+    };
+  }
+
+  /**
+   * Pick the known fields of a condition group, down through nested groups
+   */
+  private static toConditionGroupFields(group: FunnelConditionGroup): FunnelConditionGroup {
+    return {
+      combinator: group.combinator,
+      conditions: group.conditions.map(
+        (condition): FunnelStepCondition | FunnelConditionGroup =>
+          'combinator' in condition
+            ? this.toConditionGroupFields(condition)
+            : {
+                field: condition.field,
+                operator: condition.operator,
+                ...(condition.value !== undefined ? { value: condition.value } : {}),
+              }
+      ),
+    };
+  }
+
+  /**
+   * Validate a saved funnel before it is written
+   * @param input - Saved funnel input from the client
+   * @returns Error message, or null when the input is valid
+   */
+  static validate(input: SavedFunnelInput): string | null {
+    if (typeof input?.name !== 'string' || input.name.trim() === '') {
+      return 'name is required';
+    }
+
+    if (input.name.trim().length > MAX_SAVED_FUNNEL_NAME_LENGTH) {
+      return `name must be at most ${MAX_SAVED_FUNNEL_NAME_LENGTH} characters`;
+    }
+
+    if (
+      input.description !== undefined &&
+      (typeof input.description !== 'string' ||
+        input.description.length > MAX_SAVED_FUNNEL_DESCRIPTION_LENGTH)
+    ) {
+      return `description must be a string of at most ${MAX_SAVED_FUNNEL_DESCRIPTION_LENGTH} characters`;
+    }
+
+    const options = input.options ?? {};
+    if (typeof options !== 'object' || Array.isArray(options)) {
+      return 'options must be an object';
+    }
+
+    const definitionError = FunnelModel.validateDefinition({ ...options, steps: input.steps });
+    if (definitionError) {
+      return definitionError;
+    }
+
+    if (
+      options.breakdownBy !== undefined &&
+      !FUNNEL_BREAKDOWN_PROPERTIES.includes(options.breakdownBy)
+    ) {
+      return `breakdownBy must be one of ${FUNNEL_BREAKDOWN_PROPERTIES.map((property) => `"${property}"`).join(', ')}`;
+    }
+
+    if (
+      options.trendInterval !== undefined &&
+      !FUNNEL_TREND_INTERVALS.includes(options.trendInterval)
+    ) {
+      return `trendInterval must be one of ${FUNNEL_TREND_INTERVALS.map((interval) => `"${interval}"`).join(', ')}`;
+    }
+
+    if (options.breakdownBy && options.trendInterval) {
+      return 'breakdownBy and trendInterval cannot be combined';
+    }
+
+    return input.dateRange === undefined ? null : this.validateDateRange(input.dateRange);
+  }
+
+  /**
+   * Validate a relative or absolute default date range
+   */
+  private static validateDateRange(dateRange: SavedFunnelDateRange): string | null {
+    if (dateRange?.type === 'relative') {
+      return Number.isInteger(dateRange.days) &&
+        dateRange.days >= 1 &&
+        dateRange.days <= MAX_RELATIVE_RANGE_DAYS
+        ? null
+        : `dateRange.days must be an integer between 1 and ${MAX_RELATIVE_RANGE_DAYS}`;
+    }
+
+    if (dateRange?.type === 'absolute') {
+      const startDate = new Date(dateRange.startDate);
+      const endDate = new Date(dateRange.endDate);
+
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return 'dateRange.startDate and dateRange.endDate must be valid dates';
+      }
+
+      return startDate <= endDate ? null : 'dateRange.startDate must be before dateRange.endDate';
+    }
+
+    return 'dateRange.type must be either "relative" or "absolute"';
+  }
+}
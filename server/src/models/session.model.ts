@@ -0,0 +1,220 @@
+import type { Document } from 'mongodb';
+import { EventModel } from '@/models/event.model';
+import type { SessionDTO, SessionStats, UTMParameters } from '@trainwell-funnel/shared';
+
+/**
+ * A session reconstructed from events by the session stages
+ * This is server-only - dates are still Date objects
+ */
+export interface SessionDocument {
+  sessionId: string | null;
+  user_id: string;
+  start: Date;
+  end: Date;
+  duration: number; // Milliseconds
+  pageCount: number;
+  bounced: boolean;
+  entryPage: string;
+  exitPage: string;
+  hostname: string;
+  utm: UTMParameters | null;
+}
+
+// Re-export shared types for convenience
+export type { SessionDTO, SessionStats };
+
+/**
+ * Query filters for sessions
+ * user_id narrows the events read, the others apply to the reconstructed sessions
+ */
+export interface SessionQueryFilters {
+  user_id?: string;
+  hostname?: string;
+  entryPage?: string;
+  exitPage?: string;
+  bounced?: boolean;
+}
+
+/**
+ * A page of sessions with totals over every session matching the filters
+ */
+export interface SessionMetrics {
+  totalSessions: number;
+  totalUsers: number;
+  avgDuration: number;
+  avgPageCount: number;
+  bounces: number;
+  sessions: SessionDocument[]; // Most recent first
+}
+
+/**
+ * Inactivity after which a user's next event starts a new session
+ */
+export const SESSION_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Sessions returned per page when no limit is requested
+ */
+export const DEFAULT_SESSION_LIMIT = 100;
+
+/**
+ * Most sessions returned per page
+ */
+export const MAX_SESSION_LIMIT = 1000;
+
+/**
+ * Session Model - Session reconstruction utilities
+ */
+export class SessionModel {
+  /**
+   * Build the expression for an event's session_id, null when missing or empty
+   * Sessions are keyed by user and this value, since session ids can be missing
+   * or reused across users
+   */
+  static toSessionIdExpression(): Document {
+    return { $cond: [{ $gt: [{ $ifNull: ['$session_id', ''] }, ''] }, '$session_id', null] };
+  }
+
+  /**
+   * Build the aggregation stages turning matched events into one document per session
+   * Events are grouped by user and session_id, with a missing or empty session_id
+   * treated as one group per user. Each group is then split wherever the gap
+   * between two events exceeds the timeout, which also separates visits that
+   * reuse a session_id. Sessions crossing the edge of the matched date range
+   * are cut at the edge
+   * @param timeoutMs - Inactivity that ends a session
+   * @param utm - Expression for an event's UTM parameters, kept from the entry page.
+   * Defaults to content.utm, or the parameters parsed out of content.queryString
+   * @param events - Expression for what to keep of each event. When given, each
+   * session also carries an events list, oldest first
+   * @returns Stages to append after a $match on events, producing SessionDocuments
+   */
+  static toSessionStages(
+    timeoutMs: number = SESSION_TIMEOUT_MS,
+    utm: Document | string = EventModel.toUtmParametersExpression(),
+    events?: Document | string
+  ): Document[] {
+    return [
+      { $sort: { user_id: 1, date: 1, _id: 1 } },
+      {
+        $group: {
+          _id: {
+            user_id: '$user_id',
+            session_id: SessionModel.toSessionIdExpression(),
+          },
+          events: {
+            $push: {
+              date: '$date',
+              path: '$content.path',
+              hostname: '$content.hostname',
+              utm,
+              ...(events !== undefined && { event: events }),
+            },
+          },
+        },
+      },
+      // Replay the events in order, extending the last session or starting a new one
+      {
+        $project: {
+          sessions: {
+            $reduce: {
+              input: '$events',
+              initialValue: [],
+              in: {
+                $let: {
+                  vars: { last: { $arrayElemAt: ['$$value', -1] } },
+                  in: {
+                    $cond: [
+                      {
+                        $or: [
+                          { $eq: [{ $size: '$$value' }, 0] },
+                          { $gt: [{ $subtract: ['$$this.date', '$$last.end'] }, timeoutMs] },
+                        ],
+                      },
+                      {
+                        $concatArrays: [
+                          '$$value',
+                          [
+                            {
+                              start: '$$this.date',
+                              end: '$$this.date',
+                              pageCount: 1,
+                              entryPage: '$$this.path',
+                              exitPage: '$$this.path',
+                              hostname: '$$this.hostname',
+                              utm: '$$this.utm',
+                              ...(events !== undefined && { events: ['$$this.event'] }),
+                            },
+                          ],
+                        ],
+                      },
+                      {
+                        $concatArrays: [
+                          { $slice: ['$$value', { $subtract: [{ $size: '$$value' }, 1] }] },
+                          [
+                            {
+                              $mergeObjects: [
+                                '$$last',
+                                {
+                                  end: '$$this.date',
+                                  pageCount: { $add: ['$$last.pageCount', 1] },
+                                  exitPage: '$$this.path',
+                                  ...(events !== undefined && {
+                                    events: { $concatArrays: ['$$last.events', ['$$this.event']] },
+                                  }),
+                                },
+                              ],
+                            },
+                          ],
+                        ],
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      { $unwind: '$sessions' },
+      {
+        $project: {
+          _id: 0,
+          sessionId: '$_id.session_id',
+          user_id: '$_id.user_id',
+          start: '$sessions.start',
+          end: '$sessions.end',
+          duration: { $subtract: ['$sessions.end', '$sessions.start'] },
+          pageCount: '$sessions.pageCount',
+          bounced: { $eq: ['$sessions.pageCount', 1] },
+          entryPage: '$sessions.entryPage',
+          exitPage: '$sessions.exitPage',
+          hostname: '$sessions.hostname',
+          utm: { $ifNull: ['$sessions.utm', null] },
+          ...(events !== undefined && { events: '$sessions.events' }),
+        },
+      },
+    ];
+  }
+
+  /**
+   * Serialize a reconstructed session to DTO
+   * @param document - Session from the session stages
+   * @returns SessionDTO suitable for API responses
+   */
+  static toDTO(document: SessionDocument): SessionDTO {
+    return {
+      sessionId: document.sessionId,
+      user_id: document.user_id,
+      start: document.start.toISOString(),
+      end: document.end.toISOString(),
+      duration: document.duration,
+      pageCount: document.pageCount,
+      bounced: document.bounced,
+      entryPage: document.entryPage,
+      exitPage: document.exitPage,
+      hostname: document.hostname,
+      utm: document.utm,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import type { EventDocument } from '@/models/event.model';
+
+/**
+ * A user's session with its events, as read from the database
+ */
+export interface UserSessionEvents {
+  sessionId: string | null; // null for events without a session id
+  start: Date;
+  end: Date;
+  events: EventDocument[]; // Oldest first
+}
+
+/**
+ * A user's sessions, most recent first, with totals over all of them
+ */
+export interface UserTimelineMetrics {
+  totalSessions: number;
+  totalEvents: number;
+  firstSeen: Date | null; // Null when the user has no events
+  lastSeen: Date | null;
+  sessions: UserSessionEvents[];
+}
+
+/**
+ * Sessions returned in a timeline when no limit is requested
+ */
+export const DEFAULT_TIMELINE_SESSION_LIMIT = 100;
+
+/**
+ * Most sessions a timeline can return
+ */
+export const MAX_TIMELINE_SESSION_LIMIT = 500;
@@ -1,7 +1,8 @@
-import { Collection, Db } from 'mongodb';
+import { Collection, Db, type Document } from 'mongodb';
 import logger from '@/lib/logger';
 import type { EventDocument } from '@/models/event.model';
-import type { CampaignMetrics } from '@trainwell-funnel/shared';
+import { SessionModel, SESSION_TIMEOUT_MS } from '@/models/session.model';
+import type { CampaignMetrics, CampaignPerformance } from '@trainwell-funnel/shared';
 
 /**
  * Campaign Repository - Data Access Layer for UTM Campaign Analytics
@@ -18,6 +19,9 @@ export class CampaignRepository {
    * Get campaign metrics aggregated by UTM parameters
    * Analyzes campaign effectiveness, first page views, and user engagement
    * Extracts UTM parameters from queryString field
+   * Session duration, bounce rate and pages per session come from sessions
+   * reconstructed from every page view, attributed to the UTM parameters of
+   * their entry page. They are left out for combinations no session landed with
    */
   async getCampaignMetrics(
     startDate: Date,
@@ -38,28 +42,7 @@ export class CampaignRepository {
 
       const pipeline: any[] = [
         { $match: matchConditions },
-        // Add fields to extract UTM parameters from queryString
-        {
-          $addFields: {
-            utm_source: {
-              $regexFind: { input: '$content.queryString', regex: /utm_source=([^&]+)/ },
-            },
-            utm_medium: {
-              $regexFind: { input: '$content.queryString', regex: /utm_medium=([^&]+)/ },
-            },
-            utm_campaign: {
-              $regexFind: { input: '$content.queryString', regex: /utm_campaign=([^&]+)/ },
-            },
-          },
-        },
-        // Extract the captured group from regex results
-        {
-          $addFields: {
-            utm_source: { $arrayElemAt: ['$utm_source.captures', 0] },
-            utm_medium: { $arrayElemAt: ['$utm_medium.captures', 0] },
-            utm_campaign: { $arrayElemAt: ['$utm_campaign.captures', 0] },
-          },
-        },
+        ...this.utmFieldStages(),
         // Filter out events without any UTM parameters
         {
           $match: {
@@ -118,16 +101,95 @@ export class CampaignRepository {
         { $sort: { totalUsers: -1 } }
       );
 
-      const results = await this.collection.aggregate(pipeline).toArray();
+      // Sessions over every page view, not only those with query strings
+      const sessionPipeline: Document[] = [
+        {
+          $match: {
+            platform: 'web',
+            type: 'page_view',
+            date: { $gte: startDate, $lte: endDate },
+          },
+        },
+        ...this.utmFieldStages(),
+        ...SessionModel.toSessionStages(SESSION_TIMEOUT_MS, {
+          utm_source: '$utm_source',
+          utm_medium: '$utm_medium',
+          utm_campaign: '$utm_campaign',
+        }),
+        // Only sessions that landed with UTM parameters
+        {
+          $match: {
+            $or: [
+              { 'utm.utm_source': { $ne: null } },
+              { 'utm.utm_medium': { $ne: null } },
+              { 'utm.utm_campaign': { $ne: null } },
+            ],
+          },
+        },
+        ...(utm_source ? [{ $match: { 'utm.utm_source': utm_source } }] : []),
+        ...(utm_medium ? [{ $match: { 'utm.utm_medium': utm_medium } }] : []),
+        ...(utm_campaign ? [{ $match: { 'utm.utm_campaign': utm_campaign } }] : []),
+        {
+          $group: {
+            _id: {
+              source: '$utm.utm_source',
+              medium: '$utm.utm_medium',
+              campaign: '$utm.utm_campaign',
+            },
+            sessions: { $sum: 1 },
+            avgSessionDuration: { $avg: '$duration' },
+            avgPages: { $avg: '$pageCount' },
+            bounces: { $sum: { $cond: ['$bounced', 1, 0] } },
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            utm_source: '$_id.source',
+            utm_medium: '$_id.medium',
+            utm_campaign: '$_id.campaign',
+            avgSessionDuration: 1,
+            avgPages: 1,
+            bounceRate: { $multiply: [{ $divide: ['$bounces', '$sessions'] }, 100] },
+          },
+        },
+      ];
+
+      const [results, sessionResults] = await Promise.all([
+        this.collection.aggregate(pipeline).toArray(),
+        this.collection.aggregate(sessionPipeline, { allowDiskUse: true }).toArray(),
+      ]);
+
+      // Match session metrics to their UTM combination
+      const utmKey = (metrics: Document) =>
+        JSON.stringify([
+          metrics.utm_source ?? null,
+          metrics.utm_medium ?? null,
+          metrics.utm_campaign ?? null,
+        ]);
+      const sessionMetrics = new Map(sessionResults.map((metrics) => [utmKey(metrics), metrics]));
+
+      const campaigns = results.map((campaign) => {
+        const sessions = sessionMetrics.get(utmKey(campaign));
+        return sessions
+          ? {
+              ...campaign,
+              avgSessionDuration: sessions.avgSessionDuration,
+              bounceRate: sessions.bounceRate,
+              avgPages: sessions.avgPages,
+            }
+          : campaign;
+      });
 
       timer.done({
         message: 'Repository: getCampaignMetrics completed',
         operation: 'getCampaignMetrics',
-        campaignCount: results.length,
+        campaignCount: campaigns.length,
+        sessionCampaignCount: sessionResults.length,
         filters: { utm_source, utm_medium, utm_campaign },
       });
 
-      return results as CampaignMetrics[];
+      return campaigns as CampaignMetrics[];
     } catch (error) {
       timer.done({
         level: 'error',
@@ -138,6 +200,37 @@ export class CampaignRepository {
     }
   }
 
+  /**
+   * Get campaign performance rows for comparing campaigns side by side
+   * Built from getCampaignMetrics, so pages per session come from the same
+   * reconstructed sessions, and are 0 for combinations no session landed with
+   */
+  async getCampaignPerformance(
+    startDate: Date,
+    endDate: Date,
+    utm_source?: string,
+    utm_medium?: string,
+    utm_campaign?: string
+  ): Promise<CampaignPerformance[]> {
+    const campaigns = await this.getCampaignMetrics(
+      startDate,
+      endDate,
+      utm_source,
+      utm_medium,
+      utm_campaign
+    );
+
+    return campaigns.map((campaign) => ({
+      source: campaign.utm_source ?? '',
+      medium: campaign.utm_medium ?? '',
+      campaign: campaign.utm_campaign ?? '',
+      users: campaign.totalUsers,
+      firstViews: campaign.firstViewUsers,
+      conversionRate: campaign.conversionRate,
+      avgPages: campaign.avgPages ?? 0,
+    }));
+  }
+
   /**
    * Get top performing campaigns by user count
    */
@@ -281,4 +374,35 @@ export class CampaignRepository {
       throw error;
     }
   }
+
+  /**
+   * Stages adding utm_source, utm_medium and utm_campaign fields to each event
+   * Values are read from the queryString field, null when absent
+   */
+  private utmFieldStages(): Document[] {
+    return [
+      // Add fields to extract UTM parameters from queryString
+      {
+        $addFields: {
+          utm_source: {
+            $regexFind: { input: '$content.queryString', regex: /utm_source=([^&]+)/ },
+          },
+          utm_medium: {
+            $regexFind: { input: '$content.queryString', regex: /utm_medium=([^&]+)/ },
+          },
+          utm_campaign: {
+            $regexFind: { input: '$content.queryString', regex: /utm_campaign=([^&]+)/ },
+          },
+        },
+      },
+      // Extract the captured group from regex results
+      {
+        $addFields: {
+          utm_source: { $arrayElemAt: ['$utm_source.captures', 0] },
+          utm_medium: { $arrayElemAt: ['$utm_medium.captures', 0] },
+          utm_campaign: { $arrayElemAt: ['$utm_campaign.captures', 0] },
+        },
+      },
+    ];
+  }
 }
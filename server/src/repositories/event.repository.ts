@@ -1,7 +1,26 @@
-import { Collection, Db, type Filter, ObjectId } from 'mongodb';
+import { Collection, Db, type Document, type Filter, ObjectId } from 'mongodb';
 import logger from '@/lib/logger';
-import type { EventDocument, EventQueryFilters } from '@/models/event.model';
-import type { FunnelStepConfig } from '@trainwell-funnel/shared';
+import type { EventDocument, EventPageQuery, EventQueryFilters } from '@/models/event.model';
+import {
+  FunnelModel,
+  TIME_TO_CONVERT_BUCKET_BOUNDS,
+  type FunnelBreakdownMetrics,
+  type FunnelNextPageMetrics,
+  type FunnelPeriodMetrics,
+  type FunnelQueryOptions,
+  type FunnelSegmentMetrics,
+  type FunnelStepMetrics,
+  type FunnelTrendMetrics,
+  type FunnelUserPage,
+} from '@/models/funnel.model';
+import { SessionModel } from '@/models/session.model';
+import type {
+  FunnelBreakdownProperty,
+  FunnelStepConfig,
+  FunnelTrendInterval,
+  FunnelUserStatus,
+  TimeToConvert,
+} from '@trainwell-funnel/shared';
 
 /**
  * Event Repository - Data Access Layer
@@ -55,30 +74,50 @@ export class EventRepository {
   /**
    * Find events with filters
    * Automatically filters for web platform
+   * Events are sorted by date then _id, so a cursor marks an exact position.
+   * Pages before a cursor are read in reverse from it, then flipped back into sort order
    */
   async findMany(
     filters: EventQueryFilters,
     limit: number = 100,
-    skip: number = 0
+    skip: number = 0,
+    page: EventPageQuery = { sort: 'desc' }
   ): Promise<EventDocument[]> {
     const timer = logger.startTimer();
     try {
       logger.debug('Repository: Finding events with filters', filters);
 
       const query = this.buildQuery(filters);
+      const cursor = page.after ?? page.before;
+      const direction = (page.sort === 'asc') === !page.before ? 1 : -1;
+
+      if (cursor) {
+        const operator = direction === 1 ? '$gt' : '$lt';
+        query.$or = [
+          { date: { [operator]: cursor.date } },
+          { date: cursor.date, _id: { [operator]: cursor.id } },
+        ];
+      }
 
       const events = await this.collection
         .find(query)
+        .sort({ date: direction, _id: direction })
         .limit(limit)
         .skip(skip)
         .toArray();
 
+      if (page.before) {
+        events.reverse();
+      }
+
       timer.done({
         message: 'Repository: findMany completed',
         operation: 'findMany',
         filters,
         limit,
         skip,
+        sort: page.sort,
+        cursor: page.after ? 'after' : page.before ? 'before' : undefined,
         resultCount: events.length,
       });
 
@@ -123,70 +162,226 @@ export class EventRepository {
   }
 
   /**
-   * Get unique user_ids for events matching a step configuration
-   * Used for funnel analysis to find users who completed a specific step
+   * Count users reaching each funnel step in a single aggregation
+   * Events are grouped per user and replayed in date order, so each step only
+   * counts when its event happens after the previous step's event (and within
+   * the conversion window of the user's step 1 event when one is given).
+   * In session mode events are grouped per session, so a conversion must happen
+   * within one session, and distinct users are counted alongside sessions.
+   * User lists never leave the database - only the per-step counts and
+   * time-to-convert distributions do.
    *
    * OPTIMIZED FOR EXISTING INDEXES:
-   * - Uses aggregation pipeline instead of distinct() for better index utilization
-   * - Reorders match conditions to leverage user_id_1_date_1 index when filtering by previous users
-   * - This works better with read-only database where new indexes cannot be created
+   * - $match only keeps web page views in the date range that match at least one step
+   * - Sorting by user_id and date follows the user_id_1_date_1 index
    */
-  async getUsersForStep(
-    step: FunnelStepConfig,
+  async getFunnelStepMetrics(
+    steps: FunnelStepConfig[],
     startDate: Date,
     endDate: Date,
-    previousStepUsers?: string[]
-  ): Promise<string[]> {
+    options: FunnelQueryOptions = {}
+  ): Promise<FunnelStepMetrics> {
     const timer = logger.startTimer();
 
     try {
-      // Build match conditions with optimal ordering for existing indexes
-      const matchConditions: any = {
-        platform: 'web',
-        type: 'page_view',
-      };
+      if (steps.length === 0) {
+        throw new Error('No steps provided');
+      }
+
+      const pipeline = [
+        ...this.buildFunnelPipeline(steps, startDate, endDate, options),
+        ...this.buildStepMetricStages(null, steps.length, this.toMetricOptions(options)),
+      ];
+
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const metrics = this.toStepMetrics(result, steps.length);
+
+      timer.done({
+        message: 'Repository: getFunnelStepMetrics completed',
+        operation: 'getFunnelStepMetrics',
+        stepCount: steps.length,
+        counts: metrics.counts,
+        conversionWindowMs: options.conversionWindowMs,
+        countBy: options.countBy,
+        order: options.order,
+      });
+
+      return metrics;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error getting funnel step metrics',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Compute funnel metrics split by a breakdown property, plus the funnel totals
+   * Each user belongs to exactly one segment, so segment counts sum to the totals
+   * @param steps - Ordered funnel steps
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param breakdownBy - Property to split users by
+   * @param options - Conversion window and other funnel options
+   * @returns Totals and per-segment metrics, segments in no particular order
+   */
+  async getFunnelBreakdownMetrics(
+    steps: FunnelStepConfig[],
+    startDate: Date,
+    endDate: Date,
+    breakdownBy: FunnelBreakdownProperty,
+    options: FunnelQueryOptions = {}
+  ): Promise<FunnelBreakdownMetrics> {
+    const timer = logger.startTimer();
 
-      // When filtering by previous users, put user_id first to leverage user_id_1_date_1 index
-      if (previousStepUsers && previousStepUsers.length > 0) {
-        matchConditions.user_id = { $in: previousStepUsers };
+    try {
+      if (steps.length === 0) {
+        throw new Error('No steps provided');
       }
 
-      // Add date range (benefits from user_id_1_date_1 index when user_id is present)
-      matchConditions.date = { $gte: startDate, $lte: endDate };
+      const metricOptions = this.toMetricOptions(options);
+      const pipeline = [
+        ...this.buildFunnelPipeline(steps, startDate, endDate, { ...options, breakdownBy }),
+        // Users who never reached step 1 only joined the scan for their landing path
+        { $match: { 'paths.0': { $ne: null } } },
+        // Percentiles can't be merged across segments, so totals get their own group
+        {
+          $facet: {
+            totals: this.buildStepMetricStages(null, steps.length, metricOptions),
+            segments: this.buildStepMetricStages('$segment', steps.length, metricOptions),
+          },
+        },
+      ];
+
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const totals = this.toStepMetrics(result?.totals?.[0], steps.length);
+      const segments: FunnelSegmentMetrics[] = (result?.segments ?? []).map(
+        (segment: Document) => ({
+          segment: typeof segment._id === 'string' ? segment._id : null,
+          ...this.toStepMetrics(segment, steps.length),
+        })
+      );
+
+      timer.done({
+        message: 'Repository: getFunnelBreakdownMetrics completed',
+        operation: 'getFunnelBreakdownMetrics',
+        stepCount: steps.length,
+        breakdownBy,
+        segmentCount: segments.length,
+        conversionWindowMs: options.conversionWindowMs,
+        countBy: options.countBy,
+        order: options.order,
+      });
+
+      return { totals, segments };
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error getting funnel breakdown metrics',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Compute funnel metrics per period of the cohort's step 1 date, plus the funnel totals
+   * A user's cohort is the step 1 date of their furthest-reaching path, so every
+   * user counts in exactly one period
+   * @param steps - Ordered funnel steps
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param interval - Period length, periods are truncated in UTC
+   * @param options - Conversion window and other funnel options
+   * @returns Totals and per-period metrics, periods without step 1 users omitted
+   */
+  async getFunnelTrendMetrics(
+    steps: FunnelStepConfig[],
+    startDate: Date,
+    endDate: Date,
+    interval: FunnelTrendInterval,
+    options: FunnelQueryOptions = {}
+  ): Promise<FunnelTrendMetrics> {
+    const timer = logger.startTimer();
 
-      // Add step-specific matching (benefits from user_id_1_content.hostname_1_content.path_1 index)
-      if (step.matchType === 'path') {
-        matchConditions['content.path'] = step.matchValue;
-      } else {
-        matchConditions['content.hostname'] = step.matchValue;
+    try {
+      if (steps.length === 0) {
+        throw new Error('No steps provided');
       }
 
-      // Use aggregation pipeline for better performance with existing indexes
+      const metricOptions = this.toMetricOptions(options);
       const pipeline = [
-        { $match: matchConditions },
-        { $group: { _id: '$user_id' } },
-        { $project: { _id: 0, user_id: '$_id' } },
+        ...this.buildFunnelPipeline(steps, startDate, endDate, options),
+        { $match: { 'paths.0': { $ne: null } } },
+        {
+          $addFields: {
+            cohort: {
+              $dateTrunc: {
+                date: {
+                  $first: {
+                    $arrayElemAt: [
+                      { $filter: { input: '$paths', cond: { $isArray: '$$this' } } },
+                      -1,
+                    ],
+                  },
+                },
+                unit: interval,
+                startOfWeek: 'monday',
+              },
+            },
+          },
+        },
+        {
+          $facet: {
+            totals: this.buildStepMetricStages(null, steps.length, metricOptions),
+            // Per-period conversion times aren't reported, so skip collecting them
+            periods: [
+              ...this.buildStepMetricStages('$cohort', steps.length, {
+                ...metricOptions,
+                includeTimeToConvert: false,
+              }),
+              { $sort: { _id: 1 } },
+            ],
+          },
+        },
       ];
 
-      const result = await this.collection.aggregate(pipeline).toArray();
-      const users = result.map((doc) => doc.user_id as string);
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const totals = this.toStepMetrics(result?.totals?.[0], steps.length);
+      const periods: FunnelPeriodMetrics[] = (result?.periods ?? []).map(
+        (period: Document) => ({
+          periodStart: new Date(period._id),
+          ...this.toStepMetrics(period, steps.length),
+        })
+      );
 
       timer.done({
-        message: 'Repository: getUsersForStep completed',
-        operation: 'getUsersForStep',
-        step: step.name,
-        matchType: step.matchType,
-        matchValue: step.matchValue,
-        userCount: users.length,
-        previousStepUserCount: previousStepUsers?.length,
-        hasPreviousUsers: !!previousStepUsers,
+        message: 'Repository: getFunnelTrendMetrics completed',
+        operation: 'getFunnelTrendMetrics',
+        stepCount: steps.length,
+        interval,
+        periodCount: periods.length,
+        conversionWindowMs: options.conversionWindowMs,
+        countBy: options.countBy,
+        order: options.order,
       });
 
-      return users;
+      return { totals, periods };
     } catch (error) {
       timer.done({
         level: 'error',
-        message: `Repository: Error getting users for step ${step.name}`,
+        message: 'Repository: Error getting funnel trend metrics',
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw error;
@@ -194,75 +389,1014 @@ export class EventRepository {
   }
 
   /**
-   * Get users who completed a specific step AND all previous steps (sequential requirement)
-   * This ensures funnel steps are completed in order
+   * List the users behind one funnel step, most recently active first
+   * Converted users reached the step, dropped users reached it but no later step.
+   * In session mode a user is listed when any of their sessions qualifies.
+   * Event times span the user's funnel events in the range
+   * @param steps - Ordered funnel steps
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param stepIndex - Index of the step to list users for
+   * @param status - Whether to list users who converted or dropped off
+   * @param limit - Page size
+   * @param skip - Users to skip
+   * @param options - Conversion window and other funnel options
    */
-  async getUsersCompletingSequentialSteps(
+  async getFunnelUsers(
     steps: FunnelStepConfig[],
-    stepIndex: number,
     startDate: Date,
-    endDate: Date
-  ): Promise<string[]> {
+    endDate: Date,
+    stepIndex: number,
+    status: FunnelUserStatus,
+    limit: number,
+    skip: number,
+    options: FunnelQueryOptions = {}
+  ): Promise<FunnelUserPage> {
     const timer = logger.startTimer();
 
     try {
-      // Validate step index
       if (stepIndex < 0 || stepIndex >= steps.length) {
-        throw new Error(`Invalid step index: ${stepIndex}`);
+        throw new Error('Step index out of range');
       }
 
-      const firstStep = steps[0];
-      if (!firstStep) {
-        throw new Error('No steps provided');
+      const pipeline = [
+        ...this.buildFunnelPipeline(steps, startDate, endDate, options, {
+          includeEventTimes: true,
+        }),
+        { $match: { $expr: this.buildStepStatusExpression(stepIndex, steps.length, status) } },
+        {
+          $group: {
+            _id: options.countBy === 'session' ? '$user_id' : '$_id',
+            firstEventAt: { $min: '$firstEventAt' },
+            lastEventAt: { $max: '$lastEventAt' },
+          },
+        },
+        {
+          $facet: {
+            total: [{ $count: 'count' }],
+            users: [
+              // user_id breaks ties so pages don't overlap
+              { $sort: { lastEventAt: -1, _id: 1 } },
+              { $skip: skip },
+              { $limit: limit },
+              { $project: { _id: 0, user_id: '$_id', firstEventAt: 1, lastEventAt: 1 } },
+            ],
+          },
+        },
+      ];
+
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const page: FunnelUserPage = {
+        users: (result?.users ?? []).map((user: Document) => ({
+          user_id: user.user_id,
+          firstEventAt: new Date(user.firstEventAt),
+          lastEventAt: new Date(user.lastEventAt),
+        })),
+        total: Number(result?.total?.[0]?.count ?? 0),
+      };
+
+      timer.done({
+        message: 'Repository: getFunnelUsers completed',
+        operation: 'getFunnelUsers',
+        stepCount: steps.length,
+        stepIndex,
+        status,
+        limit,
+        skip,
+        total: page.total,
+        resultCount: page.users.length,
+      });
+
+      return page;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error getting funnel users',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the most common pages visited right after dropping off at a funnel step
+   * A drop-off's next page is their first page view after the step's event that
+   * doesn't match the step itself (so reloads are skipped), within the date range.
+   * In session mode it must also be in the same session
+   * @param steps - Ordered funnel steps
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param stepIndex - Index of the step users dropped off at
+   * @param limit - Most common pages to return
+   * @param options - Conversion window and other funnel options
+   */
+  async getFunnelNextPages(
+    steps: FunnelStepConfig[],
+    startDate: Date,
+    endDate: Date,
+    stepIndex: number,
+    limit: number,
+    options: FunnelQueryOptions = {}
+  ): Promise<FunnelNextPageMetrics> {
+    const timer = logger.startTimer();
+
+    try {
+      if (stepIndex < 0 || stepIndex >= steps.length - 1) {
+        throw new Error('Step index out of range');
       }
 
-      // For step 0, just get all users for that step
-      if (stepIndex === 0) {
-        return await this.getUsersForStep(firstStep, startDate, endDate);
+      const bySession = options.countBy === 'session';
+      const nextPageConditions: Document[] = [
+        { $eq: ['$user_id', '$$userId'] },
+        { $gt: ['$date', '$$droppedAt'] },
+      ];
+      if (bySession) {
+        nextPageConditions.push({ $eq: [SessionModel.toSessionIdExpression(), '$$sessionId'] });
       }
 
-      // For subsequent steps, we need users who completed ALL previous steps
-      let usersAtCurrentStep = await this.getUsersForStep(
-        firstStep,
-        startDate,
-        endDate
-      );
+      const pipeline = [
+        ...this.buildFunnelPipeline(steps, startDate, endDate, options),
+        { $match: { $expr: this.buildStepStatusExpression(stepIndex, steps.length, 'dropped') } },
+        {
+          $lookup: {
+            from: 'events',
+            let: {
+              userId: bySession ? '$user_id' : '$_id',
+              sessionId: '$_id.session_id',
+              // The step's own event in the path that reached it
+              droppedAt: {
+                $arrayElemAt: [{ $arrayElemAt: ['$paths', stepIndex] }, stepIndex],
+              },
+            },
+            pipeline: [
+              {
+                $match: {
+                  platform: 'web',
+                  type: 'page_view',
+                  date: { $lte: endDate },
+                  $nor: [FunnelModel.toStepQuery(steps[stepIndex]!)],
+                  $expr: { $and: nextPageConditions },
+                },
+              },
+              { $sort: { date: 1 } },
+              { $limit: 1 },
+              { $project: { _id: 0, path: '$content.path', hostname: '$content.hostname' } },
+            ],
+            as: 'next',
+          },
+        },
+        {
+          $facet: {
+            totals: [
+              {
+                $group: {
+                  _id: null,
+                  dropped: { $sum: 1 },
+                  exited: { $sum: { $cond: [{ $eq: [{ $size: '$next' }, 0] }, 1, 0] } },
+                },
+              },
+            ],
+            pages: [
+              { $unwind: '$next' },
+              {
+                $group: {
+                  _id: { path: '$next.path', hostname: '$next.hostname' },
+                  count: { $sum: 1 },
+                },
+              },
+              { $sort: { count: -1, '_id.path': 1, '_id.hostname': 1 } },
+              { $limit: limit },
+            ],
+          },
+        },
+      ];
 
-      // Progressively filter users through each step
-      for (let i = 1; i <= stepIndex; i++) {
-        const currentStep = steps[i];
-        if (!currentStep) {
-          throw new Error(`Step at index ${i} is undefined`);
-        }
-        usersAtCurrentStep = await this.getUsersForStep(
-          currentStep,
-          startDate,
-          endDate,
-          usersAtCurrentStep
-        );
-      }
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
 
-      const currentStepName = steps[stepIndex]?.name ?? 'unknown';
+      const metrics: FunnelNextPageMetrics = {
+        dropped: Number(result?.totals?.[0]?.dropped ?? 0),
+        exited: Number(result?.totals?.[0]?.exited ?? 0),
+        pages: (result?.pages ?? []).map((page: Document) => ({
+          path: page._id.path,
+          hostname: page._id.hostname,
+          count: Number(page.count),
+        })),
+      };
 
       timer.done({
-        message: 'Repository: getUsersCompletingSequentialSteps completed',
-        operation: 'getUsersCompletingSequentialSteps',
+        message: 'Repository: getFunnelNextPages completed',
+        operation: 'getFunnelNextPages',
+        stepCount: steps.length,
         stepIndex,
-        stepName: currentStepName,
-        userCount: usersAtCurrentStep.length,
+        dropped: metrics.dropped,
+        pageCount: metrics.pages.length,
       });
 
-      return usersAtCurrentStep;
+      return metrics;
     } catch (error) {
       timer.done({
         level: 'error',
-        message: `Repository: Error getting sequential step users for step ${stepIndex}`,
+        message: 'Repository: Error getting funnel next pages',
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw error;
     }
   }
 
+  /**
+   * Build the expression that tells whether a funnel document qualifies for a step
+   * Converted documents reached the step, dropped ones reached it but no later step
+   */
+  private buildStepStatusExpression(
+    stepIndex: number,
+    stepCount: number,
+    status: FunnelUserStatus
+  ): Document {
+    const reached = (k: number) => ({ $isArray: { $arrayElemAt: ['$paths', k] } });
+    const laterSteps = Array.from({ length: stepCount - stepIndex - 1 }, (_value, offset) =>
+      reached(stepIndex + offset + 1)
+    );
+
+    return status === 'converted' || laterSteps.length === 0
+      ? reached(stepIndex)
+      : { $and: [reached(stepIndex), { $not: [{ $or: laterSteps }] }] };
+  }
+
+  /**
+   * Options for buildStepMetricStages that follow from the funnel options
+   * Unordered funnels have no step-to-step times, so none are collected
+   */
+  private toMetricOptions(options: FunnelQueryOptions): {
+    includeTimeToConvert: boolean;
+    countUsers: boolean;
+  } {
+    return {
+      includeTimeToConvert: options.order !== 'any',
+      countUsers: options.countBy === 'session',
+    };
+  }
+
+  /**
+   * Build the stages that reduce per-user progress into per-step metrics
+   * step_<k> counts users whose progress reached step k. From step 2 on, time_<k>
+   * holds the median/p75/p90 of the time since the previous step (nearest rank),
+   * mean_<k> the mean and hist_<k>_<b> the users per histogram bucket. With
+   * countUsers, sessions are grouped by user first and users_<k> counts the users
+   * with a session that reached step k
+   * @param groupId - $group key, null for the whole funnel
+   * @param stepCount - Number of funnel steps
+   * @param includeTimeToConvert - Whether to compute the time_, mean_ and hist_ fields
+   */
+  private buildStepMetricStages(
+    groupId: string | null,
+    stepCount: number,
+    { includeTimeToConvert = true, countUsers = false } = {}
+  ): Document[] {
+    const groupFields: Document = {};
+    const percentileFields: Document = {};
+    const userFields: Document = {};
+    const userFlags: Document = {};
+    const bounds = [0, ...TIME_TO_CONVERT_BUCKET_BOUNDS];
+
+    for (let k = 0; k < stepCount; k++) {
+      const reached = { $isArray: { $arrayElemAt: ['$paths', k] } };
+      groupFields[`step_${k}`] = {
+        $sum: {
+          $cond: [reached, 1, 0],
+        },
+      };
+
+      // Sessions are the counted unit, users are the distinct owners of those sessions
+      if (countUsers) {
+        userFields[`users_${k}`] = { $max: { $cond: [reached, 1, 0] } };
+        userFlags[`users_${k}`] = { $cond: [{ $eq: ['$sessionIndex', 0] }, `$users_${k}`, 0] };
+        groupFields[`users_${k}`] = { $sum: `$users_${k}` };
+      }
+
+      if (k === 0 || !includeTimeToConvert) {
+        continue;
+      }
+
+      // Users who didn't reach step k have a null duration, which $avg skips
+      const duration = { $arrayElemAt: ['$durations', k] };
+      groupFields[`time_${k}`] = { $push: duration };
+      groupFields[`mean_${k}`] = { $avg: duration };
+
+      bounds.forEach((minMs, bucket) => {
+        const maxMs = bounds[bucket + 1];
+        const inBucket: Document[] = [
+          { $ne: [duration, null] },
+          { $gte: [duration, minMs] },
+        ];
+        if (maxMs !== undefined) {
+          inBucket.push({ $lt: [duration, maxMs] });
+        }
+        groupFields[`hist_${k}_${bucket}`] = { $sum: { $cond: [{ $and: inBucket }, 1, 0] } };
+      });
+
+      const percentile = (p: number) => ({
+        $arrayElemAt: [
+          '$$sorted',
+          { $max: [0, { $subtract: [{ $ceil: { $multiply: [p, { $size: '$$sorted' }] } }, 1] }] },
+        ],
+      });
+
+      // Sorting happens in the database, only the picked percentiles are returned
+      percentileFields[`time_${k}`] = {
+        $let: {
+          vars: {
+            sorted: {
+              $sortArray: {
+                input: { $filter: { input: `$time_${k}`, cond: { $ne: ['$$this', null] } } },
+                sortBy: 1,
+              },
+            },
+          },
+          in: { median: percentile(0.5), p75: percentile(0.75), p90: percentile(0.9) },
+        },
+      };
+    }
+
+    const stages: Document[] = [];
+    if (countUsers) {
+      // Each user's flags ride on their first session only, so the group sums distinct users
+      stages.push(
+        {
+          $group: {
+            _id: { group: groupId, user_id: '$user_id' },
+            sessions: { $push: { paths: '$paths', durations: '$durations' } },
+            ...userFields,
+          },
+        },
+        { $unwind: { path: '$sessions', includeArrayIndex: 'sessionIndex' } },
+        {
+          $project: {
+            group: '$_id.group',
+            paths: '$sessions.paths',
+            durations: '$sessions.durations',
+            ...userFlags,
+          },
+        }
+      );
+    }
+    stages.push({
+      $group: { _id: countUsers && groupId !== null ? '$group' : groupId, ...groupFields },
+    });
+    if (stepCount > 1 && includeTimeToConvert) {
+      stages.push({ $addFields: percentileFields });
+    }
+    return stages;
+  }
+
+  /**
+   * Read the fields built by buildStepMetricStages back into step metrics
+   */
+  private toStepMetrics(result: Document | undefined, stepCount: number): FunnelStepMetrics {
+    const counts = Array.from({ length: stepCount }, (_value, k) =>
+      Number(result?.[`step_${k}`] ?? 0)
+    );
+
+    const timeToConvert = counts.map((count, k): TimeToConvert | null => {
+      const time = result?.[`time_${k}`];
+      if (k === 0 || count === 0 || !time) {
+        return null;
+      }
+
+      const bounds = [0, ...TIME_TO_CONVERT_BUCKET_BOUNDS];
+
+      return {
+        medianMs: Number(time.median ?? 0),
+        p75Ms: Number(time.p75 ?? 0),
+        p90Ms: Number(time.p90 ?? 0),
+        meanMs: Number(result[`mean_${k}`] ?? 0),
+        histogram: bounds.map((minMs, bucket) => ({
+          minMs,
+          maxMs: bounds[bucket + 1] ?? null,
+          users: Number(result[`hist_${k}_${bucket}`] ?? 0),
+        })),
+      };
+    });
+
+    if (result?.users_0 === undefined) {
+      return { counts, timeToConvert };
+    }
+
+    const users = counts.map((_count, k) => Number(result[`users_${k}`] ?? 0));
+    return { counts, timeToConvert, users };
+  }
+
+  /**
+   * Build the pipeline stages that compute each user's progress through a funnel
+   * Emits one document per user: { _id: user_id, paths }, where paths[k] holds the
+   * step timestamps of the path that reached step k (null when step k was not reached).
+   * In session mode documents are per session instead, keyed by { user_id, session_id },
+   * and also carry the user_id.
+   * With a breakdown, documents also carry the user's segment.
+   * Strict funnels scan every page view, since any page view between two steps
+   * breaks the path. Unordered funnels skip durations, their paths aren't in date order.
+   * With includeEventTimes, documents also carry firstEventAt and lastEventAt
+   */
+  private buildFunnelPipeline(
+    steps: FunnelStepConfig[],
+    startDate: Date,
+    endDate: Date,
+    options: FunnelQueryOptions,
+    { includeEventTimes = false } = {}
+  ): Document[] {
+    const stepQueries: Filter<EventDocument>[] = steps.map((step) =>
+      FunnelModel.toStepQuery(step)
+    );
+    const bySession = options.countBy === 'session';
+    const strict = options.order === 'strict';
+    const unordered = options.order === 'any';
+    const eventFields: Document = {
+      _id: 0,
+      user_id: 1,
+      ...(bySession ? { session_id: SessionModel.toSessionIdExpression() } : {}),
+      date: 1,
+      matches: steps.map((step) => FunnelModel.toStepExpression(step)),
+    };
+    const pushedFields: Document = { date: '$date', matches: '$matches' };
+    const exclusions = options.exclusions ?? [];
+    if (unordered && exclusions.length > 0) {
+      throw new Error('Exclusions require an ordered funnel');
+    }
+
+    const userFields: Document = {
+      ...(bySession ? { user_id: 1 } : {}),
+      [exclusions.length > 0 ? 'progress' : 'paths']: unordered
+        ? this.buildUnorderedProgressExpression(steps, options)
+        : this.buildProgressExpression(steps, options),
+    };
+
+    if (includeEventTimes) {
+      userFields.firstEventAt = { $first: '$events.date' };
+      userFields.lastEventAt = { $last: '$events.date' };
+    }
+
+    if (exclusions.length > 0) {
+      stepQueries.push(...exclusions.map((exclusion) => FunnelModel.toStepQuery(exclusion)));
+
+      eventFields.exclusions = exclusions.map((exclusion) =>
+        FunnelModel.toStepExpression(exclusion)
+      );
+      pushedFields.exclusions = '$exclusions';
+    }
+
+    if (options.breakdownBy && steps[0]) {
+      const { source, value } = FunnelModel.toBreakdownExpressions(
+        options.breakdownBy,
+        steps[0]
+      );
+
+      if (options.breakdownBy === 'landing_path') {
+        // Landing pages are rarely funnel steps, so scan first-touch events too
+        stepQueries.push({ 'content.first_view': true });
+      }
+
+      // Wrapped so a missing value is still told apart from a non-source event
+      eventFields.segment = { $cond: [source, { value: { $ifNull: [value, null] } }, null] };
+      pushedFields.segment = '$segment';
+      userFields.segment = {
+        $let: {
+          vars: {
+            first: {
+              $first: {
+                $filter: { input: '$events', cond: { $ne: ['$$this.segment', null] } },
+              },
+            },
+          },
+          in: '$$first.segment.value',
+        },
+      };
+    }
+
+    return [
+      {
+        $match: {
+          platform: 'web',
+          type: 'page_view',
+          date: { $gte: startDate, $lte: endDate },
+          ...(strict ? {} : { $or: stepQueries }),
+        },
+      },
+      { $sort: { user_id: 1, date: 1 } },
+      // Flag which steps each event satisfies before grouping to keep per-user arrays small
+      { $project: eventFields },
+      // Still sorted by user, so each session's events stay in date order.
+      // Sessions are keyed by user too, as session ids can be missing or reused
+      {
+        $group: {
+          _id: bySession ? { user_id: '$user_id', session_id: '$session_id' } : '$user_id',
+          ...(bySession ? { user_id: { $first: '$user_id' } } : {}),
+          events: { $push: pushedFields },
+        },
+      },
+      ...(strict
+        ? [
+            // A path can only be extended by the page view right after its last step
+            {
+              $addFields: {
+                events: {
+                  $map: {
+                    input: { $range: [0, { $size: '$events' }] },
+                    as: 'i',
+                    in: {
+                      $mergeObjects: [
+                        { $arrayElemAt: ['$events', '$$i'] },
+                        {
+                          previous: {
+                            $cond: [
+                              { $eq: ['$$i', 0] },
+                              null,
+                              { $arrayElemAt: ['$events.date', { $subtract: ['$$i', 1] }] },
+                            ],
+                          },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          ]
+        : []),
+      { $project: userFields },
+      ...(exclusions.length > 0
+        ? [
+            // Drop users whose furthest progress was disqualified by an exclusion,
+            // i.e. a discarded path got further than any path that survived
+            {
+              $match: {
+                $expr: {
+                  $lte: [
+                    '$progress.discarded',
+                    {
+                      $max: {
+                        $map: {
+                          input: { $range: [0, steps.length] },
+                          as: 'k',
+                          in: {
+                            $cond: [
+                              { $isArray: { $arrayElemAt: ['$progress.paths', '$$k'] } },
+                              '$$k',
+                              -1,
+                            ],
+                          },
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+            // A later excluded attempt can discard the lower steps of a path that
+            // survived further, so those steps are restored from that path
+            {
+              $addFields: {
+                paths: {
+                  $map: {
+                    input: { $range: [0, steps.length] },
+                    as: 'k',
+                    in: {
+                      $let: {
+                        vars: {
+                          path: { $arrayElemAt: ['$progress.paths', '$$k'] },
+                          later: {
+                            $arrayElemAt: [
+                              {
+                                $filter: {
+                                  input: {
+                                    $slice: ['$progress.paths', { $add: ['$$k', 1] }, steps.length],
+                                  },
+                                  as: 'later',
+                                  cond: {
+                                    $and: [
+                                      { $isArray: '$$later' },
+                                      { $ne: [{ $arrayElemAt: ['$$later', '$$k'] }, null] },
+                                    ],
+                                  },
+                                },
+                              },
+                              0,
+                            ],
+                          },
+                        },
+                        in: {
+                          $cond: [
+                            { $isArray: '$$path' },
+                            '$$path',
+                            {
+                              $cond: [
+                                { $isArray: '$$later' },
+                                { $slice: ['$$later', { $add: ['$$k', 1] }] },
+                                null,
+                              ],
+                            },
+                          ],
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            { $project: { progress: 0 } },
+          ]
+        : []),
+      // Time from the previous reached step to step k (skipped optional steps are null)
+      ...(unordered
+        ? []
+        : [
+            {
+              $addFields: {
+                durations: Array.from({ length: steps.length }, (_value, k) =>
+                  k === 0
+                    ? null
+                    : {
+                        $let: {
+                          vars: { path: { $arrayElemAt: ['$paths', k] } },
+                          in: {
+                            $cond: [
+                              { $not: [{ $isArray: '$$path' }] },
+                              null,
+                              {
+                                $subtract: [
+                                  { $arrayElemAt: ['$$path', k] },
+                                  { $max: { $slice: ['$$path', k] } },
+                                ],
+                              },
+                            ],
+                          },
+                        },
+                      }
+                ),
+              },
+            },
+          ]),
+    ];
+  }
+
+  /**
+   * Build the $reduce expression that replays a user's events in order
+   *
+   * For every step k we keep the path with the latest step 1 start that reached k.
+   * An event extends the path at k-1 into k when it matches step k, happens after
+   * the path's last event and falls inside the conversion window. Every k is
+   * computed from the previous state, so one event never satisfies two steps.
+   * Keeping the latest start gives every later step the most room in the window.
+   * A path can also extend across optional steps, recording null for each one skipped,
+   * so whether a path exists is tested with $isArray rather than a comparison with null.
+   * In strict order the event must also directly follow the path's last event.
+   *
+   * With exclusions, an excluded event discards the paths that are between the
+   * exclusion's steps, and the state becomes { paths, discarded } where discarded
+   * is the furthest step a discarded path had reached (-1 when none was).
+   */
+  private buildProgressExpression(
+    steps: FunnelStepConfig[],
+    options: FunnelQueryOptions
+  ): Document {
+    const stepCount = steps.length;
+    const exclusions = options.exclusions ?? [];
+    const hasExclusions = exclusions.length > 0;
+    const paths = hasExclusions ? '$$value.paths' : '$$value';
+
+    // Steps a path can extend from into step k: k-1, and further back across optional steps
+    const predecessors = steps.map((_step, k) => {
+      const levels: number[] = [];
+      for (let j = k - 1; j >= 0; j--) {
+        levels.push(j);
+        if (!steps[j]?.optional) {
+          break;
+        }
+      }
+      return levels;
+    });
+
+    const candidateConditions: Document[] = [
+      { $isArray: '$$candidate' },
+      // Paths are in date order, so the max is the last reached step's time
+      { $gt: ['$$this.date', { $max: '$$candidate' }] },
+    ];
+
+    if (options.conversionWindowMs !== undefined) {
+      candidateConditions.push({
+        $lte: [
+          { $subtract: ['$$this.date', { $first: '$$candidate' }] },
+          options.conversionWindowMs,
+        ],
+      });
+    }
+
+    if (options.order === 'strict') {
+      candidateConditions.push({ $eq: [{ $max: '$$candidate' }, '$$this.previous'] });
+    }
+
+    // Predecessor paths padded with null for skipped steps, keeping the latest step 1
+    // start among those the event can extend (ties keep the path with fewer skips)
+    const previousPath = {
+      $reduce: {
+        input: {
+          $filter: {
+            input: {
+              $map: {
+                input: { $arrayElemAt: [{ $literal: predecessors }, '$$k'] },
+                as: 'j',
+                in: {
+                  $let: {
+                    vars: { path: { $arrayElemAt: [paths, '$$j'] } },
+                    in: {
+                      $cond: [
+                        { $not: [{ $isArray: '$$path' }] },
+                        null,
+                        {
+                          $concatArrays: [
+                            '$$path',
+                            {
+                              $map: {
+                                input: { $range: [{ $add: ['$$j', 1] }, '$$k'] },
+                                in: null,
+                              },
+                            },
+                          ],
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+            as: 'candidate',
+            cond: { $and: candidateConditions },
+          },
+        },
+        initialValue: null,
+        in: {
+          $cond: [
+            {
+              $or: [
+                { $not: [{ $isArray: '$$value' }] },
+                { $gt: [{ $first: '$$this' }, { $first: '$$value' }] },
+              ],
+            },
+            '$$this',
+            '$$value',
+          ],
+        },
+      },
+    };
+    const currentPath = { $arrayElemAt: [paths, '$$k'] };
+    const matchesStep = { $arrayElemAt: ['$$this.matches', '$$k'] };
+
+    // True when the event matches an exclusion covering step k and the path at k
+    // has not already reached the exclusion's end step (same step 1 start)
+    const excludesPath = {
+      $anyElementTrue: [
+        {
+          $map: {
+            input: { $range: [0, exclusions.length] },
+            as: 'e',
+            in: {
+              $let: {
+                vars: {
+                  to: { $arrayElemAt: [{ $literal: exclusions.map((e) => e.toStep) }, '$$e'] },
+                },
+                in: {
+                  $and: [
+                    { $arrayElemAt: ['$$this.exclusions', '$$e'] },
+                    {
+                      $lte: [
+                        { $arrayElemAt: [{ $literal: exclusions.map((e) => e.fromStep) }, '$$e'] },
+                        '$$k',
+                      ],
+                    },
+                    { $lt: ['$$k', '$$to'] },
+                    {
+                      $ne: [
+                        { $first: { $arrayElemAt: [paths, '$$to'] } },
+                        { $first: currentPath },
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      ],
+    };
+    // Paths that don't advance on this event are kept unless the event excludes them
+    const keptPath = hasExclusions ? { $cond: [excludesPath, null, currentPath] } : currentPath;
+
+    const extendConditions: Document[] = [
+      matchesStep,
+      {
+        $or: [
+          { $not: [{ $isArray: '$$cur' }] },
+          { $gt: [{ $first: '$$prev' }, { $first: '$$cur' }] },
+        ],
+      },
+    ];
+
+    const nextPaths = {
+      $map: {
+        input: { $range: [0, stepCount] },
+        as: 'k',
+        in: {
+          $cond: [
+            { $eq: ['$$k', 0] },
+            // Step 1: every matching event starts a fresh path
+            {
+              $cond: [matchesStep, ['$$this.date'], keptPath],
+            },
+            {
+              $let: {
+                vars: { prev: previousPath, cur: currentPath },
+                in: {
+                  $cond: [
+                    {
+                      $cond: [
+                        { $not: [{ $isArray: '$$prev' }] },
+                        false,
+                        { $and: extendConditions },
+                      ],
+                    },
+                    { $concatArrays: ['$$prev', ['$$this.date']] },
+                    keptPath,
+                  ],
+                },
+              },
+            },
+          ],
+        },
+      },
+    };
+
+    const initialPaths = Array.from({ length: stepCount }, () => null);
+
+    if (!hasExclusions) {
+      return {
+        $reduce: { input: '$events', initialValue: initialPaths, in: nextPaths },
+      };
+    }
+
+    return {
+      $reduce: {
+        input: '$events',
+        initialValue: { paths: initialPaths, discarded: -1 },
+        in: {
+          $let: {
+            vars: { next: nextPaths },
+            in: {
+              paths: '$$next',
+              // Only an exclusion turns a reached step back into null
+              discarded: {
+                $max: [
+                  '$$value.discarded',
+                  {
+                    $max: {
+                      $map: {
+                        input: { $range: [0, stepCount] },
+                        as: 'k',
+                        in: {
+                          $cond: [
+                            {
+                              $and: [
+                                { $isArray: { $arrayElemAt: ['$$value.paths', '$$k'] } },
+                                { $not: [{ $isArray: { $arrayElemAt: ['$$next', '$$k'] } }] },
+                              ],
+                            },
+                            '$$k',
+                            -1,
+                          ],
+                        },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Build the expression that computes a user's progress through an unordered funnel
+   *
+   * Step k is reached when the user matched every required step up to k, in any
+   * order. With a conversion window, all of those events must fall in one window
+   * starting at one of the user's events, so each event is tried as the window start.
+   * paths[k] holds the earliest matching date of each step up to k within the
+   * first window that reaches k (null for skipped optional steps), like the
+   * ordered funnel's paths but not in date order.
+   */
+  private buildUnorderedProgressExpression(
+    steps: FunnelStepConfig[],
+    options: FunnelQueryOptions
+  ): Document {
+    const windowMs = options.conversionWindowMs;
+    const matchedConditions: Document[] = [{ $arrayElemAt: ['$$event.matches', '$$j'] }];
+
+    if (windowMs !== undefined) {
+      matchedConditions.push(
+        { $gte: ['$$event.date', '$$start'] },
+        { $lte: [{ $subtract: ['$$event.date', '$$start'] }, windowMs] }
+      );
+    }
+
+    // Earliest date per step within the window, null when the step wasn't matched
+    const windowDates = {
+      $map: {
+        input: { $range: [0, steps.length] },
+        as: 'j',
+        in: {
+          $min: {
+            $map: {
+              input: {
+                $filter: { input: '$events', as: 'event', cond: { $and: matchedConditions } },
+              },
+              as: 'event',
+              in: '$$event.date',
+            },
+          },
+        },
+      },
+    };
+
+    const reachesStep = {
+      $allElementsTrue: [
+        {
+          $map: {
+            input: { $range: [0, { $add: ['$$k', 1] }] },
+            as: 'j',
+            in: {
+              $or: [
+                { $arrayElemAt: [{ $literal: steps.map((step) => !!step.optional) }, '$$j'] },
+                { $ne: [{ $arrayElemAt: ['$$dates', '$$j'] }, null] },
+              ],
+            },
+          },
+        },
+      ],
+    };
+
+    return {
+      $let: {
+        vars: {
+          windows: {
+            $map: {
+              input: windowMs !== undefined ? '$events.date' : [null],
+              as: 'start',
+              in: windowDates,
+            },
+          },
+        },
+        in: {
+          $map: {
+            input: { $range: [0, steps.length] },
+            as: 'k',
+            in: {
+              $ifNull: [
+                {
+                  $arrayElemAt: [
+                    {
+                      $filter: {
+                        input: {
+                          $map: {
+                            input: '$$windows',
+                            as: 'dates',
+                            in: {
+                              $cond: [
+                                reachesStep,
+                                { $slice: ['$$dates', { $add: ['$$k', 1] }] },
+                                null,
+                              ],
+                            },
+                          },
+                        },
+                        cond: { $isArray: '$$this' },
+                      },
+                    },
+                    0,
+                  ],
+                },
+                null,
+              ],
+            },
+          },
+        },
+      },
+    };
+  }
+
   /**
    * Build MongoDB query from filters
    * Always includes platform: 'web' filter
@@ -0,0 +1,186 @@
+import { Collection, Db, type Document } from 'mongodb';
+import logger from '@/lib/logger';
+import type { EventDocument } from '@/models/event.model';
+import type { PathTransitionMetrics } from '@/models/path.model';
+import { SessionModel, SESSION_TIMEOUT_MS } from '@/models/session.model';
+import type { PathAnchor } from '@trainwell-funnel/shared';
+
+/**
+ * Path Repository - Data Access Layer for page flow analysis
+ * Responsible for executing MongoDB queries over session page sequences
+ */
+export class PathRepository {
+  private collection: Collection<EventDocument>;
+
+  /**
+   * Constructor with dependency injection
+   * @param db - MongoDB database instance (injected)
+   */
+  constructor(db: Db) {
+    this.collection = db.collection<EventDocument>('events');
+  }
+
+  /**
+   * Count the most common page-to-page transitions around an anchor page
+   * Each session's page views are replayed in order, with repeated views of the
+   * same page collapsed into one step. The sequence starts (or ends) at the
+   * session's first view of the anchor page and spans up to depth more pages.
+   * Steps are columns from left to right, so in end mode the anchor is at column depth
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param anchor - Whether paths start or end at the page
+   * @param page - Anchor page path
+   * @param depth - Pages to follow from the anchor page
+   * @param limit - Transitions kept per step
+   */
+  async getPathTransitions(
+    startDate: Date,
+    endDate: Date,
+    anchor: PathAnchor,
+    page: string,
+    depth: number,
+    limit: number
+  ): Promise<PathTransitionMetrics> {
+    const timer = logger.startTimer();
+
+    try {
+      const anchorIndex = { $indexOfArray: ['$pages', page] };
+
+      // Offset of the sequence's first page, so the anchor lands in its column
+      const sequence: Document =
+        anchor === 'start'
+          ? {
+              pages: { $slice: ['$pages', anchorIndex, depth + 1] },
+              offset: { $literal: 0 },
+            }
+          : {
+              $let: {
+                vars: {
+                  index: anchorIndex,
+                  from: { $max: [0, { $subtract: [anchorIndex, depth] }] },
+                },
+                in: {
+                  pages: {
+                    $slice: [
+                      '$pages',
+                      '$$from',
+                      { $add: [{ $subtract: ['$$index', '$$from'] }, 1] },
+                    ],
+                  },
+                  offset: { $subtract: [depth, { $subtract: ['$$index', '$$from'] }] },
+                },
+              },
+            };
+
+      const pipeline: Document[] = [
+        {
+          $match: {
+            platform: 'web',
+            type: 'page_view',
+            date: { $gte: startDate, $lte: endDate },
+          },
+        },
+        // The same sessions as everywhere else, each with its pages in order
+        ...SessionModel.toSessionStages(SESSION_TIMEOUT_MS, undefined, '$content.path'),
+        // Only sessions that viewed the anchor page
+        { $match: { events: page } },
+        // Reloads and repeated views of the same page collapse into one step
+        {
+          $project: {
+            pages: {
+              $reduce: {
+                input: '$events',
+                initialValue: [],
+                in: {
+                  $cond: [
+                    { $eq: [{ $arrayElemAt: ['$$value', -1] }, '$$this'] },
+                    '$$value',
+                    { $concatArrays: ['$$value', ['$$this']] },
+                  ],
+                },
+              },
+            },
+          },
+        },
+        { $project: { sequence } },
+        {
+          $facet: {
+            totals: [{ $count: 'sessions' }],
+            transitions: [
+              {
+                $project: {
+                  transitions: {
+                    $map: {
+                      input: { $range: [0, { $subtract: [{ $size: '$sequence.pages' }, 1] }] },
+                      as: 'i',
+                      in: {
+                        step: { $add: ['$$i', '$sequence.offset'] },
+                        source: { $arrayElemAt: ['$sequence.pages', '$$i'] },
+                        target: { $arrayElemAt: ['$sequence.pages', { $add: ['$$i', 1] }] },
+                      },
+                    },
+                  },
+                },
+              },
+              { $unwind: '$transitions' },
+              { $group: { _id: '$transitions', sessions: { $sum: 1 } } },
+              { $sort: { sessions: -1, '_id.source': 1, '_id.target': 1 } },
+              // Still sorted, so each step keeps its most common transitions
+              {
+                $group: {
+                  _id: '$_id.step',
+                  transitions: {
+                    $push: {
+                      step: '$_id.step',
+                      source: '$_id.source',
+                      target: '$_id.target',
+                      sessions: '$sessions',
+                    },
+                  },
+                },
+              },
+              { $sort: { _id: 1 } },
+              { $project: { transitions: { $slice: ['$transitions', limit] } } },
+            ],
+          },
+        },
+      ];
+
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const metrics: PathTransitionMetrics = {
+        sessions: Number(result?.totals?.[0]?.sessions ?? 0),
+        transitions: (result?.transitions ?? []).flatMap((step: Document) =>
+          step.transitions.map((transition: Document) => ({
+            step: Number(transition.step),
+            source: transition.source,
+            target: transition.target,
+            sessions: Number(transition.sessions),
+          }))
+        ),
+      };
+
+      timer.done({
+        message: 'Repository: getPathTransitions completed',
+        operation: 'getPathTransitions',
+        anchor,
+        page,
+        depth,
+        limit,
+        sessions: metrics.sessions,
+        transitionCount: metrics.transitions.length,
+      });
+
+      return metrics;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error getting path transitions',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { Collection, Db, type Document } from 'mongodb';
+import logger from '@/lib/logger';
+import type { EventDocument } from '@/models/event.model';
+import { FunnelModel } from '@/models/funnel.model';
+import { RETENTION_INTERVAL_MS, type RetentionCohortMetrics } from '@/models/retention.model';
+import type { FunnelStepMatcher, RetentionInterval } from '@trainwell-funnel/shared';
+
+/**
+ * Retention Repository - Data Access Layer for retention analysis
+ * Responsible for executing MongoDB queries over users' start and return events
+ */
+export class RetentionRepository {
+  private collection: Collection<EventDocument>;
+
+  /**
+   * Constructor with dependency injection
+   * @param db - MongoDB database instance (injected)
+   */
+  constructor(db: Db) {
+    this.collection = db.collection<EventDocument>('events');
+  }
+
+  /**
+   * Count each cohort's users and the users returning in each period
+   * A user's cohort is the day or week of their first start event in the date range.
+   * Period N covers the Nth interval after that event, so return events are read
+   * up to periods intervals past the end of the range
+   * @param startEvent - Event that puts a user in a cohort
+   * @param returnEvent - Event that counts as returning
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param interval - Cohort and period length, cohorts are truncated in UTC
+   * @param periods - Periods tracked, including period 0
+   * @returns Cohorts sorted by date, cohorts without users omitted
+   */
+  async getRetentionCohorts(
+    startEvent: FunnelStepMatcher,
+    returnEvent: FunnelStepMatcher,
+    startDate: Date,
+    endDate: Date,
+    interval: RetentionInterval,
+    periods: number
+  ): Promise<RetentionCohortMetrics[]> {
+    const timer = logger.startTimer();
+
+    try {
+      const intervalMs = RETENTION_INTERVAL_MS[interval];
+      const observedUntil = new Date(endDate.getTime() + periods * intervalMs);
+
+      const pipeline: Document[] = [
+        {
+          $match: {
+            platform: 'web',
+            type: 'page_view',
+            date: { $gte: startDate, $lte: observedUntil },
+            $or: [FunnelModel.toStepQuery(startEvent), FunnelModel.toStepQuery(returnEvent)],
+          },
+        },
+        // Flag both events before grouping to keep per-user arrays small
+        {
+          $project: {
+            _id: 0,
+            user_id: 1,
+            date: 1,
+            isStart: {
+              $and: [
+                FunnelModel.toStepExpression(startEvent),
+                { $lte: ['$date', endDate] },
+              ],
+            },
+            isReturn: FunnelModel.toStepExpression(returnEvent),
+          },
+        },
+        {
+          $group: {
+            _id: '$user_id',
+            starts: { $push: { $cond: ['$isStart', '$date', null] } },
+            returns: { $push: { $cond: ['$isReturn', '$date', null] } },
+          },
+        },
+        { $addFields: { firstStart: { $min: '$starts' } } },
+        // Users who only returned never entered a cohort
+        { $match: { firstStart: { $type: 'date' } } },
+        {
+          $project: {
+            cohort: { $dateTrunc: { date: '$firstStart', unit: interval, startOfWeek: 'monday' } },
+            // Each period the user returned in, once. The start event itself never counts
+            periods: {
+              $setUnion: [
+                {
+                  $map: {
+                    input: {
+                      $filter: {
+                        input: '$returns',
+                        cond: {
+                          $and: [
+                            { $gt: ['$$this', '$firstStart'] },
+                            {
+                              $lt: [
+                                { $subtract: ['$$this', '$firstStart'] },
+                                periods * intervalMs,
+                              ],
+                            },
+                          ],
+                        },
+                      },
+                    },
+                    in: {
+                      $floor: {
+                        $divide: [{ $subtract: ['$$this', '$firstStart'] }, intervalMs],
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+        // A null entry stands for the user themselves, so one $group counts cohort sizes too
+        { $project: { cohort: 1, periods: { $concatArrays: [[null], '$periods'] } } },
+        { $unwind: '$periods' },
+        { $group: { _id: { cohort: '$cohort', period: '$periods' }, users: { $sum: 1 } } },
+        {
+          $group: {
+            _id: '$_id.cohort',
+            counts: { $push: { period: '$_id.period', users: '$users' } },
+          },
+        },
+        { $sort: { _id: 1 } },
+      ];
+
+      const results = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const cohorts: RetentionCohortMetrics[] = results.map((result) => {
+        const retained: number[] = new Array(periods).fill(0);
+        let users = 0;
+
+        for (const { period, users: count } of result.counts as Document[]) {
+          if (period === null) {
+            users = Number(count);
+          } else {
+            retained[Number(period)] = Number(count);
+          }
+        }
+
+        return { cohortStart: new Date(result._id), users, retained };
+      });
+
+      timer.done({
+        message: 'Repository: getRetentionCohorts completed',
+        operation: 'getRetentionCohorts',
+        interval,
+        periods,
+        cohortCount: cohorts.length,
+      });
+
+      return cohorts;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error getting retention cohorts',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
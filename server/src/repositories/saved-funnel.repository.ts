@@ -0,0 +1,162 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import logger from '@/lib/logger';
+import type { SavedFunnelDocument, SavedFunnelFields } from '@/models/saved-funnel.model';
+
+/**
+ * Saved Funnel Repository - Data Access Layer for saved funnels
+ * Responsible for reading and writing the funnels collection
+ */
+export class SavedFunnelRepository {
+  private collection: Collection<SavedFunnelDocument>;
+
+  /**
+   * Constructor with dependency injection
+   * @param db - MongoDB database instance (injected)
+   */
+  constructor(db: Db) {
+    this.collection = db.collection<SavedFunnelDocument>('funnels');
+  }
+
+  /**
+   * Find all saved funnels, most recently updated first
+   */
+  async findAll(): Promise<SavedFunnelDocument[]> {
+    const timer = logger.startTimer();
+    try {
+      const funnels = await this.collection.find().sort({ updatedAt: -1, _id: -1 }).toArray();
+
+      timer.done({
+        message: 'Repository: findAll saved funnels completed',
+        operation: 'findAllSavedFunnels',
+        count: funnels.length,
+      });
+
+      return funnels;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error finding saved funnels',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a saved funnel by ID
+   */
+  async findById(id: string): Promise<SavedFunnelDocument | null> {
+    const timer = logger.startTimer();
+    try {
+      const funnel = await this.collection.findOne({ _id: new ObjectId(id) });
+
+      timer.done({
+        message: 'Repository: findById saved funnel completed',
+        operation: 'findSavedFunnelById',
+        id,
+        found: !!funnel,
+      });
+
+      return funnel;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: `Repository: Error finding saved funnel by ID ${id}`,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Insert a new saved funnel
+   * @returns The stored document
+   */
+  async create(fields: SavedFunnelFields): Promise<SavedFunnelDocument> {
+    const timer = logger.startTimer();
+    try {
+      const now = new Date();
+      const document: SavedFunnelDocument = {
+        _id: new ObjectId(),
+        ...fields,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.collection.insertOne(document);
+
+      timer.done({
+        message: 'Repository: create saved funnel completed',
+        operation: 'createSavedFunnel',
+        id: document._id.toString(),
+      });
+
+      return document;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error creating saved funnel',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a saved funnel's fields, keeping its creation date
+   * @returns The updated document, or null when it doesn't exist
+   */
+  async update(id: string, fields: SavedFunnelFields): Promise<SavedFunnelDocument | null> {
+    const timer = logger.startTimer();
+    try {
+      const funnel = await this.collection.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: { ...fields, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+
+      timer.done({
+        message: 'Repository: update saved funnel completed',
+        operation: 'updateSavedFunnel',
+        id,
+        found: !!funnel,
+      });
+
+      return funnel;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: `Repository: Error updating saved funnel ${id}`,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a saved funnel
+   * @returns true when a funnel was deleted
+   */
+  async delete(id: string): Promise<boolean> {
+    const timer = logger.startTimer();
+    try {
+      const { deletedCount } = await this.collection.deleteOne({ _id: new ObjectId(id) });
+
+      timer.done({
+        message: 'Repository: delete saved funnel completed',
+        operation: 'deleteSavedFunnel',
+        id,
+        deleted: deletedCount > 0,
+      });
+
+      return deletedCount > 0;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: `Repository: Error deleting saved funnel ${id}`,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
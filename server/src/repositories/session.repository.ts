@@ -0,0 +1,146 @@
+import { Collection, Db, type Document } from 'mongodb';
+import logger from '@/lib/logger';
+import type { EventDocument } from '@/models/event.model';
+import {
+  SessionModel,
+  type SessionMetrics,
+  type SessionQueryFilters,
+} from '@/models/session.model';
+
+/**
+ * Session Repository - Data Access Layer for reconstructed sessions
+ * Responsible for executing MongoDB queries that derive sessions from events
+ */
+export class SessionRepository {
+  private collection: Collection<EventDocument>;
+
+  /**
+   * Constructor with dependency injection
+   * @param db - MongoDB database instance (injected)
+   */
+  constructor(db: Db) {
+    this.collection = db.collection<EventDocument>('events');
+  }
+
+  /**
+   * Reconstruct the sessions in a date range and page through them
+   * Stats cover every session matching the filters, not just the page
+   * @param startDate - Start of the date range
+   * @param endDate - End of the date range
+   * @param filters - Session filters
+   * @param limit - Sessions per page
+   * @param skip - Sessions to skip, most recent first
+   */
+  async findSessions(
+    startDate: Date,
+    endDate: Date,
+    filters: SessionQueryFilters,
+    limit: number,
+    skip: number
+  ): Promise<SessionMetrics> {
+    const timer = logger.startTimer();
+
+    try {
+      const match: Document = {
+        platform: 'web',
+        type: 'page_view',
+        date: { $gte: startDate, $lte: endDate },
+      };
+      if (filters.user_id) {
+        match.user_id = filters.user_id;
+      }
+
+      const sessionMatch: Document = {};
+      if (filters.hostname) {
+        sessionMatch.hostname = filters.hostname;
+      }
+      if (filters.entryPage) {
+        sessionMatch.entryPage = filters.entryPage;
+      }
+      if (filters.exitPage) {
+        sessionMatch.exitPage = filters.exitPage;
+      }
+      if (filters.bounced !== undefined) {
+        sessionMatch.bounced = filters.bounced;
+      }
+
+      const pipeline: Document[] = [
+        { $match: match },
+        ...SessionModel.toSessionStages(),
+        ...(Object.keys(sessionMatch).length > 0 ? [{ $match: sessionMatch }] : []),
+        {
+          $facet: {
+            totals: [
+              // Per user first, so users are counted without collecting their ids
+              {
+                $group: {
+                  _id: '$user_id',
+                  sessions: { $sum: 1 },
+                  duration: { $sum: '$duration' },
+                  pageCount: { $sum: '$pageCount' },
+                  bounces: { $sum: { $cond: ['$bounced', 1, 0] } },
+                },
+              },
+              {
+                $group: {
+                  _id: null,
+                  sessions: { $sum: '$sessions' },
+                  users: { $sum: 1 },
+                  duration: { $sum: '$duration' },
+                  pageCount: { $sum: '$pageCount' },
+                  bounces: { $sum: '$bounces' },
+                },
+              },
+              {
+                $project: {
+                  sessions: 1,
+                  users: 1,
+                  avgDuration: { $divide: ['$duration', '$sessions'] },
+                  avgPageCount: { $divide: ['$pageCount', '$sessions'] },
+                  bounces: 1,
+                },
+              },
+            ],
+            sessions: [
+              { $sort: { start: -1, user_id: 1 } },
+              { $skip: skip },
+              { $limit: limit },
+            ],
+          },
+        },
+      ];
+
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+
+      const totals = result?.totals?.[0];
+      const metrics: SessionMetrics = {
+        totalSessions: Number(totals?.sessions ?? 0),
+        totalUsers: Number(totals?.users ?? 0),
+        avgDuration: Number(totals?.avgDuration ?? 0),
+        avgPageCount: Number(totals?.avgPageCount ?? 0),
+        bounces: Number(totals?.bounces ?? 0),
+        sessions: result?.sessions ?? [],
+      };
+
+      timer.done({
+        message: 'Repository: findSessions completed',
+        operation: 'findSessions',
+        filters,
+        limit,
+        skip,
+        totalSessions: metrics.totalSessions,
+      });
+
+      return metrics;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error finding sessions',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
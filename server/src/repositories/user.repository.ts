@@ -0,0 +1,149 @@
+import { Collection, Db, type Document } from 'mongodb';
+import logger from '@/lib/logger';
+import type { EventDocument } from '@/models/event.model';
+import { SessionModel, type SessionDocument } from '@/models/session.model';
+import type { UserTimelineMetrics } from '@/models/user.model';
+
+/**
+ * User Repository - Data Access Layer for single user journeys
+ * Responsible for executing MongoDB queries over one user's events
+ */
+export class UserRepository {
+  private collection: Collection<EventDocument>;
+
+  /**
+   * Constructor with dependency injection
+   * @param db - MongoDB database instance (injected)
+   */
+  constructor(db: Db) {
+    this.collection = db.collection<EventDocument>('events');
+  }
+
+  /**
+   * Get a user's events grouped by session
+   * Sessions are reconstructed like everywhere else, so events without a session
+   * id, or reusing one after the inactivity timeout, are split into separate
+   * visits. They are ordered by their first event, most recent first, and only
+   * the most recent ones are returned. Totals cover all of the user's sessions
+   * @param userId - User to look up
+   * @param limit - Most recent sessions returned
+   */
+  async getTimeline(userId: string, limit: number): Promise<UserTimelineMetrics> {
+    const timer = logger.startTimer();
+
+    try {
+      // Sessions come first without their events, so only the returned ones load them
+      const pipeline: Document[] = [
+        { $match: { platform: 'web', user_id: userId } },
+        // The same sessions as everywhere else
+        ...SessionModel.toSessionStages(),
+        {
+          $facet: {
+            totals: [
+              {
+                $group: {
+                  _id: null,
+                  sessions: { $sum: 1 },
+                  events: { $sum: '$pageCount' },
+                  firstSeen: { $min: '$start' },
+                  lastSeen: { $max: '$end' },
+                },
+              },
+            ],
+            sessions: [{ $sort: { start: -1, sessionId: 1 } }, { $limit: limit }],
+          },
+        },
+      ];
+
+      const [result] = await this.collection
+        .aggregate(pipeline, { allowDiskUse: true })
+        .toArray();
+      const sessions: SessionDocument[] = result?.sessions ?? [];
+
+      const events = (
+        sessions.length > 0
+          ? await this.collection
+              .aggregate(
+                [
+                  {
+                    $match: {
+                      platform: 'web',
+                      user_id: userId,
+                      $or: sessions.map((session) => ({
+                        session_id: session.sessionId ?? { $in: [null, ''] },
+                        date: { $gte: session.start, $lte: session.end },
+                      })),
+                    },
+                  },
+                  { $sort: { date: 1, _id: 1 } },
+                  // Only the fields of an event DTO
+                  {
+                    $project: {
+                      user_id: 1,
+                      session_id: 1,
+                      device_id: 1,
+                      platform: 1,
+                      type: 1,
+                      date: 1,
+                      'content.path': 1,
+                      'content.first_view': 1,
+                      'content.hostname': 1,
+                      'content.queryString': 1,
+                      'content.utm': 1,
+                      version: 1,
+                    },
+                  },
+                ],
+                { allowDiskUse: true }
+              )
+              .toArray()
+          : []
+      ) as EventDocument[];
+
+      // A user's sessions with the same id never overlap, so id and dates place each event
+      const sessionEvents = sessions.map((): EventDocument[] => []);
+      for (const event of events) {
+        const sessionId = event.session_id || null;
+        const index = sessions.findIndex(
+          (session) =>
+            session.sessionId === sessionId &&
+            event.date >= session.start &&
+            event.date <= session.end
+        );
+        sessionEvents[index]?.push(event);
+      }
+
+      const totals = result?.totals?.[0];
+      const metrics: UserTimelineMetrics = {
+        totalSessions: Number(totals?.sessions ?? 0),
+        totalEvents: Number(totals?.events ?? 0),
+        firstSeen: totals?.firstSeen ?? null,
+        lastSeen: totals?.lastSeen ?? null,
+        sessions: sessions.map((session, index) => ({
+          sessionId: session.sessionId,
+          start: session.start,
+          end: session.end,
+          events: sessionEvents[index]!,
+        })),
+      };
+
+      timer.done({
+        message: 'Repository: getTimeline completed',
+        operation: 'getTimeline',
+        userId,
+        limit,
+        totalSessions: metrics.totalSessions,
+        totalEvents: metrics.totalEvents,
+      });
+
+      return metrics;
+    } catch (error) {
+      timer.done({
+        level: 'error',
+        message: 'Repository: Error getting user timeline',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
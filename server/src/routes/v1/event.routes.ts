@@ -17,6 +17,22 @@ export function createEventRoutes(eventController: EventController): Router {
    */
   router.post('/funnel', eventController.analyzeFunnel);
 
+  /**
+   * @route   POST /api/v1/events/funnel/users
+   * @desc    List the users who reached a funnel step or dropped off after it
+   * @body    { steps, startDate, endDate, stepIndex, status: 'converted' | 'dropped', limit?, skip? }
+   * @access  Public
+   */
+  router.post('/funnel/users', eventController.getFunnelUsers);
+
+  /**
+   * @route   POST /api/v1/events/funnel/next-pages
+   * @desc    Most common pages visited after dropping off at a funnel step
+   * @body    { steps, startDate, endDate, stepIndex, limit? }
+   * @access  Public
+   */
+  router.post('/funnel/next-pages', eventController.getFunnelNextPages);
+
   /**
    * @route   GET /api/v1/events/:id
    * @desc    Get a single event by ID (web platform only)
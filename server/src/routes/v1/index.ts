@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import { createEventRoutes } from '@/routes/v1/event.routes';
 import { createCampaignRoutes } from '@/routes/v1/campaign.routes';
+import { createPathRoutes } from '@/routes/v1/path.routes';
+import { createRetentionRoutes } from '@/routes/v1/retention.routes';
+import { createSavedFunnelRoutes } from '@/routes/v1/saved-funnel.routes';
+import { createUserRoutes } from '@/routes/v1/user.routes';
+import { createSessionRoutes } from '@/routes/v1/session.routes';
 import type { DependencyContainer } from '@/dependencies';
 
 /**
@@ -19,5 +24,25 @@ export function createV1Routes(dependencies: DependencyContainer): Router {
   const campaignRoutes = createCampaignRoutes(dependencies.campaignController);
   router.use('/campaigns', campaignRoutes);
 
+  // Mount path routes with injected controller
+  const pathRoutes = createPathRoutes(dependencies.pathController);
+  router.use('/paths', pathRoutes);
+
+  // Mount retention routes with injected controller
+  const retentionRoutes = createRetentionRoutes(dependencies.retentionController);
+  router.use('/retention', retentionRoutes);
+
+  // Mount saved funnel routes with injected controller
+  const savedFunnelRoutes = createSavedFunnelRoutes(dependencies.savedFunnelController);
+  router.use('/funnels', savedFunnelRoutes);
+
+  // Mount user routes with injected controller
+  const userRoutes = createUserRoutes(dependencies.userController);
+  router.use('/users', userRoutes);
+
+  // Mount session routes with injected controller
+  const sessionRoutes = createSessionRoutes(dependencies.sessionController);
+  router.use('/sessions', sessionRoutes);
+
   return router;
 }
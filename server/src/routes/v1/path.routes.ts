@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { PathController } from '@/controllers/path.controller';
+
+/**
+ * Path Routes Factory - v1
+ * Creates routes for page flow endpoints with injected dependencies
+ * @param pathController - Injected PathController instance
+ */
+export function createPathRoutes(pathController: PathController): Router {
+  const router = Router();
+
+  /**
+   * @route   POST /api/v1/paths/analyze
+   * @desc    Top page-to-page transitions starting or ending at a page, as Sankey nodes and links
+   * @body    { startDate, endDate, anchor: 'start' | 'end', page, depth?, limit? }
+   * @access  Public
+   */
+  router.post('/analyze', pathController.analyzePaths);
+
+  return router;
+}
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { RetentionController } from '@/controllers/retention.controller';
+
+/**
+ * Retention Routes Factory - v1
+ * Creates routes for retention endpoints with injected dependencies
+ * @param retentionController - Injected RetentionController instance
+ */
+export function createRetentionRoutes(retentionController: RetentionController): Router {
+  const router = Router();
+
+  /**
+   * @route   POST /api/v1/retention/analyze
+   * @desc    Share of each start event cohort returning in each day or week after it
+   * @body    { startDate, endDate, startEvent, returnEvent, interval?: 'day' | 'week', periods? }
+   * @access  Public
+   */
+  router.post('/analyze', retentionController.analyzeRetention);
+
+  return router;
+}
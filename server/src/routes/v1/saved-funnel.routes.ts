@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import type { SavedFunnelController } from '@/controllers/saved-funnel.controller';
+
+/**
+ * Saved Funnel Routes Factory - v1
+ * Creates routes for saved funnel endpoints with injected dependencies
+ * @param savedFunnelController - Injected SavedFunnelController instance
+ */
+export function createSavedFunnelRoutes(savedFunnelController: SavedFunnelController): Router {
+  const router = Router();
+
+  /**
+   * @route   GET /api/v1/funnels
+   * @desc    List saved funnels, most recently updated first
+   * @access  Public
+   */
+  router.get('/', savedFunnelController.listFunnels);
+
+  /**
+   * @route   POST /api/v1/funnels
+   * @desc    Save a new funnel
+   * @body    { name, description?, steps, dateRange?, options? }
+   * @access  Public
+   */
+  router.post('/', savedFunnelController.createFunnel);
+
+  /**
+   * @route   GET /api/v1/funnels/:id
+   * @desc    Get a single saved funnel
+   * @access  Public
+   */
+  router.get('/:id', savedFunnelController.getFunnel);
+
+  /**
+   * @route   PUT /api/v1/funnels/:id
+   * @desc    Replace a saved funnel
+   * @body    { name, description?, steps, dateRange?, options? }
+   * @access  Public
+   */
+  router.put('/:id', savedFunnelController.updateFunnel);
+
+  /**
+   * @route   DELETE /api/v1/funnels/:id
+   * @desc    Delete a saved funnel
+   * @access  Public
+   */
+  router.delete('/:id', savedFunnelController.deleteFunnel);
+
+  return router;
+}
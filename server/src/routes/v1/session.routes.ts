@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { SessionController } from '@/controllers/session.controller';
+
+/**
+ * Session Routes Factory - v1
+ * Creates routes for session endpoints with injected dependencies
+ * @param sessionController - Injected SessionController instance
+ */
+export function createSessionRoutes(sessionController: SessionController): Router {
+  const router = Router();
+
+  /**
+   * @route   GET /api/v1/sessions
+   * @desc    Sessions reconstructed from web events, most recent first, with aggregate stats
+   * @query   startDate, endDate, user_id, hostname, entryPage, exitPage, bounced, limit, skip
+   * @access  Public
+   */
+  router.get('/', sessionController.getSessions);
+
+  return router;
+}
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { UserController } from '@/controllers/user.controller';
+
+/**
+ * User Routes Factory - v1
+ * Creates routes for single user endpoints with injected dependencies
+ * @param userController - Injected UserController instance
+ */
+export function createUserRoutes(userController: UserController): Router {
+  const router = Router();
+
+  /**
+   * @route   GET /api/v1/users/:userId/timeline
+   * @desc    All of a user's events grouped by session, most recent session first
+   * @query   limit? (most recent sessions returned, default 100, max 500)
+   * @access  Public
+   */
+  router.get('/:userId/timeline', userController.getTimeline);
+
+  return router;
+}
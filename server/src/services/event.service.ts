@@ -1,7 +1,51 @@
 import { EventRepository } from '@/repositories/event.repository';
 import logger from '@/lib/logger';
-import { EventModel, type EventQueryFilters } from '@/models/event.model';
-import type { EventDTO, FunnelAnalysisRequest, FunnelStepResult } from '@trainwell-funnel/shared';
+import { EventModel, type EventPageQuery, type EventQueryFilters } from '@/models/event.model';
+import type {
+  FunnelPeriodMetrics,
+  FunnelQueryOptions,
+  FunnelSegmentMetrics,
+  FunnelStepMetrics,
+} from '@/models/funnel.model';
+import type {
+  ConversionWindow,
+  ConversionWindowUnit,
+  EventDTO,
+  FunnelAnalysisRequest,
+  FunnelBreakdown,
+  FunnelBreakdownSegment,
+  FunnelComparison,
+  FunnelComparisonRequest,
+  FunnelStepConfig,
+  FunnelStepResult,
+  FunnelSummary,
+  FunnelTrendInterval,
+  FunnelTrendPoint,
+  FunnelTrends,
+  FunnelNextPages,
+  FunnelNextPagesRequest,
+  FunnelUser,
+  FunnelUsersRequest,
+  MetricDelta,
+  TimeToConvert,
+} from '@trainwell-funnel/shared';
+
+/**
+ * Milliseconds per conversion window unit
+ */
+const CONVERSION_WINDOW_UNIT_MS: Record<ConversionWindowUnit, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Segments kept in a breakdown when the request does not say
+ */
+const DEFAULT_BREAKDOWN_LIMIT = 5;
+
+const NO_SEGMENT_VALUE = '(none)';
+const OTHER_SEGMENT_VALUE = 'Other';
 
 /**
  * Event Service - Business Logic Layer
@@ -53,26 +97,51 @@ export class EventService {
 
   /**
    * Get multiple events with filters
+   * Returns cursors for the pages either side, null when there isn't one
    */
   async getEvents(
     filters: EventQueryFilters,
     limit: number = 100,
-    skip: number = 0
-  ): Promise<{ events: EventDTO[]; total: number }> {
+    skip: number = 0,
+    page: EventPageQuery = { sort: 'desc' }
+  ): Promise<{
+    events: EventDTO[];
+    total: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  }> {
     try {
-      logger.info('Service: Getting events with filters', { filters, limit, skip });
+      logger.info('Service: Getting events with filters', { filters, limit, skip, sort: page.sort });
 
-      const [events, total] = await Promise.all([
-        this.repository.findMany(filters, limit, skip),
+      // One extra event tells whether there is another page past this one
+      const [documents, total] = await Promise.all([
+        this.repository.findMany(filters, limit + 1, skip, page),
         this.repository.count(filters),
       ]);
 
+      const hasMore = documents.length > limit;
+      // Pages before a cursor come back in sort order, so their extra event is the first one
+      const events = page.before
+        ? documents.slice(Math.max(documents.length - limit, 0))
+        : documents.slice(0, limit);
+      const first = events[0];
+      const last = events[events.length - 1];
+
+      // Paging from a cursor means there are events on the side it came from
+      const hasNext = page.before ? true : hasMore;
+      const hasPrev = page.before ? hasMore : !!page.after || skip > 0;
+
       // Serialize all events to DTOs using model
       const dtos = EventModel.toDTOs(events);
 
       logger.info(`Service: Successfully retrieved ${events.length} of ${total} events`);
 
-      return { events: dtos, total };
+      return {
+        events: dtos,
+        total,
+        nextCursor: hasNext && last ? EventModel.encodeCursor(last) : null,
+        prevCursor: hasPrev && first ? EventModel.encodeCursor(first) : null,
+      };
     } catch (error) {
       logger.error('Service: Error getting events:', error);
       throw new Error('Failed to retrieve events');
@@ -85,14 +154,23 @@ export class EventService {
    */
   async analyzeFunnel(request: FunnelAnalysisRequest): Promise<{
     steps: FunnelStepResult[];
-    summary: {
-      totalUsers: number;
-      completedUsers: number;
-      overallConversionRate: number;
-      avgStepConversionRate: number;
-    };
+    summary: FunnelSummary;
+    breakdown?: FunnelBreakdown;
+    trends?: FunnelTrends;
+    comparison?: FunnelComparison;
   }> {
-    const { steps, startDate, endDate } = request;
+    const {
+      steps,
+      startDate,
+      endDate,
+      conversionWindow,
+      breakdownBy,
+      trendInterval,
+      compareTo,
+      exclusions,
+      countBy,
+      order,
+    } = request;
 
     if (steps.length === 0) {
       throw new Error('At least one funnel step is required');
@@ -105,74 +183,548 @@ export class EventService {
       throw new Error('Invalid date format');
     }
 
+    const options = this.toQueryOptions(request);
+
     logger.info('Service: Starting funnel analysis', {
       stepCount: steps.length,
       startDate,
       endDate,
+      conversionWindow,
+      breakdownBy,
+      trendInterval,
+      compareTo,
+      exclusionCount: exclusions?.length,
+      countBy,
+      order,
     });
 
-    // Get users for each step sequentially
-    const stepResults: FunnelStepResult[] = [];
-    let previousUsers = 0;
+    const comparisonRange = compareTo
+      ? this.toComparisonRange(compareTo, startDateTime, endDateTime)
+      : undefined;
 
-    for (let i = 0; i < steps.length; i++) {
-      const users = await this.repository.getUsersCompletingSequentialSteps(
+    // The comparison range runs alongside the requested range
+    const [{ metrics, breakdown, trends }, previousMetrics] = await Promise.all([
+      this.getFunnelMetrics(request, startDateTime, endDateTime, options),
+      comparisonRange
+        ? this.repository.getFunnelStepMetrics(
+            steps,
+            comparisonRange.startDate,
+            comparisonRange.endDate,
+            options
+          )
+        : undefined,
+    ]);
+
+    const stepResults = this.buildStepResults(steps, metrics);
+    const summary = this.buildSummary(stepResults);
+
+    const comparison =
+      comparisonRange && previousMetrics
+        ? this.buildComparison(steps, stepResults, previousMetrics, comparisonRange)
+        : undefined;
+
+    logger.info('Service: Funnel analysis completed', {
+      ...summary,
+      segmentCount: breakdown?.segments.length,
+      periodCount: trends?.points.length,
+      previousTotalUsers: comparison?.summary.totalUsers,
+    });
+
+    return {
+      steps: stepResults,
+      summary,
+      ...(breakdown ? { breakdown } : {}),
+      ...(trends ? { trends } : {}),
+      ...(comparison ? { comparison } : {}),
+    };
+  }
+
+  /**
+   * List the users who reached a funnel step, or who dropped off after it
+   */
+  async getFunnelUsers(
+    request: FunnelUsersRequest
+  ): Promise<{ users: FunnelUser[]; total: number; limit: number; skip: number }> {
+    const { steps, startDate, endDate, stepIndex, status, limit = 50, skip = 0 } = request;
+
+    if (steps.length === 0) {
+      throw new Error('At least one funnel step is required');
+    }
+
+    const startDateTime = new Date(startDate);
+    const endDateTime = new Date(endDate);
+
+    if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+      throw new Error('Invalid date format');
+    }
+
+    logger.info('Service: Getting funnel users', {
+      stepCount: steps.length,
+      startDate,
+      endDate,
+      stepIndex,
+      status,
+      limit,
+      skip,
+    });
+
+    const page = await this.repository.getFunnelUsers(
+      steps,
+      startDateTime,
+      endDateTime,
+      stepIndex,
+      status,
+      limit,
+      skip,
+      this.toQueryOptions(request)
+    );
+
+    logger.info(`Service: Retrieved ${page.users.length} of ${page.total} funnel users`);
+
+    return {
+      users: page.users.map((user) => ({
+        user_id: user.user_id,
+        firstEventAt: user.firstEventAt.toISOString(),
+        lastEventAt: user.lastEventAt.toISOString(),
+      })),
+      total: page.total,
+      limit,
+      skip,
+    };
+  }
+
+  /**
+   * Find where users went after dropping off at a funnel step
+   */
+  async getFunnelNextPages(request: FunnelNextPagesRequest): Promise<FunnelNextPages> {
+    const { steps, startDate, endDate, stepIndex, limit = 10 } = request;
+
+    if (steps.length === 0) {
+      throw new Error('At least one funnel step is required');
+    }
+
+    const startDateTime = new Date(startDate);
+    const endDateTime = new Date(endDate);
+
+    if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+      throw new Error('Invalid date format');
+    }
+
+    logger.info('Service: Getting funnel next pages', {
+      stepCount: steps.length,
+      startDate,
+      endDate,
+      stepIndex,
+      limit,
+    });
+
+    const { dropped, exited, pages } = await this.repository.getFunnelNextPages(
+      steps,
+      startDateTime,
+      endDateTime,
+      stepIndex,
+      limit,
+      this.toQueryOptions(request)
+    );
+
+    logger.info(`Service: ${dropped} drop-offs at step ${stepIndex}, ${exited} exited`);
+
+    return {
+      stepIndex,
+      dropped,
+      exited,
+      pages: pages.map((page) => ({
+        ...page,
+        share: dropped > 0 ? (page.count / dropped) * 100 : 0,
+      })),
+    };
+  }
+
+  /**
+   * Repository options for a funnel request, leaving out defaults
+   */
+  private toQueryOptions(
+    request: Pick<FunnelAnalysisRequest, 'conversionWindow' | 'exclusions' | 'countBy' | 'order'>
+  ): FunnelQueryOptions {
+    const { conversionWindow, exclusions, countBy, order } = request;
+    const options: FunnelQueryOptions = {};
+
+    if (conversionWindow) {
+      options.conversionWindowMs = this.toConversionWindowMs(conversionWindow);
+    }
+    if (exclusions && exclusions.length > 0) {
+      options.exclusions = exclusions;
+    }
+    if (countBy === 'session') {
+      options.countBy = countBy;
+    }
+    if (order && order !== 'sequential') {
+      options.order = order;
+    }
+
+    return options;
+  }
+
+  /**
+   * Run the funnel aggregation matching the request's mode
+   * Breakdowns and trends return the funnel totals from the same aggregation
+   */
+  private async getFunnelMetrics(
+    request: FunnelAnalysisRequest,
+    startDateTime: Date,
+    endDateTime: Date,
+    options: FunnelQueryOptions
+  ): Promise<{ metrics: FunnelStepMetrics; breakdown?: FunnelBreakdown; trends?: FunnelTrends }> {
+    const { steps, breakdownBy, trendInterval } = request;
+
+    if (trendInterval) {
+      const { totals, periods } = await this.repository.getFunnelTrendMetrics(
         steps,
-        i,
         startDateTime,
-        endDateTime
+        endDateTime,
+        trendInterval,
+        options
       );
 
-      const userCount = users.length;
-      const totalUsers = i === 0 ? userCount : stepResults[0]?.users ?? 0;
+      return {
+        metrics: totals,
+        trends: {
+          interval: trendInterval,
+          points: this.buildTrendPoints(steps, periods, startDateTime, endDateTime, trendInterval),
+        },
+      };
+    }
+
+    if (breakdownBy) {
+      const { totals, segments } = await this.repository.getFunnelBreakdownMetrics(
+        steps,
+        startDateTime,
+        endDateTime,
+        breakdownBy,
+        options
+      );
+
+      return {
+        metrics: totals,
+        breakdown: {
+          property: breakdownBy,
+          segments: this.buildBreakdownSegments(
+            steps,
+            segments,
+            request.breakdownLimit ?? DEFAULT_BREAKDOWN_LIMIT
+          ),
+        },
+      };
+    }
+
+    // Count users reaching each step in a single aggregation
+    const metrics = await this.repository.getFunnelStepMetrics(
+      steps,
+      startDateTime,
+      endDateTime,
+      options
+    );
+    return { metrics };
+  }
+
+  /**
+   * Resolve the comparison range for a requested range
+   */
+  private toComparisonRange(
+    compareTo: FunnelComparisonRequest,
+    startDate: Date,
+    endDate: Date
+  ): { startDate: Date; endDate: Date } {
+    switch (compareTo.mode) {
+      case 'previousPeriod': {
+        // Ends just before the range starts so no event is counted twice
+        const previousEnd = new Date(startDate.getTime() - 1);
+        return {
+          startDate: new Date(previousEnd.getTime() - (endDate.getTime() - startDate.getTime())),
+          endDate: previousEnd,
+        };
+      }
+      case 'previousYear': {
+        const previousStart = new Date(startDate);
+        const previousEnd = new Date(endDate);
+        previousStart.setUTCFullYear(previousStart.getUTCFullYear() - 1);
+        previousEnd.setUTCFullYear(previousEnd.getUTCFullYear() - 1);
+        return { startDate: previousStart, endDate: previousEnd };
+      }
+      case 'custom': {
+        const customStart = new Date(compareTo.startDate ?? '');
+        const customEnd = new Date(compareTo.endDate ?? '');
+        if (isNaN(customStart.getTime()) || isNaN(customEnd.getTime())) {
+          throw new Error('Invalid comparison range');
+        }
+        return { startDate: customStart, endDate: customEnd };
+      }
+      default:
+        throw new Error('Invalid comparison range');
+    }
+  }
+
+  /**
+   * Build the comparison results and their deltas against the current results
+   */
+  private buildComparison(
+    steps: FunnelStepConfig[],
+    currentSteps: FunnelStepResult[],
+    previousMetrics: FunnelStepMetrics,
+    range: { startDate: Date; endDate: Date }
+  ): FunnelComparison {
+    const previousSteps = this.buildStepResults(steps, previousMetrics);
+    const previousSummary = this.buildSummary(previousSteps);
+    const currentSummary = this.buildSummary(currentSteps);
+
+    return {
+      startDate: range.startDate.toISOString(),
+      endDate: range.endDate.toISOString(),
+      steps: previousSteps,
+      summary: previousSummary,
+      deltas: currentSteps.map((step, index) => ({
+        stepIndex: step.stepIndex,
+        users: this.toDelta(step.users, previousSteps[index]?.users ?? 0),
+        conversionRate: this.toDelta(
+          step.conversionRate,
+          previousSteps[index]?.conversionRate ?? 0
+        ),
+      })),
+      summaryDeltas: {
+        totalUsers: this.toDelta(currentSummary.totalUsers, previousSummary.totalUsers),
+        completedUsers: this.toDelta(
+          currentSummary.completedUsers,
+          previousSummary.completedUsers
+        ),
+        overallConversionRate: this.toDelta(
+          currentSummary.overallConversionRate,
+          previousSummary.overallConversionRate
+        ),
+      },
+    };
+  }
+
+  /**
+   * Absolute and relative change from a previous value
+   */
+  private toDelta(current: number, previous: number): MetricDelta {
+    return {
+      absolute: current - previous,
+      relative: previous === 0 ? null : ((current - previous) / previous) * 100,
+    };
+  }
+
+  /**
+   * Build one trend point per period in the date range, zero-filling periods
+   * without step 1 users so charts keep an even time axis
+   */
+  private buildTrendPoints(
+    steps: FunnelStepConfig[],
+    periods: FunnelPeriodMetrics[],
+    startDate: Date,
+    endDate: Date,
+    interval: FunnelTrendInterval
+  ): FunnelTrendPoint[] {
+    const metricsByPeriod = new Map(
+      periods.map((period) => [period.periodStart.getTime(), period])
+    );
+    const points: FunnelTrendPoint[] = [];
+
+    for (
+      let periodStart = this.truncateToPeriod(startDate, interval);
+      periodStart <= endDate;
+      periodStart = this.nextPeriod(periodStart, interval)
+    ) {
+      const stepResults = this.buildStepResults(
+        steps,
+        metricsByPeriod.get(periodStart.getTime()) ?? { counts: [] }
+      );
+      points.push({
+        periodStart: periodStart.toISOString(),
+        steps: stepResults,
+        summary: this.buildSummary(stepResults),
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Truncate a date to the start of its UTC day, Monday-based week or month
+   * Matches $dateTrunc with startOfWeek: 'monday'
+   */
+  private truncateToPeriod(date: Date, interval: FunnelTrendInterval): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (interval) {
+      case 'month':
+        return new Date(Date.UTC(year, month, 1));
+      case 'week':
+        // getUTCDay is 0 for Sunday, so Sunday is 6 days after Monday
+        return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+      default:
+        return new Date(Date.UTC(year, month, day));
+    }
+  }
+
+  /**
+   * Start of the period following the given period start
+   */
+  private nextPeriod(periodStart: Date, interval: FunnelTrendInterval): Date {
+    const year = periodStart.getUTCFullYear();
+    const month = periodStart.getUTCMonth();
+    const day = periodStart.getUTCDate();
+
+    switch (interval) {
+      case 'month':
+        return new Date(Date.UTC(year, month + 1, 1));
+      case 'week':
+        return new Date(Date.UTC(year, month, day + 7));
+      default:
+        return new Date(Date.UTC(year, month, day + 1));
+    }
+  }
+
+  /**
+   * Keep the largest segments by step 1 users and group the rest as "Other"
+   */
+  private buildBreakdownSegments(
+    steps: FunnelStepConfig[],
+    segments: FunnelSegmentMetrics[],
+    limit: number
+  ): FunnelBreakdownSegment[] {
+    const sorted = [...segments].sort(
+      (a, b) =>
+        (b.counts[0] ?? 0) - (a.counts[0] ?? 0) ||
+        (a.segment ?? '').localeCompare(b.segment ?? '')
+    );
+
+    const results: FunnelBreakdownSegment[] = sorted.slice(0, limit).map((segment) => {
+      const stepResults = this.buildStepResults(steps, segment);
+      return {
+        value: segment.segment ?? NO_SEGMENT_VALUE,
+        isOther: false,
+        steps: stepResults,
+        summary: this.buildSummary(stepResults),
+      };
+    });
+
+    const rest = sorted.slice(limit);
+    if (rest.length > 0) {
+      const sum = (values: (segment: FunnelSegmentMetrics) => number[] | undefined) =>
+        steps.map((_step, index) =>
+          rest.reduce((total, segment) => total + (values(segment)?.[index] ?? 0), 0)
+        );
+      // Conversion times can't be merged across segments, so Other only has counts.
+      // In session mode a user whose sessions fall in several segments is counted in each
+      const stepResults = this.buildStepResults(steps, {
+        counts: sum((segment) => segment.counts),
+        ...(rest[0]?.users ? { users: sum((segment) => segment.users) } : {}),
+      });
+      results.push({
+        value: OTHER_SEGMENT_VALUE,
+        isOther: true,
+        steps: stepResults,
+        summary: this.buildSummary(stepResults),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Turn per-step counts into step results with conversion and drop-off rates
+   * Counts are sessions in session mode, with the distinct users in metrics.users
+   */
+  private buildStepResults(
+    steps: FunnelStepConfig[],
+    metrics: Pick<FunnelStepMetrics, 'counts'> & Partial<FunnelStepMetrics>
+  ): FunnelStepResult[] {
+    const { counts: stepCounts, timeToConvert = [], users } = metrics;
+    const stepResults: FunnelStepResult[] = [];
+    // Count at the last required step, optional steps are compared against it
+    let previousCount = 0;
 
-      const conversionRate = totalUsers > 0 ? (userCount / totalUsers) * 100 : 0;
+    for (let i = 0; i < steps.length; i++) {
+      const count = stepCounts[i] ?? 0;
+      const totalCount = stepCounts[0] ?? 0;
+      const optional = steps[i]?.optional === true;
+
+      const conversionRate = totalCount > 0 ? (count / totalCount) * 100 : 0;
       const stepConversionRate =
-        i === 0 || previousUsers === 0 ? 100 : (userCount / previousUsers) * 100;
-      const dropoffRate = 100 - stepConversionRate;
+        i === 0 || previousCount === 0 ? 100 : (count / previousCount) * 100;
+      // Skipping an optional step is not a drop-off
+      const dropoffRate = optional ? 0 : 100 - stepConversionRate;
+
+      const stepTime = timeToConvert[i];
 
       stepResults.push({
         step: steps[i]?.name ?? 'Unknown',
         stepIndex: i,
-        users: userCount,
+        users: users ? users[i] ?? 0 : count,
+        ...(users ? { sessions: count } : {}),
         conversionRate,
         dropoffRate: i === 0 ? 0 : dropoffRate,
         stepConversionRate,
+        ...(optional ? { optional } : {}),
+        ...(stepTime ? { timeToConvert: stepTime } : {}),
       });
 
-      previousUsers = userCount;
+      if (!optional) {
+        previousCount = count;
+      }
     }
 
-    // Calculate summary statistics
-    const totalUsers = stepResults[0]?.users ?? 0;
-    const completedUsers = stepResults[stepResults.length - 1]?.users ?? 0;
-    const overallConversionRate =
-      totalUsers > 0 ? (completedUsers / totalUsers) * 100 : 0;
+    return stepResults;
+  }
 
-    // Calculate average step conversion rate (excluding first step which is always 100%)
+  /**
+   * Calculate summary statistics for a set of step results
+   */
+  private buildSummary(stepResults: FunnelStepResult[]): FunnelSummary {
+    const first = stepResults[0];
+    const last = stepResults[stepResults.length - 1];
+    const totalUsers = first?.users ?? 0;
+    const completedUsers = last?.users ?? 0;
+    // Session mode converts sessions rather than users
+    const total = first?.sessions ?? totalUsers;
+    const completed = last?.sessions ?? completedUsers;
+    const overallConversionRate = total > 0 ? (completed / total) * 100 : 0;
+
+    // Calculate average step conversion rate (excluding first step which is always 100%
+    // and optional steps, which users are free to skip)
     const stepConversionRates = stepResults
       .slice(1)
+      .filter((s) => !s.optional)
       .map((s) => s.stepConversionRate);
     const avgStepConversionRate =
       stepConversionRates.length > 0
         ? stepConversionRates.reduce((a, b) => a + b, 0) / stepConversionRates.length
         : 100;
 
-    logger.info('Service: Funnel analysis completed', {
+    return {
       totalUsers,
       completedUsers,
+      ...(first?.sessions !== undefined
+        ? { totalSessions: first.sessions, completedSessions: last?.sessions ?? 0 }
+        : {}),
       overallConversionRate,
       avgStepConversionRate,
-    });
-
-    return {
-      steps: stepResults,
-      summary: {
-        totalUsers,
-        completedUsers,
-        overallConversionRate,
-        avgStepConversionRate,
-      },
     };
   }
+
+  /**
+   * Convert a conversion window to milliseconds
+   */
+  private toConversionWindowMs(window: ConversionWindow): number {
+    const unitMs = CONVERSION_WINDOW_UNIT_MS[window.unit];
+
+    if (!unitMs || !Number.isFinite(window.value) || window.value <= 0) {
+      throw new Error('Invalid conversion window');
+    }
+
+    return window.value * unitMs;
+  }
 }
@@ -0,0 +1,133 @@
+import { PathRepository } from '@/repositories/path.repository';
+import logger from '@/lib/logger';
+import {
+  DEFAULT_PATH_DEPTH,
+  DEFAULT_PATH_LIMIT,
+  type PathTransition,
+} from '@/models/path.model';
+import type {
+  PathAnalysis,
+  PathAnalysisRequest,
+  PathAnchor,
+  PathLink,
+  PathNode,
+} from '@trainwell-funnel/shared';
+
+/**
+ * Path Service - Business Logic Layer for page flow analysis
+ * Turns per-step transitions into Sankey nodes and links
+ * Uses dependency injection for better testability
+ */
+export class PathService {
+  private repository: PathRepository;
+
+  /**
+   * Constructor
+   * @param repository - PathRepository instance (injected)
+   */
+  constructor(repository: PathRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Explore the page flows leading away from or up to a page
+   */
+  async analyzePaths(request: PathAnalysisRequest): Promise<PathAnalysis> {
+    const {
+      startDate,
+      endDate,
+      anchor,
+      page,
+      depth = DEFAULT_PATH_DEPTH,
+      limit = DEFAULT_PATH_LIMIT,
+    } = request;
+
+    const startDateTime = new Date(startDate);
+    const endDateTime = new Date(endDate);
+
+    if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+      throw new Error('Invalid date format');
+    }
+
+    logger.info('Service: Starting path analysis', {
+      startDate,
+      endDate,
+      anchor,
+      page,
+      depth,
+      limit,
+    });
+
+    const { sessions, transitions } = await this.repository.getPathTransitions(
+      startDateTime,
+      endDateTime,
+      anchor,
+      page,
+      depth,
+      limit
+    );
+
+    const { nodes, links } = this.buildGraph(anchor, page, depth, transitions);
+
+    logger.info('Service: Path analysis completed', {
+      sessions,
+      nodeCount: nodes.length,
+      linkCount: links.length,
+    });
+
+    return { anchor, page, depth, sessions, nodes, links };
+  }
+
+  /**
+   * Build Sankey nodes and links from the top transitions of each step
+   * A transition is only kept when it connects back to the anchor page through
+   * other kept transitions, since a step's top transitions can start from pages
+   * that fell out of the previous step's top list
+   */
+  private buildGraph(
+    anchor: PathAnchor,
+    page: string,
+    depth: number,
+    transitions: PathTransition[]
+  ): { nodes: PathNode[]; links: PathLink[] } {
+    const key = (step: number, name: string) => `${step}:${name}`;
+    const steps = Array.from({ length: depth }, (_value, step) =>
+      transitions.filter((transition) => transition.step === step)
+    );
+
+    const connected = new Set([key(anchor === 'start' ? 0 : depth, page)]);
+    const kept: PathTransition[] = [];
+
+    // Walk away from the anchor, one column at a time
+    const order = anchor === 'start' ? steps : [...steps].reverse();
+    for (const stepTransitions of order) {
+      for (const transition of stepTransitions) {
+        const [near, far] =
+          anchor === 'start'
+            ? [key(transition.step, transition.source), key(transition.step + 1, transition.target)]
+            : [key(transition.step + 1, transition.target), key(transition.step, transition.source)];
+
+        if (connected.has(near)) {
+          kept.push(transition);
+          connected.add(far);
+        }
+      }
+    }
+
+    const nodes: PathNode[] = [...connected]
+      .map((id) => {
+        const separator = id.indexOf(':');
+        return { name: id.slice(separator + 1), step: Number(id.slice(0, separator)) };
+      })
+      .sort((a, b) => a.step - b.step);
+    const indexes = new Map(nodes.map((node, index) => [key(node.step, node.name), index]));
+
+    const links: PathLink[] = kept.map((transition) => ({
+      source: indexes.get(key(transition.step, transition.source))!,
+      target: indexes.get(key(transition.step + 1, transition.target))!,
+      sessions: transition.sessions,
+    }));
+
+    return { nodes, links };
+  }
+}
@@ -0,0 +1,131 @@
+import { RetentionRepository } from '@/repositories/retention.repository';
+import logger from '@/lib/logger';
+import {
+  DEFAULT_RETENTION_PERIODS,
+  RETENTION_INTERVAL_MS,
+  type RetentionCohortMetrics,
+} from '@/models/retention.model';
+import type {
+  RetentionAnalysis,
+  RetentionAnalysisRequest,
+  RetentionCohort,
+  RetentionSummary,
+} from '@trainwell-funnel/shared';
+
+/**
+ * Retention Service - Business Logic Layer for retention analysis
+ * Turns cohort counts into the retention matrix
+ * Uses dependency injection for better testability
+ */
+export class RetentionService {
+  private repository: RetentionRepository;
+
+  /**
+   * Constructor
+   * @param repository - RetentionRepository instance (injected)
+   */
+  constructor(repository: RetentionRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Measure how many users of each cohort return in each period
+   */
+  async analyzeRetention(request: RetentionAnalysisRequest): Promise<RetentionAnalysis> {
+    const {
+      startDate,
+      endDate,
+      startEvent,
+      returnEvent,
+      interval = 'day',
+      periods = DEFAULT_RETENTION_PERIODS,
+    } = request;
+
+    const startDateTime = new Date(startDate);
+    const endDateTime = new Date(endDate);
+
+    if (isNaN(startDateTime.getTime()) || isNaN(endDateTime.getTime())) {
+      throw new Error('Invalid date format');
+    }
+
+    logger.info('Service: Starting retention analysis', {
+      startDate,
+      endDate,
+      interval,
+      periods,
+    });
+
+    const metrics = await this.repository.getRetentionCohorts(
+      startEvent,
+      returnEvent,
+      startDateTime,
+      endDateTime,
+      interval,
+      periods
+    );
+
+    const intervalMs = RETENTION_INTERVAL_MS[interval];
+    const now = Date.now();
+    const cohorts = metrics.map((cohort) => this.buildCohort(cohort, intervalMs, now));
+
+    logger.info('Service: Retention analysis completed', {
+      cohortCount: cohorts.length,
+    });
+
+    return {
+      interval,
+      periods,
+      cohorts,
+      summary: this.buildSummary(cohorts, periods),
+    };
+  }
+
+  /**
+   * Convert a cohort's counts into rates, hiding periods that are still running
+   * A cohort spans one interval, so its last user finishes period N at
+   * cohortStart + (N + 2) intervals
+   */
+  private buildCohort(
+    cohort: RetentionCohortMetrics,
+    intervalMs: number,
+    now: number
+  ): RetentionCohort {
+    const retained = cohort.retained.map((count, period) =>
+      cohort.cohortStart.getTime() + (period + 2) * intervalMs <= now ? count : null
+    );
+
+    return {
+      cohortStart: cohort.cohortStart.toISOString(),
+      users: cohort.users,
+      retained,
+      rates: retained.map((count) =>
+        count === null ? null : cohort.users > 0 ? (count / cohort.users) * 100 : 0
+      ),
+    };
+  }
+
+  /**
+   * Weight each period's rate by the size of the cohorts where it has elapsed
+   */
+  private buildSummary(cohorts: RetentionCohort[], periods: number): RetentionSummary {
+    const rates = Array.from({ length: periods }, (_value, period) => {
+      let users = 0;
+      let retained = 0;
+
+      for (const cohort of cohorts) {
+        const count = cohort.retained[period];
+        if (count !== null && count !== undefined) {
+          users += cohort.users;
+          retained += count;
+        }
+      }
+
+      return users > 0 ? (retained / users) * 100 : null;
+    });
+
+    return {
+      users: cohorts.reduce((sum, cohort) => sum + cohort.users, 0),
+      rates,
+    };
+  }
+}
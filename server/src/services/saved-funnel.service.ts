@@ -0,0 +1,115 @@
+import { SavedFunnelRepository } from '@/repositories/saved-funnel.repository';
+import logger from '@/lib/logger';
+import { EventModel } from '@/models/event.model';
+import { SavedFunnelModel } from '@/models/saved-funnel.model';
+import type { SavedFunnel, SavedFunnelInput } from '@trainwell-funnel/shared';
+
+/**
+ * Saved Funnel Service - Business Logic Layer for saved funnels
+ * Serializes stored funnels and treats malformed IDs as missing funnels
+ * Uses dependency injection for better testability
+ */
+export class SavedFunnelService {
+  private repository: SavedFunnelRepository;
+
+  /**
+   * Constructor
+   * @param repository - SavedFunnelRepository instance (injected)
+   */
+  constructor(repository: SavedFunnelRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * List all saved funnels, most recently updated first
+   */
+  async listFunnels(): Promise<SavedFunnel[]> {
+    try {
+      const funnels = await this.repository.findAll();
+      logger.info(`Service: Retrieved ${funnels.length} saved funnels`);
+      return SavedFunnelModel.toDTOs(funnels);
+    } catch (error) {
+      logger.error('Service: Error listing saved funnels:', error);
+      throw new Error('Failed to retrieve saved funnels');
+    }
+  }
+
+  /**
+   * Get a saved funnel by ID
+   * @returns The funnel, or null when it doesn't exist
+   */
+  async getFunnel(id: string): Promise<SavedFunnel | null> {
+    try {
+      if (!EventModel.isValidObjectId(id)) {
+        logger.warn(`Service: Invalid ObjectId format: ${id}`);
+        return null;
+      }
+
+      const funnel = await this.repository.findById(id);
+      return funnel ? SavedFunnelModel.toDTO(funnel) : null;
+    } catch (error) {
+      logger.error(`Service: Error getting saved funnel ${id}:`, error);
+      throw new Error('Failed to retrieve saved funnel');
+    }
+  }
+
+  /**
+   * Save a new funnel
+   */
+  async createFunnel(input: SavedFunnelInput): Promise<SavedFunnel> {
+    try {
+      const funnel = await this.repository.create(SavedFunnelModel.toFields(input));
+      logger.info(`Service: Created saved funnel: ${funnel._id.toString()}`);
+      return SavedFunnelModel.toDTO(funnel);
+    } catch (error) {
+      logger.error('Service: Error creating saved funnel:', error);
+      throw new Error('Failed to save funnel');
+    }
+  }
+
+  /**
+   * Replace a saved funnel
+   * @returns The updated funnel, or null when it doesn't exist
+   */
+  async updateFunnel(id: string, input: SavedFunnelInput): Promise<SavedFunnel | null> {
+    try {
+      if (!EventModel.isValidObjectId(id)) {
+        logger.warn(`Service: Invalid ObjectId format: ${id}`);
+        return null;
+      }
+
+      const funnel = await this.repository.update(id, SavedFunnelModel.toFields(input));
+      if (funnel) {
+        logger.info(`Service: Updated saved funnel: ${id}`);
+      }
+
+      return funnel ? SavedFunnelModel.toDTO(funnel) : null;
+    } catch (error) {
+      logger.error(`Service: Error updating saved funnel ${id}:`, error);
+      throw new Error('Failed to update saved funnel');
+    }
+  }
+
+  /**
+   * Delete a saved funnel
+   * @returns true when the funnel existed
+   */
+  async deleteFunnel(id: string): Promise<boolean> {
+    try {
+      if (!EventModel.isValidObjectId(id)) {
+        logger.warn(`Service: Invalid ObjectId format: ${id}`);
+        return false;
+      }
+
+      const deleted = await this.repository.delete(id);
+      if (deleted) {
+        logger.info(`Service: Deleted saved funnel: ${id}`);
+      }
+
+      return deleted;
+    } catch (error) {
+      logger.error(`Service: Error deleting saved funnel ${id}:`, error);
+      throw new Error('Failed to delete saved funnel');
+    }
+  }
+}
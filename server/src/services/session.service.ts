@@ -0,0 +1,64 @@
+import { SessionRepository } from '@/repositories/session.repository';
+import logger from '@/lib/logger';
+import {
+  DEFAULT_SESSION_LIMIT,
+  SessionModel,
+  type SessionQueryFilters,
+} from '@/models/session.model';
+import type { SessionDTO, SessionStats } from '@trainwell-funnel/shared';
+
+/**
+ * Session Service - Business Logic Layer for reconstructed sessions
+ * Serializes sessions and turns raw totals into session stats
+ * Uses dependency injection for better testability
+ */
+export class SessionService {
+  private repository: SessionRepository;
+
+  /**
+   * Constructor
+   * @param repository - SessionRepository instance (injected)
+   */
+  constructor(repository: SessionRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Get a page of sessions, most recent first, with stats over every matching session
+   */
+  async getSessions(
+    startDate: Date,
+    endDate: Date,
+    filters: SessionQueryFilters = {},
+    limit: number = DEFAULT_SESSION_LIMIT,
+    skip: number = 0
+  ): Promise<{ sessions: SessionDTO[]; stats: SessionStats }> {
+    try {
+      logger.info('Service: Getting sessions', { startDate, endDate, filters, limit, skip });
+
+      const metrics = await this.repository.findSessions(startDate, endDate, filters, limit, skip);
+
+      const stats: SessionStats = {
+        totalSessions: metrics.totalSessions,
+        totalUsers: metrics.totalUsers,
+        avgDuration: metrics.avgDuration,
+        avgPageCount: metrics.avgPageCount,
+        bounceRate:
+          metrics.totalSessions > 0 ? (metrics.bounces / metrics.totalSessions) * 100 : 0,
+      };
+
+      logger.info('Service: Sessions retrieved', {
+        totalSessions: stats.totalSessions,
+        count: metrics.sessions.length,
+      });
+
+      return {
+        sessions: metrics.sessions.map((session) => SessionModel.toDTO(session)),
+        stats,
+      };
+    } catch (error) {
+      logger.error('Service: Error getting sessions:', error);
+      throw new Error('Failed to retrieve sessions');
+    }
+  }
+}
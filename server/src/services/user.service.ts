@@ -0,0 +1,78 @@
+import { UserRepository } from '@/repositories/user.repository';
+import logger from '@/lib/logger';
+import { EventModel } from '@/models/event.model';
+import { DEFAULT_TIMELINE_SESSION_LIMIT, type UserSessionEvents } from '@/models/user.model';
+import type { UserTimeline, UserTimelineSession } from '@trainwell-funnel/shared';
+
+/**
+ * User Service - Business Logic Layer for single user journeys
+ * Turns a user's grouped events into a session timeline
+ * Uses dependency injection for better testability
+ */
+export class UserService {
+  private repository: UserRepository;
+
+  /**
+   * Constructor
+   * @param repository - UserRepository instance (injected)
+   */
+  constructor(repository: UserRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Get a user's events grouped by session, most recent session first
+   * @returns The timeline, or null when the user has no events
+   */
+  async getTimeline(
+    userId: string,
+    limit: number = DEFAULT_TIMELINE_SESSION_LIMIT
+  ): Promise<UserTimeline | null> {
+    try {
+      logger.info('Service: Getting user timeline', { userId, limit });
+
+      const metrics = await this.repository.getTimeline(userId, limit);
+
+      if (!metrics.firstSeen || !metrics.lastSeen) {
+        logger.info(`Service: No events for user: ${userId}`);
+        return null;
+      }
+
+      return {
+        userId,
+        firstSeen: metrics.firstSeen.toISOString(),
+        lastSeen: metrics.lastSeen.toISOString(),
+        totalSessions: metrics.totalSessions,
+        totalEvents: metrics.totalEvents,
+        sessions: metrics.sessions.map((session) => this.toTimelineSession(session)),
+      };
+    } catch (error) {
+      logger.error(`Service: Error getting timeline for user ${userId}:`, error);
+      throw new Error('Failed to retrieve user timeline');
+    }
+  }
+
+  /**
+   * Summarize a session from its events
+   * The landing page is the first page viewed, and the session's UTM parameters
+   * come from the first event that carried any, in its utm or query string
+   */
+  private toTimelineSession(session: UserSessionEvents): UserTimelineSession {
+    const [landing] = session.events;
+    const utm = session.events
+      .map((event) => EventModel.toUtmParameters(event.content))
+      .find((parameters) => parameters !== null);
+
+    return {
+      sessionId: session.sessionId,
+      start: session.start.toISOString(),
+      end: session.end.toISOString(),
+      duration: session.end.getTime() - session.start.getTime(),
+      landingPage: landing?.content.path ?? '',
+      hostname: landing?.content.hostname ?? '',
+      utm: utm ?? null,
+      pageCount: session.events.length,
+      events: session.events.map((event) => EventModel.toDTO(event)),
+    };
+  }
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Db, Document } from 'mongodb';
+import { EventRepository } from '@/repositories/event.repository';
+import type { EventDocument } from '@/models/event.model';
+import type { FunnelStepConfig } from '@trainwell-funnel/shared';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createPageView } from '../fixtures/events.fixture';
+
+// Mock the logger to avoid console output during tests
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+    startTimer: () => ({ done: vi.fn() }),
+  },
+}));
+
+const USER_COUNT = 1500;
+
+// Simulated network latency per aggregation. The in-memory engine's own evaluation
+// time is included in latencyMs too, but is not representative of MongoDB itself
+const ROUND_TRIP_LATENCY_MS = 5;
+
+const steps: FunnelStepConfig[] = [
+  { name: 'Landing', matchType: 'path', matchValue: '/' },
+  { name: 'Plans', matchType: 'path', matchValue: '/plans' },
+  { name: 'Quiz', matchType: 'path', matchValue: '/quiz' },
+  { name: 'Signup', matchType: 'path', matchValue: '/signup' },
+  { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+  { name: 'Onboarding', matchType: 'path', matchValue: '/onboarding' },
+];
+
+// The timings are only printed when asked for, with npm run benchmark
+const REPORT_TIMINGS = process.env.BENCHMARK === '1';
+
+const startDate = new Date('2025-01-01T00:00:00Z');
+const endDate = new Date('2025-01-31T23:59:59Z');
+
+/**
+ * Deterministic pseudo-random generator so every run uses the same dataset
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Generate users who walk down the funnel, drop off at random and sometimes
+ * visit a later step before an earlier one or wander to unrelated pages
+ */
+function generateEvents(): EventDocument[] {
+  const random = createRandom(42);
+  const events: EventDocument[] = [];
+
+  for (let u = 0; u < USER_COUNT; u++) {
+    const user_id = `user_${u}`;
+    let time = startDate.getTime() + random() * 20 * 24 * 60 * 60 * 1000;
+
+    const visit = (path: string) => {
+      time += random() * 60 * 60 * 1000;
+      events.push(createPageView(user_id, path, new Date(time).toISOString()));
+    };
+
+    // Some users peek at checkout before they ever land
+    if (random() < 0.1) {
+      visit('/checkout');
+    }
+
+    for (const step of steps) {
+      if (random() < 0.25) {
+        break;
+      }
+      visit(step.matchValue);
+      if (random() < 0.3) {
+        visit('/blog');
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Reference implementation of the ordered funnel, computed directly in memory
+ */
+function expectedCounts(events: EventDocument[]): number[] {
+  const byUser = new Map<string, EventDocument[]>();
+  for (const event of events) {
+    byUser.set(event.user_id, [...(byUser.get(event.user_id) ?? []), event]);
+  }
+
+  const counts = steps.map(() => 0);
+  for (const userEvents of byUser.values()) {
+    userEvents.sort((a, b) => a.date.getTime() - b.date.getTime());
+    let reached = 0;
+    for (const event of userEvents) {
+      if (reached < steps.length && event.content.path === steps[reached]!.matchValue) {
+        counts[reached]!++;
+        reached++;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * The previous funnel implementation: for every step index the service re-ran every
+ * earlier step, shipping the surviving user_id list back as a $in filter each time
+ */
+async function legacyFunnelCounts(
+  db: Db
+): Promise<{ counts: number[]; shippedUserIds: number }> {
+  const collection = db.collection<EventDocument>('events');
+  const counts: number[] = [];
+  let shippedUserIds = 0;
+
+  for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
+    let users: string[] | undefined;
+
+    for (let i = 0; i <= stepIndex; i++) {
+      const match: Document = {
+        platform: 'web',
+        type: 'page_view',
+        date: { $gte: startDate, $lte: endDate },
+        'content.path': steps[i]!.matchValue,
+      };
+      if (users) {
+        match.user_id = { $in: users };
+        shippedUserIds += users.length;
+      }
+
+      const result = await collection
+        .aggregate([
+          { $match: match },
+          { $group: { _id: '$user_id' } },
+          { $project: { _id: 0, user_id: '$_id' } },
+        ])
+        .toArray();
+
+      users = result.map((doc) => doc.user_id as string);
+      shippedUserIds += users.length;
+    }
+
+    counts.push(users?.length ?? 0);
+  }
+
+  return { counts, shippedUserIds };
+}
+
+describe('Funnel computation benchmark', () => {
+  const events = generateEvents();
+
+  it('should compute a 6-step funnel in one round trip instead of 21', async () => {
+    const legacy = createInMemoryDb(events, ROUND_TRIP_LATENCY_MS);
+    const legacyStart = performance.now();
+    const legacyResult = await legacyFunnelCounts(legacy.db);
+    const legacyMs = performance.now() - legacyStart;
+
+    const pipeline = createInMemoryDb(events, ROUND_TRIP_LATENCY_MS);
+    const pipelineStart = performance.now();
+    const { counts: pipelineCounts } = await new EventRepository(
+      pipeline.db
+    ).getFunnelStepMetrics(steps, startDate, endDate);
+    const pipelineMs = performance.now() - pipelineStart;
+
+    if (REPORT_TIMINGS) {
+      console.table({
+        legacy: {
+          roundTrips: legacy.stats.roundTrips,
+          shippedUserIds: legacyResult.shippedUserIds,
+          networkMs: legacy.stats.roundTrips * ROUND_TRIP_LATENCY_MS,
+          latencyMs: Math.round(legacyMs),
+        },
+        singlePipeline: {
+          roundTrips: pipeline.stats.roundTrips,
+          shippedUserIds: 0,
+          networkMs: pipeline.stats.roundTrips * ROUND_TRIP_LATENCY_MS,
+          latencyMs: Math.round(pipelineMs),
+        },
+      });
+    }
+
+    // 1 + 2 + ... + 6 aggregations for the legacy loop
+    expect(legacy.stats.roundTrips).toBe(21);
+    expect(pipeline.stats.roundTrips).toBe(1);
+
+    // No user lists are sent back to the database
+    expect(legacyResult.shippedUserIds).toBeGreaterThan(USER_COUNT);
+    expect(JSON.stringify(pipeline.stats.pipelines)).not.toContain('$in');
+
+    // Set intersection counted out-of-order visits, the pipeline does not
+    expect(pipelineCounts).toEqual(expectedCounts(events));
+    expect(legacyResult.counts[4]).toBeGreaterThan(pipelineCounts[4]!);
+  });
+});
@@ -29,6 +29,8 @@ describe('EventController', () => {
       getEventById: vi.fn(),
       getEvents: vi.fn(),
       analyzeFunnel: vi.fn(),
+      getFunnelUsers: vi.fn(),
+      getFunnelNextPages: vi.fn(),
     };
 
     eventController = new EventController(mockService as EventService);
@@ -125,6 +127,8 @@ describe('EventController', () => {
       const mockResult = {
         events: [EventModel.toDTO(createMockEventDocument())],
         total: 100,
+        nextCursor: 'next',
+        prevCursor: null,
       };
 
       mockRequest.query = { user_id: 'user_1', limit: '10', skip: '0' };
@@ -139,7 +143,8 @@ describe('EventController', () => {
       expect(mockService.getEvents).toHaveBeenCalledWith(
         { user_id: 'user_1' },
         10,
-        0
+        0,
+        { sort: 'desc' }
       );
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith({
@@ -150,6 +155,9 @@ describe('EventController', () => {
           limit: 10,
           skip: 0,
           count: 1,
+          sort: 'desc',
+          nextCursor: 'next',
+          prevCursor: null,
         },
       });
     });
@@ -165,7 +173,7 @@ describe('EventController', () => {
         mockNext
       );
 
-      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0);
+      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0, { sort: 'desc' });
     });
 
     it('should parse date filters correctly', async () => {
@@ -188,7 +196,8 @@ describe('EventController', () => {
           endDate: new Date('2025-01-31T23:59:59Z'),
         },
         100,
-        0
+        0,
+        { sort: 'desc' }
       );
     });
 
@@ -206,7 +215,7 @@ describe('EventController', () => {
       );
 
       // Should be called with empty filters (invalid date ignored)
-      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0);
+      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0, { sort: 'desc' });
     });
 
     it('should enforce limit bounds', async () => {
@@ -221,7 +230,75 @@ describe('EventController', () => {
       );
 
       // Should use default (100) since 5000 > max
-      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0);
+      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0, { sort: 'desc' });
+    });
+
+    it('should pass the sort order and decoded cursor', async () => {
+      const document = createMockEventDocument();
+      const mockResult = { events: [], total: 0, nextCursor: null, prevCursor: null };
+      mockRequest.query = { sort: 'asc', after: EventModel.encodeCursor(document) };
+      mockService.getEvents = vi.fn().mockResolvedValue(mockResult);
+
+      await eventController.getEvents(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getEvents).toHaveBeenCalledWith({}, 100, 0, {
+        sort: 'asc',
+        after: { date: document.date, id: document._id },
+      });
+    });
+
+    it('should return 400 for an invalid sort order', async () => {
+      mockRequest.query = { sort: 'newest' };
+
+      await eventController.getEvents(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'sort must be one of "asc", "desc"',
+      });
+    });
+
+    it('should return 400 when after and before are combined', async () => {
+      const cursor = EventModel.encodeCursor(createMockEventDocument());
+      mockRequest.query = { after: cursor, before: cursor };
+
+      await eventController.getEvents(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'after and before cannot be combined',
+      });
+    });
+
+    it('should return 400 for a malformed cursor', async () => {
+      mockRequest.query = { before: 'not-a-cursor' };
+
+      await eventController.getEvents(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'before must be a cursor from a previous page',
+      });
+      expect(mockService.getEvents).not.toHaveBeenCalled();
     });
 
     it('should call next on service error', async () => {
@@ -406,40 +483,245 @@ describe('EventController', () => {
       });
     });
 
-    it('should validate hostname matchType', async () => {
+    it('should return 400 when conversion window value is invalid', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        conversionWindow: { value: -1, unit: 'days' },
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'conversionWindow.value must be a positive number',
+      });
+      expect(mockService.analyzeFunnel).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when conversion window unit is invalid', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        conversionWindow: { value: 2, unit: 'weeks' },
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'conversionWindow.unit must be "minutes", "hours" or "days"',
+      });
+    });
+
+    it('should return 400 when operator is invalid', async () => {
+      mockRequest.body = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/', operator: 'endsWith' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error:
+          'operator must be one of "equals", "startsWith", "contains", "regex", "glob"',
+      });
+      expect(mockService.analyzeFunnel).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when regex does not compile', async () => {
+      mockRequest.body = {
+        steps: [
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout/(', operator: 'regex' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Invalid regex for step "Checkout"',
+      });
+    });
+
+    it('should accept glob steps', async () => {
+      const funnelRequest: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Plan checkout', matchType: 'path', matchValue: '/plans/*/checkout', operator: 'glob' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      mockRequest.body = funnelRequest;
+      mockService.analyzeFunnel = vi.fn().mockResolvedValue({ steps: [], summary: {} });
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockService.analyzeFunnel).toHaveBeenCalledWith(funnelRequest);
+    });
+
+    it('should accept steps defined only by conditions', async () => {
       const funnelRequest: FunnelAnalysisRequest = {
         steps: [
           {
-            name: 'Main Site',
-            matchType: 'hostname',
-            matchValue: 'www.trainwell.net',
+            name: 'Facebook landing',
+            conditions: {
+              combinator: 'and',
+              conditions: [
+                { field: 'utm_source', operator: 'equals', value: 'facebook' },
+                { field: 'first_view', operator: 'equals', value: true },
+              ],
+            },
           },
         ],
         startDate: '2025-01-01T00:00:00Z',
         endDate: '2025-01-31T23:59:59Z',
       };
 
-      const mockResult = {
+      mockRequest.body = funnelRequest;
+      mockService.analyzeFunnel = vi.fn().mockResolvedValue({ steps: [], summary: {} });
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockService.analyzeFunnel).toHaveBeenCalledWith(funnelRequest);
+    });
+
+    it('should return 400 when a condition is missing its value', async () => {
+      mockRequest.body = {
         steps: [
           {
-            step: 'Main Site',
-            stepIndex: 0,
-            users: 50,
-            conversionRate: 100,
-            dropoffRate: 0,
-            stepConversionRate: 100,
+            name: 'Landing',
+            conditions: {
+              combinator: 'or',
+              conditions: [{ field: 'utm_campaign', operator: 'contains' }],
+            },
           },
         ],
-        summary: {
-          totalUsers: 50,
-          completedUsers: 50,
-          overallConversionRate: 100,
-          avgStepConversionRate: 100,
-        },
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Condition on "utm_campaign" requires a value',
+      });
+    });
+
+    it('should return 400 when first_view is compared to a non-boolean', async () => {
+      mockRequest.body = {
+        steps: [
+          {
+            name: 'Landing',
+            conditions: {
+              combinator: 'and',
+              conditions: [{ field: 'first_view', operator: 'equals', value: 'yes' }],
+            },
+          },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'first_view conditions must use equals or notEquals with a boolean value',
+      });
+    });
+
+    it('should return 400 when condition groups are nested too deeply', async () => {
+      const leaf = { field: 'path', operator: 'equals', value: '/' };
+      mockRequest.body = {
+        steps: [
+          {
+            name: 'Landing',
+            conditions: {
+              combinator: 'and',
+              conditions: [
+                {
+                  combinator: 'or',
+                  conditions: [
+                    {
+                      combinator: 'and',
+                      conditions: [{ combinator: 'or', conditions: [leaf] }],
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Condition groups can be nested at most 3 levels deep',
+      });
+    });
+
+    it('should pass breakdowns through to the service', async () => {
+      const funnelRequest: FunnelAnalysisRequest = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        breakdownBy: 'utm_campaign',
+        breakdownLimit: 10,
       };
 
       mockRequest.body = funnelRequest;
-      mockService.analyzeFunnel = vi.fn().mockResolvedValue(mockResult);
+      mockService.analyzeFunnel = vi.fn().mockResolvedValue({ steps: [], summary: {} });
 
       await eventController.analyzeFunnel(
         mockRequest as Request,
@@ -450,26 +732,548 @@ describe('EventController', () => {
       expect(mockService.analyzeFunnel).toHaveBeenCalledWith(funnelRequest);
     });
 
-    it('should return 500 on service error', async () => {
+    it('should return 400 when breakdownBy is not supported', async () => {
       mockRequest.body = {
-        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
         startDate: '2025-01-01T00:00:00Z',
         endDate: '2025-01-31T23:59:59Z',
+        breakdownBy: 'user_id',
       };
 
-      mockService.analyzeFunnel = vi
-        .fn()
-        .mockRejectedValue(new Error('Database error'));
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error:
+          'breakdownBy must be one of "utm_source", "utm_medium", "utm_campaign", "hostname", "platform", "landing_path"',
+      });
+    });
+
+    it('should return 400 when breakdownLimit is out of range', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        breakdownBy: 'utm_source',
+        breakdownLimit: 0,
+      };
 
       await eventController.analyzeFunnel(
         mockRequest as Request,
         mockResponse as Response
       );
 
-      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: false,
-        error: 'Database error',
+        error: 'breakdownLimit must be an integer between 1 and 20',
+      });
+    });
+
+    it('should return 400 when trendInterval is not supported', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        trendInterval: 'quarter',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'trendInterval must be one of "day", "week", "month"',
+      });
+    });
+
+    it('should return 400 when trends and breakdowns are combined', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        trendInterval: 'day',
+        breakdownBy: 'utm_source',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'breakdownBy and trendInterval cannot be combined',
+      });
+    });
+
+    it('should return 400 when the last step is optional', async () => {
+      mockRequest.body = {
+        steps: [
+          { name: 'Plans', matchType: 'path', matchValue: '/plans' },
+          { name: 'Quiz', matchType: 'path', matchValue: '/quiz', optional: true },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'The first and last steps cannot be optional',
+      });
+    });
+
+    it('should return 400 when an anyOf matcher has no value', async () => {
+      mockRequest.body = {
+        steps: [
+          {
+            name: 'Signup',
+            anyOf: [{ matchType: 'path', matchValue: '/signup' }, { matchType: 'path' }],
+          },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Each anyOf matcher for step "Signup" must have matchType and matchValue, or conditions',
+      });
+    });
+
+    it('should return 400 when an exclusion does not fall between two steps', async () => {
+      mockRequest.body = {
+        steps: [
+          { name: 'Plans', matchType: 'path', matchValue: '/plans' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        exclusions: [{ matchType: 'path', matchValue: '/cancel', fromStep: 1, toStep: 1 }],
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Exclusion fromStep and toStep must be step indexes with fromStep before toStep',
+      });
+    });
+
+    it('should return 400 when an exclusion has no matcher', async () => {
+      mockRequest.body = {
+        steps: [
+          { name: 'Plans', matchType: 'path', matchValue: '/plans' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        exclusions: [{ matchType: 'path', fromStep: 0, toStep: 1 }],
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Each exclusion must have matchType and matchValue, or conditions',
+      });
+    });
+
+    it('should return 400 for an unsupported countBy', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        countBy: 'device',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'countBy must be one of "user", "session"',
+      });
+    });
+
+    it('should return 400 for an unsupported order', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        order: 'reverse',
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'order must be one of "strict", "sequential", "any"',
+      });
+    });
+
+    it('should return 400 for exclusions in an unordered funnel', async () => {
+      mockRequest.body = {
+        steps: [
+          { name: 'Landing', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        order: 'any',
+        exclusions: [{ matchType: 'path', matchValue: '/cancel', fromStep: 0, toStep: 1 }],
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'exclusions cannot be used with an unordered funnel',
+      });
+    });
+
+    it('should return 400 for an unsupported comparison mode', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        compareTo: { mode: 'lastQuarter' },
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'compareTo.mode must be one of "previousPeriod", "previousYear", "custom"',
+      });
+    });
+
+    it('should return 400 for a custom comparison without dates', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        compareTo: { mode: 'custom', startDate: '2024-01-01T00:00:00Z' },
+      };
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'compareTo.startDate and compareTo.endDate are required for a custom comparison',
+      });
+    });
+
+    it('should validate hostname matchType', async () => {
+      const funnelRequest: FunnelAnalysisRequest = {
+        steps: [
+          {
+            name: 'Main Site',
+            matchType: 'hostname',
+            matchValue: 'www.trainwell.net',
+          },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      const mockResult = {
+        steps: [
+          {
+            step: 'Main Site',
+            stepIndex: 0,
+            users: 50,
+            conversionRate: 100,
+            dropoffRate: 0,
+            stepConversionRate: 100,
+          },
+        ],
+        summary: {
+          totalUsers: 50,
+          completedUsers: 50,
+          overallConversionRate: 100,
+          avgStepConversionRate: 100,
+        },
+      };
+
+      mockRequest.body = funnelRequest;
+      mockService.analyzeFunnel = vi.fn().mockResolvedValue(mockResult);
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockService.analyzeFunnel).toHaveBeenCalledWith(funnelRequest);
+    });
+
+    it('should return 500 on service error', async () => {
+      mockRequest.body = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      mockService.analyzeFunnel = vi
+        .fn()
+        .mockRejectedValue(new Error('Database error'));
+
+      await eventController.analyzeFunnel(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Database error',
+      });
+    });
+  });
+
+  describe('getFunnelUsers', () => {
+    const steps = [
+      { name: 'Landing', matchType: 'path', matchValue: '/' },
+      { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+    ];
+
+    it('should return a page of users with pagination', async () => {
+      const users = [
+        {
+          user_id: 'user_1',
+          firstEventAt: '2025-01-02T10:00:00.000Z',
+          lastEventAt: '2025-01-03T10:00:00.000Z',
+        },
+      ];
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 0,
+        status: 'dropped',
+      };
+      mockService.getFunnelUsers = vi
+        .fn()
+        .mockResolvedValue({ users, total: 120, limit: 50, skip: 0 });
+
+      await eventController.getFunnelUsers(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockService.getFunnelUsers).toHaveBeenCalledWith(mockRequest.body);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: users,
+        pagination: { total: 120, limit: 50, skip: 0, count: 1 },
+      });
+    });
+
+    it('should return 400 when the funnel definition is invalid', async () => {
+      mockRequest.body = {
+        steps: [],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 0,
+        status: 'converted',
+      };
+
+      await eventController.getFunnelUsers(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'At least one funnel step is required',
+      });
+    });
+
+    it('should return 400 for a step index outside the funnel', async () => {
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 2,
+        status: 'converted',
+      };
+
+      await eventController.getFunnelUsers(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'stepIndex must be the index of a funnel step',
+      });
+    });
+
+    it('should return 400 for users dropping off after the last step', async () => {
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 1,
+        status: 'dropped',
+      };
+
+      await eventController.getFunnelUsers(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Nobody drops off after the last step',
+      });
+    });
+
+    it('should return 400 for a page size above the limit', async () => {
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 0,
+        status: 'converted',
+        limit: 1000,
+      };
+
+      await eventController.getFunnelUsers(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'limit must be an integer between 1 and 500',
+      });
+    });
+  });
+
+  describe('getFunnelNextPages', () => {
+    const steps = [
+      { name: 'Landing', matchType: 'path', matchValue: '/' },
+      { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+    ];
+
+    it('should return the pages visited after dropping off', async () => {
+      const nextPages = {
+        stepIndex: 0,
+        dropped: 10,
+        exited: 4,
+        pages: [{ path: '/blog', hostname: 'www.trainwell.net', count: 6, share: 60 }],
+      };
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 0,
+      };
+      mockService.getFunnelNextPages = vi.fn().mockResolvedValue(nextPages);
+
+      await eventController.getFunnelNextPages(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockService.getFunnelNextPages).toHaveBeenCalledWith(mockRequest.body);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: nextPages });
+    });
+
+    it('should return 400 for the last step', async () => {
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 1,
+      };
+
+      await eventController.getFunnelNextPages(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Nobody drops off after the last step',
+      });
+    });
+
+    it('should return 400 for an unordered funnel', async () => {
+      mockRequest.body = {
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 0,
+        order: 'any',
+      };
+
+      await eventController.getFunnelNextPages(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockService.getFunnelNextPages).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Next pages require an ordered funnel',
       });
     });
   });
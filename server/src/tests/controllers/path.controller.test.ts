@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PathController } from '@/controllers/path.controller';
+import { PathService } from '@/services/path.service';
+import type { Request, Response } from 'express';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('PathController', () => {
+  let pathController: PathController;
+  let mockService: Partial<PathService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockService = {
+      analyzePaths: vi.fn(),
+    };
+
+    pathController = new PathController(mockService as PathService);
+
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('analyzePaths', () => {
+    const dates = {
+      startDate: '2025-01-01T00:00:00Z',
+      endDate: '2025-01-31T23:59:59Z',
+    };
+
+    it('should return the path analysis', async () => {
+      const analysis = {
+        anchor: 'start',
+        page: '/homepage',
+        depth: 1,
+        sessions: 2,
+        nodes: [
+          { name: '/homepage', step: 0 },
+          { name: '/pricing', step: 1 },
+        ],
+        links: [{ source: 0, target: 1, sessions: 2 }],
+      };
+      mockRequest.body = { ...dates, anchor: 'start', page: '/homepage', depth: 1 };
+      mockService.analyzePaths = vi.fn().mockResolvedValue(analysis);
+
+      await pathController.analyzePaths(mockRequest as Request, mockResponse as Response);
+
+      expect(mockService.analyzePaths).toHaveBeenCalledWith(mockRequest.body);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: analysis });
+    });
+
+    it('should return 400 when dates are missing', async () => {
+      mockRequest.body = { anchor: 'start', page: '/homepage' };
+
+      await pathController.analyzePaths(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Start date and end date are required',
+      });
+    });
+
+    it('should return 400 for an unknown anchor', async () => {
+      mockRequest.body = { ...dates, anchor: 'middle', page: '/homepage' };
+
+      await pathController.analyzePaths(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'anchor must be one of "start", "end"',
+      });
+    });
+
+    it('should return 400 when the page is missing', async () => {
+      mockRequest.body = { ...dates, anchor: 'end', page: '  ' };
+
+      await pathController.analyzePaths(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'page is required',
+      });
+    });
+
+    it('should return 400 for a depth out of range', async () => {
+      mockRequest.body = { ...dates, anchor: 'start', page: '/homepage', depth: 9 };
+
+      await pathController.analyzePaths(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'depth must be an integer between 1 and 8',
+      });
+      expect(mockService.analyzePaths).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when the service fails', async () => {
+      mockRequest.body = { ...dates, anchor: 'start', page: '/homepage' };
+      mockService.analyzePaths = vi.fn().mockRejectedValue(new Error('Invalid date format'));
+
+      await pathController.analyzePaths(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Invalid date format',
+      });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RetentionController } from '@/controllers/retention.controller';
+import { RetentionService } from '@/services/retention.service';
+import type { Request, Response } from 'express';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('RetentionController', () => {
+  let retentionController: RetentionController;
+  let mockService: Partial<RetentionService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockService = {
+      analyzeRetention: vi.fn(),
+    };
+
+    retentionController = new RetentionController(mockService as RetentionService);
+
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('analyzeRetention', () => {
+    const validRequest = {
+      startDate: '2025-01-01T00:00:00Z',
+      endDate: '2025-01-31T23:59:59Z',
+      startEvent: { matchType: 'path', matchValue: '/onboarding' },
+      returnEvent: { matchType: 'path', matchValue: '/workouts' },
+    };
+
+    it('should return the retention analysis', async () => {
+      const analysis = {
+        interval: 'day',
+        periods: 1,
+        cohorts: [
+          { cohortStart: '2025-01-02T00:00:00.000Z', users: 2, retained: [1], rates: [50] },
+        ],
+        summary: { users: 2, rates: [50] },
+      };
+      mockRequest.body = { ...validRequest, periods: 1 };
+      mockService.analyzeRetention = vi.fn().mockResolvedValue(analysis);
+
+      await retentionController.analyzeRetention(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockService.analyzeRetention).toHaveBeenCalledWith(mockRequest.body);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: analysis });
+    });
+
+    it('should return 400 when the return event is missing', async () => {
+      mockRequest.body = { ...validRequest, returnEvent: undefined };
+
+      await retentionController.analyzeRetention(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'returnEvent must have matchType and matchValue, or conditions',
+      });
+    });
+
+    it('should return 400 for an invalid start event regex', async () => {
+      mockRequest.body = {
+        ...validRequest,
+        startEvent: { matchType: 'path', matchValue: '[', operator: 'regex' },
+      };
+
+      await retentionController.analyzeRetention(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockService.analyzeRetention).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unsupported interval', async () => {
+      mockRequest.body = { ...validRequest, interval: 'month' };
+
+      await retentionController.analyzeRetention(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'interval must be one of "day", "week"',
+      });
+    });
+
+    it('should return 400 for too many periods', async () => {
+      mockRequest.body = { ...validRequest, periods: 32 };
+
+      await retentionController.analyzeRetention(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'periods must be an integer between 1 and 31',
+      });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SavedFunnelController } from '@/controllers/saved-funnel.controller';
+import { SavedFunnelService } from '@/services/saved-funnel.service';
+import type { Request, Response, NextFunction } from 'express';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('SavedFunnelController', () => {
+  let savedFunnelController: SavedFunnelController;
+  let mockService: Partial<SavedFunnelService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const id = '507f1f77bcf86cd799439011';
+  const input = {
+    name: 'Signup funnel',
+    steps: [
+      { name: 'Landing', matchType: 'path', matchValue: '/' },
+      { name: 'Signup', matchType: 'path', matchValue: '/signup' },
+    ],
+    dateRange: { type: 'relative', days: 30 },
+    options: { countBy: 'session' },
+  };
+  const funnel = {
+    id,
+    ...input,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    mockService = {
+      listFunnels: vi.fn(),
+      getFunnel: vi.fn(),
+      createFunnel: vi.fn(),
+      updateFunnel: vi.fn(),
+      deleteFunnel: vi.fn(),
+    };
+
+    savedFunnelController = new SavedFunnelController(mockService as SavedFunnelService);
+
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe('listFunnels', () => {
+    it('should return saved funnels', async () => {
+      mockService.listFunnels = vi.fn().mockResolvedValue([funnel]);
+
+      await savedFunnelController.listFunnels(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: [funnel] });
+    });
+
+    it('should pass service errors to the error handler', async () => {
+      const error = new Error('Database error');
+      mockService.listFunnels = vi.fn().mockRejectedValue(error);
+
+      await savedFunnelController.listFunnels(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('getFunnel', () => {
+    it('should return 404 when the funnel does not exist', async () => {
+      mockRequest.params = { id };
+      mockService.getFunnel = vi.fn().mockResolvedValue(null);
+
+      await savedFunnelController.getFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Funnel not found',
+      });
+    });
+  });
+
+  describe('createFunnel', () => {
+    it('should create the funnel and return 201', async () => {
+      mockRequest.body = input;
+      mockService.createFunnel = vi.fn().mockResolvedValue(funnel);
+
+      await savedFunnelController.createFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.createFunnel).toHaveBeenCalledWith(input);
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: funnel });
+    });
+
+    it('should return 400 when the name is missing', async () => {
+      mockRequest.body = { ...input, name: ' ' };
+
+      await savedFunnelController.createFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'name is required',
+      });
+    });
+
+    it('should validate steps like a funnel analysis', async () => {
+      mockRequest.body = { ...input, steps: [] };
+
+      await savedFunnelController.createFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'At least one funnel step is required',
+      });
+    });
+
+    it('should return 400 when both breakdownBy and trendInterval are saved', async () => {
+      mockRequest.body = { ...input, options: { breakdownBy: 'utm_source', trendInterval: 'day' } };
+
+      await savedFunnelController.createFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'breakdownBy and trendInterval cannot be combined',
+      });
+    });
+
+    it('should return 400 for an invalid date range', async () => {
+      mockRequest.body = { ...input, dateRange: { type: 'relative', days: 0 } };
+
+      await savedFunnelController.createFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'dateRange.days must be an integer between 1 and 365',
+      });
+    });
+  });
+
+  describe('updateFunnel', () => {
+    it('should return the updated funnel', async () => {
+      mockRequest.params = { id };
+      mockRequest.body = { ...input, name: 'Renamed' };
+      mockService.updateFunnel = vi.fn().mockResolvedValue({ ...funnel, name: 'Renamed' });
+
+      await savedFunnelController.updateFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.updateFunnel).toHaveBeenCalledWith(id, mockRequest.body);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 404 when the funnel does not exist', async () => {
+      mockRequest.params = { id };
+      mockRequest.body = input;
+      mockService.updateFunnel = vi.fn().mockResolvedValue(null);
+
+      await savedFunnelController.updateFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('deleteFunnel', () => {
+    it('should delete the funnel', async () => {
+      mockRequest.params = { id };
+      mockService.deleteFunnel = vi.fn().mockResolvedValue(true);
+
+      await savedFunnelController.deleteFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('should return 404 when the funnel does not exist', async () => {
+      mockRequest.params = { id };
+      mockService.deleteFunnel = vi.fn().mockResolvedValue(false);
+
+      await savedFunnelController.deleteFunnel(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+});
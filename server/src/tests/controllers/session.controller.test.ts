@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionController } from '@/controllers/session.controller';
+import { SessionService } from '@/services/session.service';
+import type { Request, Response, NextFunction } from 'express';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('SessionController', () => {
+  let sessionController: SessionController;
+  let mockService: Partial<SessionService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const dates = {
+    startDate: '2025-01-01T00:00:00Z',
+    endDate: '2025-01-31T23:59:59Z',
+  };
+
+  const result = {
+    sessions: [],
+    stats: {
+      totalSessions: 12,
+      totalUsers: 8,
+      avgDuration: 90000,
+      avgPageCount: 2.5,
+      bounceRate: 25,
+    },
+  };
+
+  beforeEach(() => {
+    mockService = {
+      getSessions: vi.fn().mockResolvedValue(result),
+    };
+
+    sessionController = new SessionController(mockService as SessionService);
+
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe('getSessions', () => {
+    it('should return sessions with stats and pagination', async () => {
+      mockRequest.query = { ...dates };
+
+      await sessionController.getSessions(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getSessions).toHaveBeenCalledWith(
+        new Date(dates.startDate),
+        new Date(dates.endDate),
+        {},
+        100,
+        0
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: [],
+        stats: result.stats,
+        pagination: { total: 12, limit: 100, skip: 0, count: 0 },
+      });
+    });
+
+    it('should parse filters and pagination', async () => {
+      mockRequest.query = {
+        ...dates,
+        user_id: 'user_1',
+        hostname: 'www.trainwell.net',
+        entryPage: '/homepage',
+        exitPage: '/checkout',
+        bounced: 'false',
+        limit: '25',
+        skip: '50',
+      };
+
+      await sessionController.getSessions(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getSessions).toHaveBeenCalledWith(
+        new Date(dates.startDate),
+        new Date(dates.endDate),
+        {
+          user_id: 'user_1',
+          hostname: 'www.trainwell.net',
+          entryPage: '/homepage',
+          exitPage: '/checkout',
+          bounced: false,
+        },
+        25,
+        50
+      );
+    });
+
+    it('should return 400 without a date range', async () => {
+      mockRequest.query = { startDate: dates.startDate };
+
+      await sessionController.getSessions(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getSessions).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Start date and end date are required',
+      });
+    });
+
+    it('should return 400 for an invalid bounced filter', async () => {
+      mockRequest.query = { ...dates, bounced: 'yes' };
+
+      await sessionController.getSessions(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'bounced must be one of "true", "false"',
+      });
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      mockRequest.query = { ...dates, limit: '5000' };
+
+      await sessionController.getSessions(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'limit must be an integer between 1 and 1000',
+      });
+    });
+
+    it('should pass errors to the error middleware', async () => {
+      const error = new Error('Database error');
+      mockRequest.query = { ...dates };
+      mockService.getSessions = vi.fn().mockRejectedValue(error);
+
+      await sessionController.getSessions(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
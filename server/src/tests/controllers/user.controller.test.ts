@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserController } from '@/controllers/user.controller';
+import { UserService } from '@/services/user.service';
+import type { Request, Response, NextFunction } from 'express';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('UserController', () => {
+  let userController: UserController;
+  let mockService: Partial<UserService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    mockService = {
+      getTimeline: vi.fn(),
+    };
+
+    userController = new UserController(mockService as UserService);
+
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+
+    mockNext = vi.fn();
+  });
+
+  describe('getTimeline', () => {
+    const timeline = {
+      userId: 'user_123',
+      firstSeen: '2025-01-02T10:00:00.000Z',
+      lastSeen: '2025-01-02T10:00:00.000Z',
+      totalSessions: 0,
+      totalEvents: 0,
+      sessions: [],
+    };
+
+    it('should return the user timeline', async () => {
+      mockRequest.params = { userId: 'user_123' };
+      mockService.getTimeline = vi.fn().mockResolvedValue(timeline);
+
+      await userController.getTimeline(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getTimeline).toHaveBeenCalledWith('user_123', undefined);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: timeline,
+      });
+    });
+
+    it('should pass the session limit', async () => {
+      mockRequest.params = { userId: 'user_123' };
+      mockRequest.query = { limit: '20' };
+      mockService.getTimeline = vi.fn().mockResolvedValue(timeline);
+
+      await userController.getTimeline(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getTimeline).toHaveBeenCalledWith('user_123', 20);
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      mockRequest.params = { userId: 'user_123' };
+      mockRequest.query = { limit: '1000' };
+
+      await userController.getTimeline(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockService.getTimeline).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'limit must be an integer between 1 and 500',
+      });
+    });
+
+    it('should return 404 when the user has no events', async () => {
+      mockRequest.params = { userId: 'user_unknown' };
+      mockService.getTimeline = vi.fn().mockResolvedValue(null);
+
+      await userController.getTimeline(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'User not found',
+      });
+    });
+
+    it('should pass errors to the error middleware', async () => {
+      const error = new Error('Database error');
+      mockRequest.params = { userId: 'user_123' };
+      mockService.getTimeline = vi.fn().mockRejectedValue(error);
+
+      await userController.getTimeline(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { ObjectId } from 'mongodb';
-import type { EventDocument } from '@/models/event.model';
+import type { EventDocument, PageViewContent } from '@/models/event.model';
 
 /**
  * Test fixtures for event documents
@@ -31,6 +31,25 @@ export const createMockEventDocument = (
   ...overrides,
 });
 
+/**
+ * A page view without UTM parameters, for pipelines run on the in-memory database
+ * Content overrides are merged into the page view's content
+ */
+export const createPageView = (
+  user_id: string,
+  path: string,
+  date: string,
+  { content, ...overrides }: Partial<Omit<EventDocument, 'content'>> & {
+    content?: Partial<PageViewContent>;
+  } = {}
+): EventDocument =>
+  createMockEventDocument({
+    user_id,
+    date: new Date(date),
+    content: { path, hostname: 'www.trainwell.net', first_view: false, ...content },
+    ...overrides,
+  });
+
 export const mockEvents: EventDocument[] = [
   createMockEventDocument({
     _id: new ObjectId('507f1f77bcf86cd799439011'),
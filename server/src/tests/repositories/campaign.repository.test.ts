@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { CampaignRepository } from '@/repositories/campaign.repository';
 import { createMockDb, getMockCollectionMethods } from '../utils/mongodb-mock';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createPageView } from '../fixtures/events.fixture';
 
 describe('CampaignRepository', () => {
   let campaignRepository: CampaignRepository;
@@ -206,3 +208,121 @@ describe('CampaignRepository', () => {
     });
   });
 });
+
+describe('CampaignRepository session metrics', () => {
+  const startDate = new Date('2025-01-01T00:00:00Z');
+  const endDate = new Date('2025-01-31T23:59:59Z');
+
+  it('should compute session duration, bounce rate and pages per session per UTM combination', async () => {
+    const google = 'utm_source=google&utm_medium=cpc&utm_campaign=winter';
+    const { db } = createInMemoryDb([
+      // Two page google session
+      createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', {
+        session_id: 'session_1',
+        content: { queryString: google },
+      }),
+      createPageView('user_1', '/pricing', '2025-01-02T10:04:00Z', { session_id: 'session_1' }),
+      // Google bounce
+      createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z', {
+        session_id: 'session_2',
+        content: { queryString: google },
+      }),
+      // Three page newsletter session
+      createPageView('user_3', '/blog', '2025-01-04T10:00:00Z', {
+        session_id: 'session_3',
+        content: { queryString: 'utm_source=newsletter' },
+      }),
+      createPageView('user_3', '/homepage', '2025-01-04T10:01:00Z', { session_id: 'session_3' }),
+      createPageView('user_3', '/pricing', '2025-01-04T10:02:00Z', { session_id: 'session_3' }),
+      // No UTM parameters on landing, so not attributed to a campaign
+      createPageView('user_4', '/homepage', '2025-01-05T10:00:00Z', { session_id: 'session_4' }),
+      createPageView('user_4', '/pricing', '2025-01-05T10:01:00Z', {
+        session_id: 'session_4',
+        content: { queryString: 'utm_source=partner' },
+      }),
+    ]);
+
+    const result = await new CampaignRepository(db).getCampaignMetrics(startDate, endDate);
+
+    const bySource = Object.fromEntries(result.map((campaign) => [campaign.utm_source, campaign]));
+    expect(bySource.google).toMatchObject({
+      totalUsers: 2,
+      avgSessionDuration: 2 * 60 * 1000,
+      bounceRate: 50,
+      avgPages: 1.5,
+    });
+    expect(bySource.newsletter).toMatchObject({
+      totalUsers: 1,
+      avgSessionDuration: 2 * 60 * 1000,
+      bounceRate: 0,
+      avgPages: 3,
+    });
+    expect(bySource.partner).toMatchObject({ totalUsers: 1 });
+    expect(bySource.partner!.avgSessionDuration).toBeUndefined();
+    expect(bySource.partner!.bounceRate).toBeUndefined();
+  });
+
+  it('should apply UTM filters to the sessions', async () => {
+    const { db, stats } = createInMemoryDb([
+      createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', {
+        session_id: 'session_1',
+        content: { queryString: 'utm_source=google' },
+      }),
+      createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z', {
+        session_id: 'session_2',
+        content: { queryString: 'utm_source=newsletter' },
+      }),
+    ]);
+
+    const result = await new CampaignRepository(db).getCampaignMetrics(startDate, endDate, 'google');
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ utm_source: 'google', bounceRate: 100, avgPages: 1 });
+    expect(
+      stats.pipelines[1]!.some((stage) => stage.$match?.['utm.utm_source'] === 'google')
+    ).toBe(true);
+  });
+
+  it('should fill pages per session on the campaign performance rows', async () => {
+    const { db } = createInMemoryDb([
+      createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', {
+        session_id: 'session_1',
+        content: { queryString: 'utm_source=google&utm_medium=cpc', first_view: true },
+      }),
+      createPageView('user_1', '/pricing', '2025-01-02T10:04:00Z', { session_id: 'session_1' }),
+      createPageView('user_1', '/checkout', '2025-01-02T10:06:00Z', { session_id: 'session_1' }),
+      // Lands without UTM parameters, so no session backs this combination
+      createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+      createPageView('user_2', '/pricing', '2025-01-03T10:01:00Z', {
+        session_id: 'session_2',
+        content: { queryString: 'utm_source=partner' },
+      }),
+    ]);
+
+    const result = await new CampaignRepository(db).getCampaignPerformance(startDate, endDate);
+
+    expect(result).toEqual(
+      expect.arrayContaining([
+        {
+          source: 'google',
+          medium: 'cpc',
+          campaign: '',
+          users: 1,
+          firstViews: 1,
+          conversionRate: 100,
+          avgPages: 3,
+        },
+        {
+          source: 'partner',
+          medium: '',
+          campaign: '',
+          users: 1,
+          firstViews: 0,
+          conversionRate: 0,
+          avgPages: 0,
+        },
+      ])
+    );
+    expect(result).toHaveLength(2);
+  });
+});
@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EventRepository } from '@/repositories/event.repository';
 import { createMockDb, getMockCollectionMethods } from '../utils/mongodb-mock';
-import { createMockEventDocument, mockEvents } from '../fixtures/events.fixture';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createMockEventDocument, mockEvents, createPageView } from '../fixtures/events.fixture';
 import { ObjectId } from 'mongodb';
+import type { EventDocument } from '@/models/event.model';
+import type { FunnelStepConfig } from '@trainwell-funnel/shared';
 
 describe('EventRepository', () => {
   let eventRepository: EventRepository;
@@ -48,6 +51,7 @@ describe('EventRepository', () => {
   describe('findMany', () => {
     it('should find events with filters', async () => {
       const mockFindCursor = {
+        sort: vi.fn().mockReturnThis(),
         limit: vi.fn().mockReturnThis(),
         skip: vi.fn().mockReturnThis(),
         toArray: vi.fn().mockResolvedValue(mockEvents),
@@ -65,6 +69,7 @@ describe('EventRepository', () => {
         platform: 'web',
         user_id: 'user_1',
       });
+      expect(mockFindCursor.sort).toHaveBeenCalledWith({ date: -1, _id: -1 });
       expect(mockFindCursor.limit).toHaveBeenCalledWith(10);
       expect(mockFindCursor.skip).toHaveBeenCalledWith(0);
     });
@@ -73,6 +78,7 @@ describe('EventRepository', () => {
       const startDate = new Date('2025-01-01');
       const endDate = new Date('2025-01-31');
       const mockFindCursor = {
+        sort: vi.fn().mockReturnThis(),
         limit: vi.fn().mockReturnThis(),
         skip: vi.fn().mockReturnThis(),
         toArray: vi.fn().mockResolvedValue([]),
@@ -89,6 +95,88 @@ describe('EventRepository', () => {
         },
       });
     });
+
+    describe('against in-memory events', () => {
+      // Two events share a date, so their order comes from _id
+      const events = [
+        createMockEventDocument({
+          _id: new ObjectId('000000000000000000000001'),
+          date: new Date('2025-01-01T10:00:00Z'),
+        }),
+        createMockEventDocument({
+          _id: new ObjectId('000000000000000000000003'),
+          date: new Date('2025-01-02T10:00:00Z'),
+        }),
+        createMockEventDocument({
+          _id: new ObjectId('000000000000000000000002'),
+          date: new Date('2025-01-02T10:00:00Z'),
+        }),
+        createMockEventDocument({
+          _id: new ObjectId('000000000000000000000004'),
+          date: new Date('2025-01-03T10:00:00Z'),
+        }),
+        createMockEventDocument({
+          _id: new ObjectId('000000000000000000000005'),
+          platform: 'ios',
+          date: new Date('2025-01-04T10:00:00Z'),
+        }),
+      ];
+      const ids = (documents: EventDocument[]) =>
+        documents.map((document) => document._id.toString().slice(-1));
+      const cursorAt = (index: number) => ({ date: events[index]!.date, id: events[index]!._id });
+
+      it('should list web events newest first by default', async () => {
+        const { db } = createInMemoryDb(events);
+
+        const result = await new EventRepository(db).findMany({}, 10, 0);
+
+        expect(ids(result)).toEqual(['4', '3', '2', '1']);
+      });
+
+      it('should list events oldest first when sorted ascending', async () => {
+        const { db } = createInMemoryDb(events);
+
+        const result = await new EventRepository(db).findMany({}, 10, 0, { sort: 'asc' });
+
+        expect(ids(result)).toEqual(['1', '2', '3', '4']);
+      });
+
+      it('should continue after a cursor, breaking date ties by _id', async () => {
+        const { db } = createInMemoryDb(events);
+        const repository = new EventRepository(db);
+
+        // Event 3 shares its date with event 2
+        const desc = await repository.findMany({}, 2, 0, { sort: 'desc', after: cursorAt(1) });
+        const asc = await repository.findMany({}, 2, 0, { sort: 'asc', after: cursorAt(2) });
+
+        expect(ids(desc)).toEqual(['2', '1']);
+        expect(ids(asc)).toEqual(['3', '4']);
+      });
+
+      it('should return the page before a cursor in sort order', async () => {
+        const { db } = createInMemoryDb(events);
+        const repository = new EventRepository(db);
+
+        const desc = await repository.findMany({}, 2, 0, { sort: 'desc', before: cursorAt(0) });
+        const asc = await repository.findMany({}, 2, 0, { sort: 'asc', before: cursorAt(3) });
+
+        expect(ids(desc)).toEqual(['3', '2']);
+        expect(ids(asc)).toEqual(['2', '3']);
+      });
+
+      it('should combine cursors with filters', async () => {
+        const { db } = createInMemoryDb(events);
+
+        const result = await new EventRepository(db).findMany(
+          { endDate: new Date('2025-01-02T12:00:00Z') },
+          10,
+          0,
+          { sort: 'desc', after: cursorAt(1) }
+        );
+
+        expect(ids(result)).toEqual(['2', '1']);
+      });
+    });
   });
 
   describe('count', () => {
@@ -105,139 +193,985 @@ describe('EventRepository', () => {
     });
   });
 
-  describe('getUsersForStep', () => {
-    it('should get unique users for a step without previous users', async () => {
+  describe('getFunnelStepMetrics', () => {
+    const steps = [
+      { name: 'Homepage', matchType: 'path' as const, matchValue: '/homepage' },
+      { name: 'Pricing', matchType: 'path' as const, matchValue: '/pricing' },
+      { name: 'Checkout', matchType: 'path' as const, matchValue: '/checkout' },
+    ];
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+
+    it('should compute the whole funnel in a single aggregation', async () => {
       const mockAggregateCursor = {
         toArray: vi.fn().mockResolvedValue([
-          { user_id: 'user_1' },
-          { user_id: 'user_2' },
+          { _id: null, step_0: 10, step_1: 6, step_2: 3 },
         ]),
       };
       mockCollection.aggregate.mockReturnValue(mockAggregateCursor as any);
 
-      const result = await eventRepository.getUsersForStep(
-        { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
-        new Date('2025-01-01'),
-        new Date('2025-01-31')
+      const { counts } = await eventRepository.getFunnelStepMetrics(
+        steps,
+        startDate,
+        endDate
       );
 
-      expect(result).toEqual(['user_1', 'user_2']);
-      expect(mockCollection.aggregate).toHaveBeenCalled();
-    });
+      expect(counts).toEqual([10, 6, 3]);
+      expect(mockCollection.aggregate).toHaveBeenCalledTimes(1);
 
-    it('should filter by previous step users', async () => {
-      const mockAggregateCursor = {
-        toArray: vi.fn().mockResolvedValue([{ user_id: 'user_1' }]),
-      };
-      mockCollection.aggregate.mockReturnValue(mockAggregateCursor as any);
+      const pipeline = mockCollection.aggregate.mock.calls[0][0];
+      expect(pipeline[0].$match).toMatchObject({
+        platform: 'web',
+        type: 'page_view',
+        date: { $gte: startDate, $lte: endDate },
+        $or: [
+          { 'content.path': '/homepage' },
+          { 'content.path': '/pricing' },
+          { 'content.path': '/checkout' },
+        ],
+      });
+    });
 
-      const result = await eventRepository.getUsersForStep(
-        { name: 'Pricing', matchType: 'path', matchValue: '/pricing' },
-        new Date('2025-01-01'),
-        new Date('2025-01-31'),
-        ['user_1', 'user_2']
+    it('should return zero counts when no events match', async () => {
+      const { counts } = await eventRepository.getFunnelStepMetrics(
+        steps,
+        startDate,
+        endDate
       );
 
-      expect(result).toEqual(['user_1']);
-      const aggregateCall = mockCollection.aggregate.mock.calls[0][0];
-      expect(aggregateCall[0].$match).toMatchObject({
-        user_id: { $in: ['user_1', 'user_2'] },
-      });
+      expect(counts).toEqual([0, 0, 0]);
     });
 
     it('should match by hostname when matchType is hostname', async () => {
-      const mockAggregateCursor = {
-        toArray: vi.fn().mockResolvedValue([{ user_id: 'user_1' }]),
-      };
-      mockCollection.aggregate.mockReturnValue(mockAggregateCursor as any);
+      await eventRepository.getFunnelStepMetrics(
+        [{ name: 'Main Site', matchType: 'hostname', matchValue: 'www.trainwell.net' }],
+        startDate,
+        endDate
+      );
 
-      await eventRepository.getUsersForStep(
-        {
-          name: 'Homepage',
-          matchType: 'hostname',
-          matchValue: 'www.trainwell.net',
-        },
-        new Date('2025-01-01'),
-        new Date('2025-01-31')
+      const pipeline = mockCollection.aggregate.mock.calls[0][0];
+      expect(pipeline[0].$match.$or).toEqual([
+        { 'content.hostname': 'www.trainwell.net' },
+      ]);
+    });
+
+    it('should translate startsWith into an escaped, anchored regex', async () => {
+      await eventRepository.getFunnelStepMetrics(
+        [
+          {
+            name: 'Checkout',
+            matchType: 'path',
+            matchValue: '/checkout/step-1?plan=a',
+            operator: 'startsWith',
+          },
+        ],
+        startDate,
+        endDate
       );
 
-      const aggregateCall = mockCollection.aggregate.mock.calls[0][0];
-      expect(aggregateCall[0].$match).toMatchObject({
-        'content.hostname': 'www.trainwell.net',
+      const pipeline = mockCollection.aggregate.mock.calls[0][0];
+      expect(pipeline[0].$match.$or).toEqual([
+        { 'content.path': { $regex: '^\\/checkout\\/step-1\\?plan=a' } },
+      ]);
+    });
+
+    it('should throw error when no steps are provided', async () => {
+      await expect(
+        eventRepository.getFunnelStepMetrics([], startDate, endDate)
+      ).rejects.toThrow('No steps provided');
+    });
+
+    describe('against in-memory events', () => {
+      it('should count users who complete the steps in order', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z'),
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z'),
+          createPageView('user_3', '/homepage', '2025-01-04T10:00:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([3, 2, 1]);
+      });
+
+      it('should not count users who completed a later step before an earlier one', async () => {
+        const { db } = createInMemoryDb([
+          // Checkout before pricing
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:10:00Z'),
+          // Pricing only before the homepage
+          createPageView('user_2', '/pricing', '2025-01-03T09:00:00Z'),
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([2, 1, 0]);
+      });
+
+      it('should ignore steps reached outside the conversion window', async () => {
+        const { db } = createInMemoryDb([
+          // Converts within an hour
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:20:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:40:00Z'),
+          // Reaches checkout a week later
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z'),
+          createPageView('user_2', '/checkout', '2025-01-10T10:00:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { conversionWindowMs: 60 * 60 * 1000 }
+        );
+
+        expect(counts).toEqual([2, 2, 1]);
+      });
+
+      it('should measure the window from a later step 1 event when that converts', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          // Comes back the next day and converts within the hour
+          createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-03T10:10:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-03T10:20:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { conversionWindowMs: 60 * 60 * 1000 }
+        );
+
+        expect(counts).toEqual([1, 1, 1]);
+      });
+
+      it('should match steps with startsWith, contains, regex and glob operators', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/plans/monthly/checkout', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/checkout/step-1/', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/welcome-back', '2025-01-02T10:10:00Z'),
+          createPageView('user_1', '/order/1234/done', '2025-01-02T10:15:00Z'),
+          // Glob * does not cross path segments
+          createPageView('user_2', '/plans/a/b/checkout', '2025-01-03T10:00:00Z'),
+          // Contains is literal, so "." is not a wildcard
+          createPageView('user_3', '/plans/x/checkout', '2025-01-04T10:00:00Z'),
+          createPageView('user_3', '/checkout/step-1', '2025-01-04T10:05:00Z'),
+          createPageView('user_3', '/welcomeback', '2025-01-04T10:10:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            { name: 'Plan checkout', matchType: 'path', matchValue: '/plans/*/checkout', operator: 'glob' },
+            { name: 'Checkout', matchType: 'path', matchValue: '/checkout/step-1', operator: 'startsWith' },
+            { name: 'Welcome', matchType: 'path', matchValue: 'welcome-', operator: 'contains' },
+            { name: 'Order', matchType: 'path', matchValue: '^/order/\\d+/done$', operator: 'regex' },
+          ],
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([2, 2, 1, 1]);
+      });
+
+      it('should match literal regex characters with the contains operator', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/search?q=a.b', '2025-01-02T10:00:00Z'),
+          createPageView('user_2', '/search?q=axb', '2025-01-02T10:00:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          [{ name: 'Search', matchType: 'path', matchValue: 'q=a.b', operator: 'contains' }],
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([1]);
+      });
+
+      it('should not let a single event satisfy two consecutive steps', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+            { name: 'Homepage again', matchType: 'path', matchValue: '/homepage' },
+          ],
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([1, 0]);
+      });
+
+      it('should measure time to convert between consecutive steps', async () => {
+        const { db } = createInMemoryDb([
+          // 1, 2, 3 and 4 minutes from homepage to pricing, 2 days to checkout
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:01:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-04T10:01:00Z'),
+          createPageView('user_2', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-02T10:02:00Z'),
+          createPageView('user_3', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_3', '/pricing', '2025-01-02T10:03:00Z'),
+          createPageView('user_4', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_4', '/pricing', '2025-01-02T10:04:00Z'),
+          createPageView('user_5', '/homepage', '2025-01-02T10:00:00Z'),
+        ]);
+
+        const { counts, timeToConvert } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+            { name: 'Pricing', matchType: 'path', matchValue: '/pricing' },
+            { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+          ],
+          startDate,
+          endDate
+        );
+
+        const minute = 60 * 1000;
+        const day = 24 * 60 * minute;
+        expect(counts).toEqual([5, 4, 1]);
+        expect(timeToConvert[0]).toBeNull();
+        expect(timeToConvert[1]).toMatchObject({
+          medianMs: 2 * minute,
+          p75Ms: 3 * minute,
+          p90Ms: 4 * minute,
+          meanMs: 2.5 * minute,
+        });
+        expect(timeToConvert[1]?.histogram.slice(0, 2)).toEqual([
+          { minMs: 0, maxMs: minute, users: 0 },
+          { minMs: minute, maxMs: 5 * minute, users: 4 },
+        ]);
+        expect(timeToConvert[2]?.medianMs).toBe(2 * day);
+        expect(timeToConvert[2]?.histogram.at(-3)).toEqual({
+          minMs: day,
+          maxMs: 3 * day,
+          users: 1,
+        });
+      });
+
+      it('should not report time to convert for steps nobody reached', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+        ]);
+
+        const { timeToConvert } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+            { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+          ],
+          startDate,
+          endDate
+        );
+
+        expect(timeToConvert).toEqual([null, null]);
+      });
+
+      it('should match compound conditions on UTM, hostname and first view', async () => {
+        const { db } = createInMemoryDb([
+          // UTM parsed from the raw query string
+          createMockEventDocument({
+            user_id: 'user_1',
+            date: new Date('2025-01-02T10:00:00Z'),
+            content: {
+              path: '/',
+              hostname: 'join.trainwell.net',
+              first_view: true,
+              queryString: '?utm_source=facebook&utm_medium=paid',
+            },
+          }),
+          createPageView('user_1', '/checkout', '2025-01-02T10:05:00Z'),
+          // UTM stored on the event, wrong hostname
+          createMockEventDocument({
+            user_id: 'user_2',
+            date: new Date('2025-01-03T10:00:00Z'),
+            content: {
+              path: '/',
+              hostname: 'www.trainwell.net',
+              first_view: true,
+              utm: {
+                utm_source: 'facebook',
+                utm_medium: null,
+                utm_campaign: null,
+                utm_term: null,
+                utm_content: null,
+              },
+            },
+          }),
+          // Matching hostname and UTM, but a returning visitor
+          createMockEventDocument({
+            user_id: 'user_3',
+            date: new Date('2025-01-04T10:00:00Z'),
+            content: {
+              path: '/',
+              hostname: 'join.trainwell.net',
+              first_view: false,
+              queryString: 'utm_source=facebook',
+            },
+          }),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            {
+              name: 'Facebook landing',
+              conditions: {
+                combinator: 'and',
+                conditions: [
+                  { field: 'utm_source', operator: 'equals', value: 'facebook' },
+                  { field: 'hostname', operator: 'startsWith', value: 'join.' },
+                  { field: 'first_view', operator: 'equals', value: true },
+                ],
+              },
+            },
+            { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+          ],
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([1, 1]);
+      });
+
+      it('should match nested groups and existence checks', async () => {
+        const { db } = createInMemoryDb([
+          createMockEventDocument({
+            user_id: 'user_1',
+            date: new Date('2025-01-02T10:00:00Z'),
+            content: { path: '/plans', hostname: 'www.trainwell.net', first_view: false },
+          }),
+          createMockEventDocument({
+            user_id: 'user_2',
+            device_id: null,
+            date: new Date('2025-01-02T10:00:00Z'),
+            content: { path: '/pricing', hostname: 'www.trainwell.net', first_view: false },
+          }),
+          createMockEventDocument({
+            user_id: 'user_3',
+            date: new Date('2025-01-02T10:00:00Z'),
+            content: { path: '/blog', hostname: 'www.trainwell.net', first_view: false },
+          }),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            {
+              name: 'Plans or pricing on a known device',
+              conditions: {
+                combinator: 'and',
+                conditions: [
+                  { field: 'device_id', operator: 'exists' },
+                  {
+                    combinator: 'or',
+                    conditions: [
+                      { field: 'path', operator: 'equals', value: '/plans' },
+                      { field: 'path', operator: 'equals', value: '/pricing' },
+                    ],
+                  },
+                ],
+              },
+            },
+          ],
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([1]);
+      });
+
+      it('should let users skip an optional step', async () => {
+        const optionalSteps = [
+          { name: 'Homepage', matchType: 'path' as const, matchValue: '/homepage' },
+          { name: 'Quiz', matchType: 'path' as const, matchValue: '/quiz', optional: true },
+          { name: 'Checkout', matchType: 'path' as const, matchValue: '/checkout' },
+        ];
+        const { db } = createInMemoryDb([
+          // Takes the quiz
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/quiz', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:15:00Z'),
+          // Skips it
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/checkout', '2025-01-03T10:30:00Z'),
+          // Only lands
+          createPageView('user_3', '/homepage', '2025-01-04T10:00:00Z'),
+        ]);
+
+        const { counts, timeToConvert } = await new EventRepository(db).getFunnelStepMetrics(
+          optionalSteps,
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([3, 1, 2]);
+        // Measured from the quiz for user_1 and from the homepage for user_2
+        expect(timeToConvert[2]).toMatchObject({
+          medianMs: 10 * 60 * 1000,
+          p90Ms: 30 * 60 * 1000,
+        });
+      });
+
+      it('should complete a step on any of its matchers', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/signup', '2025-01-02T10:05:00Z'),
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/register', '2025-01-03T10:05:00Z'),
+          createPageView('user_3', '/homepage', '2025-01-04T10:00:00Z'),
+          createPageView('user_3', '/login', '2025-01-04T10:05:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          [
+            { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+            {
+              name: 'Signup',
+              anyOf: [
+                { matchType: 'path', matchValue: '/signup' },
+                { matchType: 'path', matchValue: '/register' },
+              ],
+            },
+          ],
+          startDate,
+          endDate
+        );
+
+        expect(counts).toEqual([3, 2]);
+      });
+
+      it('should only count conversions within a single session in session mode', async () => {
+        const { db } = createInMemoryDb([
+          // Converts in one session
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+          createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z', { session_id: 'session_1' }),
+          // Lands again the next day without converting
+          createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+          // Spreads the funnel over two sessions
+          createPageView('user_2', '/homepage', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+          createPageView('user_2', '/pricing', '2025-01-04T10:05:00Z', { session_id: 'session_3' }),
+          createPageView('user_2', '/checkout', '2025-01-05T10:00:00Z', { session_id: 'session_4' }),
+        ]);
+
+        const metrics = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { countBy: 'session' }
+        );
+
+        expect(metrics.counts).toEqual([3, 2, 1]);
+        expect(metrics.users).toEqual([2, 2, 1]);
+      });
+
+      it('should not merge sessions of different users in session mode', async () => {
+        const noSession = { session_id: null as unknown as string };
+        const { db } = createInMemoryDb([
+          // Two users sharing a session id
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'shared' }),
+          createPageView('user_2', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'shared' }),
+          createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z', { session_id: 'shared' }),
+          // Two users without a session id
+          createPageView('user_3', '/homepage', '2025-01-03T10:00:00Z', noSession),
+          createPageView('user_4', '/pricing', '2025-01-03T10:05:00Z', noSession),
+        ]);
+
+        const metrics = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { countBy: 'session' }
+        );
+
+        expect(metrics.counts).toEqual([2, 0, 0]);
+        expect(metrics.users).toEqual([2, 0, 0]);
+      });
+
+      it('should remove users who hit an exclusion between two steps', async () => {
+        const { db } = createInMemoryDb([
+          // Clean conversion
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z'),
+          // Cancels between pricing and checkout
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z'),
+          createPageView('user_2', '/cancel', '2025-01-03T10:06:00Z'),
+          createPageView('user_2', '/checkout', '2025-01-03T10:10:00Z'),
+          // Cancels before reaching pricing, outside the exclusion
+          createPageView('user_3', '/homepage', '2025-01-04T10:00:00Z'),
+          createPageView('user_3', '/cancel', '2025-01-04T10:01:00Z'),
+          createPageView('user_3', '/pricing', '2025-01-04T10:05:00Z'),
+          // Cancels after checkout
+          createPageView('user_4', '/homepage', '2025-01-05T10:00:00Z'),
+          createPageView('user_4', '/pricing', '2025-01-05T10:05:00Z'),
+          createPageView('user_4', '/checkout', '2025-01-05T10:10:00Z'),
+          createPageView('user_4', '/cancel', '2025-01-05T10:15:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { exclusions: [{ matchType: 'path', matchValue: '/cancel', fromStep: 1, toStep: 2 }] }
+        );
+
+        expect(counts).toEqual([3, 3, 2]);
+      });
+
+      it('should keep users with a clean attempt after an excluded one', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/cancel', '2025-01-02T10:06:00Z'),
+          createPageView('user_1', '/homepage', '2025-01-02T11:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T11:05:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T11:10:00Z'),
+          // Excluded and never gets as far again
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z'),
+          createPageView('user_2', '/cancel', '2025-01-03T10:06:00Z'),
+          createPageView('user_2', '/homepage', '2025-01-03T11:00:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { exclusions: [{ matchType: 'path', matchValue: '/cancel', fromStep: 0, toStep: 2 }] }
+        );
+
+        expect(counts).toEqual([1, 1, 1]);
+      });
+
+      it('should keep users who converted before an excluded attempt', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z'),
+          // Lands again later and cancels
+          createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_1', '/cancel', '2025-01-03T10:01:00Z'),
+        ]);
+
+        const { counts, timeToConvert } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { exclusions: [{ matchType: 'path', matchValue: '/cancel', fromStep: 0, toStep: 2 }] }
+        );
+
+        expect(counts).toEqual([1, 1, 1]);
+        // Measured on the converted attempt
+        expect(timeToConvert[1]?.medianMs).toBe(5 * 60 * 1000);
+      });
+
+      it('should break paths on any page view between steps in strict order', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z'),
+          // Reads the blog before pricing
+          createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/blog', '2025-01-03T10:02:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z'),
+          createPageView('user_2', '/checkout', '2025-01-03T10:10:00Z'),
+          // Reads the blog before checkout
+          createPageView('user_3', '/homepage', '2025-01-04T10:00:00Z'),
+          createPageView('user_3', '/pricing', '2025-01-04T10:05:00Z'),
+          createPageView('user_3', '/blog', '2025-01-04T10:07:00Z'),
+          createPageView('user_3', '/checkout', '2025-01-04T10:10:00Z'),
+        ]);
+
+        const repository = new EventRepository(db);
+        const strict = await repository.getFunnelStepMetrics(steps, startDate, endDate, {
+          order: 'strict',
+        });
+        const sequential = await repository.getFunnelStepMetrics(steps, startDate, endDate);
+
+        expect(strict.counts).toEqual([3, 2, 1]);
+        expect(sequential.counts).toEqual([3, 3, 3]);
+      });
+
+      it('should count steps done in any order without time to convert', async () => {
+        const { db } = createInMemoryDb([
+          // Completes the funnel backwards
+          createPageView('user_1', '/checkout', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          createPageView('user_1', '/homepage', '2025-01-02T10:10:00Z'),
+          // Never lands
+          createPageView('user_2', '/pricing', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/checkout', '2025-01-03T10:05:00Z'),
+          // Skips pricing
+          createPageView('user_3', '/checkout', '2025-01-04T10:00:00Z'),
+          createPageView('user_3', '/homepage', '2025-01-04T10:05:00Z'),
+        ]);
+
+        const { counts, timeToConvert } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { order: 'any' }
+        );
+
+        expect(counts).toEqual([2, 1, 1]);
+        expect(timeToConvert).toEqual([null, null, null]);
+      });
+
+      it('should require all unordered steps within one conversion window', async () => {
+        const { db } = createInMemoryDb([
+          createPageView('user_1', '/checkout', '2025-01-02T10:00:00Z'),
+          createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+          // Lands a week later
+          createPageView('user_1', '/homepage', '2025-01-09T10:00:00Z'),
+          createPageView('user_2', '/pricing', '2025-01-03T10:00:00Z'),
+          createPageView('user_2', '/homepage', '2025-01-03T10:05:00Z'),
+          createPageView('user_2', '/checkout', '2025-01-03T10:10:00Z'),
+        ]);
+
+        const { counts } = await new EventRepository(db).getFunnelStepMetrics(
+          steps,
+          startDate,
+          endDate,
+          { order: 'any', conversionWindowMs: 60 * 60 * 1000 }
+        );
+
+        expect(counts).toEqual([2, 1, 1]);
       });
     });
   });
 
-  describe('getUsersCompletingSequentialSteps', () => {
-    it('should return all users for step 0', async () => {
-      const mockAggregateCursor = {
-        toArray: vi.fn().mockResolvedValue([
-          { user_id: 'user_1' },
-          { user_id: 'user_2' },
-        ]),
-      };
-      mockCollection.aggregate.mockReturnValue(mockAggregateCursor as any);
+  describe('getFunnelTrendMetrics', () => {
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+    const steps: FunnelStepConfig[] = [
+      { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+      { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+    ];
 
-      const steps = [
-        { name: 'Homepage', matchType: 'path' as const, matchValue: '/homepage' },
-      ];
+    it('should bucket users by the step 1 date of their furthest path', async () => {
+      const { db } = createInMemoryDb([
+        // Week of Dec 30: only user_1 and user_2 start there
+        createPageView('user_1', '/homepage', '2025-01-01T10:00:00Z'),
+        createPageView('user_1', '/checkout', '2025-01-01T10:05:00Z'),
+        createPageView('user_2', '/homepage', '2025-01-02T10:00:00Z'),
+        // user_3 returns the next week and converts, so counts in that week
+        createPageView('user_3', '/homepage', '2025-01-03T10:00:00Z'),
+        createPageView('user_3', '/homepage', '2025-01-07T10:00:00Z'),
+        createPageView('user_3', '/checkout', '2025-01-07T10:05:00Z'),
+        createPageView('user_4', '/homepage', '2025-01-08T10:00:00Z'),
+      ]);
 
-      const result = await eventRepository.getUsersCompletingSequentialSteps(
+      const { totals, periods } = await new EventRepository(db).getFunnelTrendMetrics(
         steps,
-        0,
-        new Date('2025-01-01'),
-        new Date('2025-01-31')
+        startDate,
+        endDate,
+        'week'
       );
 
-      expect(result).toEqual(['user_1', 'user_2']);
+      expect(totals.counts).toEqual([4, 2]);
+      expect(periods.map(({ periodStart, counts }) => ({ periodStart, counts }))).toEqual([
+        { periodStart: new Date('2024-12-30T00:00:00Z'), counts: [2, 1] },
+        { periodStart: new Date('2025-01-06T00:00:00Z'), counts: [2, 1] },
+      ]);
+      expect(periods[0]?.timeToConvert).toEqual([null, null]);
     });
 
-    it('should progressively filter users through multiple steps', async () => {
-      // First call: step 0 - returns 2 users
-      // Second call: step 1 with previous users - returns 1 user
-      const mockAggregateCursor1 = {
-        toArray: vi.fn().mockResolvedValue([
-          { user_id: 'user_1' },
-          { user_id: 'user_2' },
-        ]),
-      };
-      const mockAggregateCursor2 = {
-        toArray: vi.fn().mockResolvedValue([{ user_id: 'user_1' }]),
-      };
+    it('should throw error when no steps are provided', async () => {
+      await expect(
+        eventRepository.getFunnelTrendMetrics([], startDate, endDate, 'day')
+      ).rejects.toThrow('No steps provided');
+    });
+  });
 
-      mockCollection.aggregate
-        .mockReturnValueOnce(mockAggregateCursor1 as any)
-        .mockReturnValueOnce(mockAggregateCursor2 as any);
+  describe('getFunnelBreakdownMetrics', () => {
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+    const steps: FunnelStepConfig[] = [
+      { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+      { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+    ];
 
-      const steps = [
-        { name: 'Homepage', matchType: 'path' as const, matchValue: '/homepage' },
-        { name: 'Pricing', matchType: 'path' as const, matchValue: '/pricing' },
-      ];
+    const byUtmSource = (source: string) => ({
+      content: { queryString: `?utm_source=${source}` },
+    });
+    const firstView = { content: { first_view: true } };
+
+    it('should attribute users to the property on their first step 1 event', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', byUtmSource('google')),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', byUtmSource('bing')),
+        createPageView('user_1', '/checkout', '2025-01-03T10:05:00Z'),
+        createPageView('user_2', '/homepage', '2025-01-02T10:00:00Z', byUtmSource('google')),
+        createPageView('user_3', '/homepage', '2025-01-02T10:00:00Z'),
+        createPageView('user_3', '/checkout', '2025-01-02T10:05:00Z'),
+        // Never reaches step 1, so belongs to no segment
+        createPageView('user_4', '/checkout', '2025-01-02T10:00:00Z', byUtmSource('bing')),
+      ]);
+
+      const { totals, segments } = await new EventRepository(
+        db
+      ).getFunnelBreakdownMetrics(steps, startDate, endDate, 'utm_source');
+
+      expect(totals.counts).toEqual([3, 2]);
+      expect(segments.map(({ segment, counts }) => ({ segment, counts }))).toEqual(
+        expect.arrayContaining([
+          { segment: 'google', counts: [2, 1] },
+          { segment: null, counts: [1, 1] },
+        ])
+      );
+      expect(segments).toHaveLength(2);
+    });
+
+    it('should attribute users to their first-touch landing path', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/blog/strength', '2025-01-02T09:00:00Z', firstView),
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+        createPageView('user_1', '/checkout', '2025-01-02T10:05:00Z'),
+        createPageView('user_2', '/blog/strength', '2025-01-02T09:00:00Z', firstView),
+        createPageView('user_2', '/homepage', '2025-01-02T10:00:00Z'),
+        createPageView('user_3', '/homepage', '2025-01-02T10:00:00Z', firstView),
+        // Landed but never entered the funnel
+        createPageView('user_4', '/blog/strength', '2025-01-02T09:00:00Z', firstView),
+      ]);
+
+      const { segments } = await new EventRepository(db).getFunnelBreakdownMetrics(
+        steps,
+        startDate,
+        endDate,
+        'landing_path'
+      );
+
+      expect(segments).toHaveLength(2);
+      expect(segments.map(({ segment, counts }) => ({ segment, counts }))).toEqual(
+        expect.arrayContaining([
+          { segment: '/blog/strength', counts: [2, 1] },
+          { segment: '/homepage', counts: [1, 0] },
+        ])
+      );
+    });
+
+    it('should count the distinct users of each segment in session mode', async () => {
+      const { db } = createInMemoryDb([
+        // Two google sessions from the same user, one converting
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', {
+          session_id: 'session_1',
+          ...byUtmSource('google'),
+        }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:04:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', {
+          session_id: 'session_2',
+          ...byUtmSource('google'),
+        }),
+        createPageView('user_2', '/homepage', '2025-01-02T10:00:00Z', {
+          session_id: 'session_3',
+          ...byUtmSource('bing'),
+        }),
+      ]);
+
+      const { totals, segments } = await new EventRepository(db).getFunnelBreakdownMetrics(
+        steps,
+        startDate,
+        endDate,
+        'utm_source',
+        { countBy: 'session' }
+      );
 
-      const result = await eventRepository.getUsersCompletingSequentialSteps(
+      expect(totals.counts).toEqual([3, 1]);
+      expect(totals.users).toEqual([2, 1]);
+      expect(totals.timeToConvert[1]?.medianMs).toBe(4 * 60 * 1000);
+      expect(
+        segments.map(({ segment, counts, users }) => ({ segment, counts, users }))
+      ).toEqual(
+        expect.arrayContaining([
+          { segment: 'google', counts: [2, 1], users: [1, 1] },
+          { segment: 'bing', counts: [1, 0], users: [1, 0] },
+        ])
+      );
+      expect(segments).toHaveLength(2);
+    });
+
+    it('should throw error when no steps are provided', async () => {
+      await expect(
+        eventRepository.getFunnelBreakdownMetrics([], startDate, endDate, 'hostname')
+      ).rejects.toThrow('No steps provided');
+    });
+  });
+
+  describe('getFunnelUsers', () => {
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+    const steps: FunnelStepConfig[] = [
+      { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+      { name: 'Pricing', matchType: 'path', matchValue: '/pricing' },
+      { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+    ];
+
+    const events = [
+      createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+      createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+      createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z'),
+      createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+      createPageView('user_2', '/pricing', '2025-01-04T10:00:00Z'),
+      createPageView('user_3', '/homepage', '2025-01-05T10:00:00Z'),
+      createPageView('user_3', '/pricing', '2025-01-05T10:05:00Z'),
+      // Pricing again later, still never checks out
+      createPageView('user_3', '/pricing', '2025-01-06T10:00:00Z'),
+      createPageView('user_4', '/homepage', '2025-01-07T10:00:00Z'),
+    ];
+
+    it('should list users who dropped off after a step, most recently active first', async () => {
+      const { db } = createInMemoryDb(events);
+
+      const page = await new EventRepository(db).getFunnelUsers(
         steps,
+        startDate,
+        endDate,
         1,
-        new Date('2025-01-01'),
-        new Date('2025-01-31')
+        'dropped',
+        50,
+        0
       );
 
-      expect(result).toEqual(['user_1']);
-      expect(mockCollection.aggregate).toHaveBeenCalledTimes(2);
+      expect(page).toEqual({
+        total: 2,
+        users: [
+          {
+            user_id: 'user_3',
+            firstEventAt: new Date('2025-01-05T10:00:00Z'),
+            lastEventAt: new Date('2025-01-06T10:00:00Z'),
+          },
+          {
+            user_id: 'user_2',
+            firstEventAt: new Date('2025-01-03T10:00:00Z'),
+            lastEventAt: new Date('2025-01-04T10:00:00Z'),
+          },
+        ],
+      });
     });
 
-    it('should throw error for invalid step index', async () => {
-      const steps = [
-        { name: 'Homepage', matchType: 'path' as const, matchValue: '/homepage' },
-      ];
+    it('should page through users who reached a step', async () => {
+      const { db } = createInMemoryDb(events);
+      const repository = new EventRepository(db);
 
+      const first = await repository.getFunnelUsers(steps, startDate, endDate, 0, 'converted', 3, 0);
+      const second = await repository.getFunnelUsers(steps, startDate, endDate, 0, 'converted', 3, 3);
+
+      expect(first.total).toBe(4);
+      expect(first.users.map((user) => user.user_id)).toEqual(['user_4', 'user_3', 'user_2']);
+      expect(second.users.map((user) => user.user_id)).toEqual(['user_1']);
+    });
+
+    it('should throw error when the step index is out of range', async () => {
       await expect(
-        eventRepository.getUsersCompletingSequentialSteps(
-          steps,
-          5,
-          new Date('2025-01-01'),
-          new Date('2025-01-31')
-        )
-      ).rejects.toThrow('Invalid step index: 5');
+        eventRepository.getFunnelUsers(steps, startDate, endDate, 3, 'converted', 50, 0)
+      ).rejects.toThrow('Step index out of range');
+    });
+  });
+
+  describe('getFunnelNextPages', () => {
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+    const steps: FunnelStepConfig[] = [
+      { name: 'Homepage', matchType: 'path', matchValue: '/homepage' },
+      { name: 'Pricing', matchType: 'path', matchValue: '/pricing' },
+      { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+    ];
+
+    it('should count the first other page drop-offs visited after the step', async () => {
+      const { db } = createInMemoryDb([
+        // Visited the blog before pricing, so it isn't a next page
+        createPageView('user_1', '/blog', '2025-01-02T09:00:00Z'),
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z'),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z'),
+        // Reloads pricing, then reads the FAQ
+        createPageView('user_1', '/pricing', '2025-01-02T10:06:00Z'),
+        createPageView('user_1', '/faq', '2025-01-02T10:07:00Z'),
+        createPageView('user_1', '/blog', '2025-01-02T10:08:00Z'),
+        createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z'),
+        createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z'),
+        createPageView('user_2', '/faq', '2025-01-03T10:06:00Z'),
+        createPageView('user_3', '/homepage', '2025-01-04T10:00:00Z'),
+        createPageView('user_3', '/pricing', '2025-01-04T10:05:00Z'),
+        createPageView('user_3', '/blog', '2025-01-04T10:06:00Z'),
+        // Leaves after pricing
+        createPageView('user_4', '/homepage', '2025-01-05T10:00:00Z'),
+        createPageView('user_4', '/pricing', '2025-01-05T10:05:00Z'),
+        // Converts, so isn't a drop-off
+        createPageView('user_5', '/homepage', '2025-01-06T10:00:00Z'),
+        createPageView('user_5', '/pricing', '2025-01-06T10:05:00Z'),
+        createPageView('user_5', '/checkout', '2025-01-06T10:10:00Z'),
+      ]);
+
+      const metrics = await new EventRepository(db).getFunnelNextPages(
+        steps,
+        startDate,
+        endDate,
+        1,
+        10
+      );
+
+      expect(metrics).toEqual({
+        dropped: 4,
+        exited: 1,
+        pages: [
+          { path: '/faq', hostname: 'www.trainwell.net', count: 2 },
+          { path: '/blog', hostname: 'www.trainwell.net', count: 1 },
+        ],
+      });
+    });
+
+    it('should look for the next page in the same session of the same user in session mode', async () => {
+      const noSession = { session_id: null as unknown as string };
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', noSession),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', noSession),
+        createPageView('user_1', '/faq', '2025-01-02T10:06:00Z', noSession),
+        createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z', noSession),
+        createPageView('user_2', '/pricing', '2025-01-03T10:05:00Z', noSession),
+        // Continues in another session
+        createPageView('user_2', '/blog', '2025-01-04T10:00:00Z', { session_id: 'session_2' }),
+      ]);
+
+      const metrics = await new EventRepository(db).getFunnelNextPages(
+        steps,
+        startDate,
+        endDate,
+        1,
+        10,
+        { countBy: 'session' }
+      );
+
+      expect(metrics).toEqual({
+        dropped: 2,
+        exited: 1,
+        pages: [{ path: '/faq', hostname: 'www.trainwell.net', count: 1 }],
+      });
+    });
+
+    it('should throw error for the last step', async () => {
+      await expect(
+        eventRepository.getFunnelNextPages(steps, startDate, endDate, 2, 10)
+      ).rejects.toThrow('Step index out of range');
     });
   });
 });
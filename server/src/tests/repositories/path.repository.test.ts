@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { PathRepository } from '@/repositories/path.repository';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createPageView } from '../fixtures/events.fixture';
+
+describe('PathRepository', () => {
+  describe('getPathTransitions', () => {
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+
+    it('should count transitions following the anchor page', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/pricing', '2025-01-03T10:05:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/blog', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+        createPageView('user_1', '/homepage', '2025-01-04T10:05:00Z', { session_id: 'session_3' }),
+        createPageView('user_1', '/about', '2025-01-04T10:10:00Z', { session_id: 'session_3' }),
+        // Never views the anchor page
+        createPageView('user_1', '/pricing', '2025-01-05T10:00:00Z', { session_id: 'session_4' }),
+      ]);
+
+      const result = await new PathRepository(db).getPathTransitions(
+        startDate,
+        endDate,
+        'start',
+        '/homepage',
+        3,
+        10
+      );
+
+      expect(result.sessions).toBe(3);
+      expect(result.transitions).toEqual([
+        { step: 0, source: '/homepage', target: '/pricing', sessions: 2 },
+        { step: 0, source: '/homepage', target: '/about', sessions: 1 },
+        { step: 1, source: '/pricing', target: '/checkout', sessions: 1 },
+      ]);
+    });
+
+    it('should place the anchor page in the last column when paths end there', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/checkout', '2025-01-03T10:05:00Z', { session_id: 'session_2' }),
+      ]);
+
+      const result = await new PathRepository(db).getPathTransitions(
+        startDate,
+        endDate,
+        'end',
+        '/checkout',
+        2,
+        10
+      );
+
+      expect(result.sessions).toBe(2);
+      expect(result.transitions).toEqual([
+        { step: 0, source: '/homepage', target: '/pricing', sessions: 1 },
+        { step: 1, source: '/pricing', target: '/checkout', sessions: 2 },
+      ]);
+    });
+
+    it('should collapse repeated views and stop at the depth', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-02T10:01:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:10:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new PathRepository(db).getPathTransitions(
+        startDate,
+        endDate,
+        'start',
+        '/homepage',
+        1,
+        10
+      );
+
+      expect(result.transitions).toEqual([
+        { step: 0, source: '/homepage', target: '/pricing', sessions: 1 },
+      ]);
+    });
+
+    it('should keep the most common transitions of each step', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/pricing', '2025-01-03T10:05:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/homepage', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+        createPageView('user_1', '/about', '2025-01-04T10:05:00Z', { session_id: 'session_3' }),
+      ]);
+
+      const result = await new PathRepository(db).getPathTransitions(
+        startDate,
+        endDate,
+        'start',
+        '/homepage',
+        2,
+        1
+      );
+
+      expect(result.transitions).toEqual([
+        { step: 0, source: '/homepage', target: '/pricing', sessions: 2 },
+      ]);
+    });
+
+    it('should not merge the sessions of different users', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'shared' }),
+        createPageView('user_2', '/pricing', '2025-01-02T10:01:00Z', { session_id: 'shared' }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:05:00Z', { session_id: 'shared' }),
+      ]);
+
+      const result = await new PathRepository(db).getPathTransitions(
+        startDate,
+        endDate,
+        'start',
+        '/homepage',
+        2,
+        10
+      );
+
+      expect(result.sessions).toBe(1);
+      expect(result.transitions).toEqual([
+        { step: 0, source: '/homepage', target: '/checkout', sessions: 1 },
+      ]);
+    });
+
+    it('should split a reused session id after 30 minutes of inactivity', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        // A later visit reusing the session id
+        createPageView('user_1', '/homepage', '2025-01-02T11:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/about', '2025-01-02T11:05:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new PathRepository(db).getPathTransitions(
+        startDate,
+        endDate,
+        'start',
+        '/homepage',
+        3,
+        10
+      );
+
+      expect(result.sessions).toBe(2);
+      expect(result.transitions).toEqual([
+        { step: 0, source: '/homepage', target: '/about', sessions: 1 },
+        { step: 0, source: '/homepage', target: '/pricing', sessions: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { RetentionRepository } from '@/repositories/retention.repository';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createPageView } from '../fixtures/events.fixture';
+
+describe('RetentionRepository', () => {
+  describe('getRetentionCohorts', () => {
+    const startEvent = { matchType: 'path' as const, matchValue: '/onboarding' };
+    const returnEvent = { matchType: 'path' as const, matchValue: '/workouts' };
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+
+    it('should count returning users per cohort and period', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/onboarding', '2025-01-02T10:00:00Z'),
+        createPageView('user_1', '/workouts', '2025-01-02T12:00:00Z'),
+        createPageView('user_1', '/workouts', '2025-01-03T11:00:00Z'),
+        // A second visit in the same period only counts once
+        createPageView('user_1', '/workouts', '2025-01-03T12:00:00Z'),
+        createPageView('user_2', '/onboarding', '2025-01-02T18:00:00Z'),
+        createPageView('user_2', '/workouts', '2025-01-04T19:00:00Z'),
+        createPageView('user_3', '/onboarding', '2025-01-03T10:00:00Z'),
+        // Returning without a start event doesn't enter a cohort
+        createPageView('user_4', '/workouts', '2025-01-03T10:00:00Z'),
+      ]);
+
+      const result = await new RetentionRepository(db).getRetentionCohorts(
+        startEvent,
+        returnEvent,
+        startDate,
+        endDate,
+        'day',
+        3
+      );
+
+      expect(result).toEqual([
+        { cohortStart: new Date('2025-01-02T00:00:00Z'), users: 2, retained: [1, 1, 1] },
+        { cohortStart: new Date('2025-01-03T00:00:00Z'), users: 1, retained: [0, 0, 0] },
+      ]);
+    });
+
+    it('should use the first start event and ignore returns before it', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/workouts', '2025-01-01T10:00:00Z'),
+        createPageView('user_1', '/onboarding', '2025-01-06T10:00:00Z'),
+        createPageView('user_1', '/onboarding', '2025-01-14T10:00:00Z'),
+        createPageView('user_1', '/workouts', '2025-01-15T10:00:00Z'),
+      ]);
+
+      const result = await new RetentionRepository(db).getRetentionCohorts(
+        startEvent,
+        returnEvent,
+        startDate,
+        endDate,
+        'week',
+        2
+      );
+
+      // Monday Jan 6 cohort, returning 9 days later is week 1
+      expect(result).toEqual([
+        { cohortStart: new Date('2025-01-06T00:00:00Z'), users: 1, retained: [0, 1] },
+      ]);
+    });
+
+    it('should follow returns past the end of the date range', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/onboarding', '2025-01-31T10:00:00Z'),
+        createPageView('user_1', '/workouts', '2025-02-01T11:00:00Z'),
+        // Starts after the range
+        createPageView('user_2', '/onboarding', '2025-02-01T10:00:00Z'),
+      ]);
+
+      const result = await new RetentionRepository(db).getRetentionCohorts(
+        startEvent,
+        returnEvent,
+        startDate,
+        endDate,
+        'day',
+        2
+      );
+
+      expect(result).toEqual([
+        { cohortStart: new Date('2025-01-31T00:00:00Z'), users: 1, retained: [0, 1] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { SavedFunnelRepository } from '@/repositories/saved-funnel.repository';
+import { createMockDb, getMockCollectionMethods } from '../utils/mongodb-mock';
+import type { SavedFunnelDocument, SavedFunnelFields } from '@/models/saved-funnel.model';
+
+describe('SavedFunnelRepository', () => {
+  let savedFunnelRepository: SavedFunnelRepository;
+  let mockCollection: ReturnType<typeof getMockCollectionMethods>;
+  let mockDb: ReturnType<typeof createMockDb>['db'];
+
+  const fields: SavedFunnelFields = {
+    name: 'Signup funnel',
+    description: null,
+    steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+    dateRange: { type: 'relative', days: 30 },
+    options: { countBy: 'user' },
+  };
+
+  const createDocument = (overrides?: Partial<SavedFunnelDocument>): SavedFunnelDocument => ({
+    _id: new ObjectId('507f1f77bcf86cd799439011'),
+    ...fields,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-02T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    const { db, collection } = createMockDb();
+    mockDb = db;
+    savedFunnelRepository = new SavedFunnelRepository(db);
+    mockCollection = getMockCollectionMethods(collection);
+  });
+
+  it('should use the funnels collection', () => {
+    expect(mockDb.collection).toHaveBeenCalledWith('funnels');
+  });
+
+  describe('findAll', () => {
+    it('should return funnels sorted by most recently updated', async () => {
+      const document = createDocument();
+      const sort = vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue([document]) });
+      mockCollection.find.mockReturnValue({ sort } as any);
+
+      const result = await savedFunnelRepository.findAll();
+
+      expect(result).toEqual([document]);
+      expect(sort).toHaveBeenCalledWith({ updatedAt: -1, _id: -1 });
+    });
+  });
+
+  describe('findById', () => {
+    it('should find a funnel by ObjectId', async () => {
+      const document = createDocument();
+      mockCollection.findOne.mockResolvedValue(document);
+
+      const result = await savedFunnelRepository.findById(document._id.toString());
+
+      expect(result).toEqual(document);
+      expect(mockCollection.findOne).toHaveBeenCalledWith({ _id: document._id });
+    });
+  });
+
+  describe('create', () => {
+    it('should insert the funnel with timestamps', async () => {
+      mockCollection.insertOne.mockResolvedValue({ acknowledged: true });
+
+      const result = await savedFunnelRepository.create(fields);
+
+      expect(result).toMatchObject(fields);
+      expect(result._id).toBeInstanceOf(ObjectId);
+      expect(result.createdAt).toEqual(result.updatedAt);
+      expect(mockCollection.insertOne).toHaveBeenCalledWith(result);
+    });
+  });
+
+  describe('update', () => {
+    it('should replace the fields and bump updatedAt', async () => {
+      const document = createDocument({ name: 'Renamed' });
+      mockCollection.findOneAndUpdate.mockResolvedValue(document);
+
+      const result = await savedFunnelRepository.update(document._id.toString(), {
+        ...fields,
+        name: 'Renamed',
+      });
+
+      expect(result).toEqual(document);
+      const [filter, update, options] = mockCollection.findOneAndUpdate.mock.calls[0]!;
+      expect(filter).toEqual({ _id: document._id });
+      expect(update.$set).toMatchObject({ ...fields, name: 'Renamed' });
+      expect(update.$set.updatedAt).toBeInstanceOf(Date);
+      expect(update.$set).not.toHaveProperty('createdAt');
+      expect(options).toEqual({ returnDocument: 'after' });
+    });
+
+    it('should return null when the funnel does not exist', async () => {
+      mockCollection.findOneAndUpdate.mockResolvedValue(null);
+
+      const result = await savedFunnelRepository.update('507f1f77bcf86cd799439011', fields);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('should report whether a funnel was deleted', async () => {
+      mockCollection.deleteOne.mockResolvedValueOnce({ deletedCount: 1 });
+      mockCollection.deleteOne.mockResolvedValueOnce({ deletedCount: 0 });
+
+      await expect(savedFunnelRepository.delete('507f1f77bcf86cd799439011')).resolves.toBe(true);
+      await expect(savedFunnelRepository.delete('507f1f77bcf86cd799439011')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import { SessionRepository } from '@/repositories/session.repository';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createPageView } from '../fixtures/events.fixture';
+
+describe('SessionRepository', () => {
+  describe('findSessions', () => {
+    const startDate = new Date('2025-01-01T00:00:00Z');
+    const endDate = new Date('2025-01-31T23:59:59Z');
+
+    it('should summarize each session from its events', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:12:00Z', { session_id: 'session_1' }),
+        createPageView('user_2', '/blog', '2025-01-03T09:00:00Z', { session_id: 'session_2' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(result.sessions).toEqual([
+        {
+          sessionId: 'session_2',
+          user_id: 'user_2',
+          start: new Date('2025-01-03T09:00:00Z'),
+          end: new Date('2025-01-03T09:00:00Z'),
+          duration: 0,
+          pageCount: 1,
+          bounced: true,
+          entryPage: '/blog',
+          exitPage: '/blog',
+          hostname: 'www.trainwell.net',
+          utm: null,
+        },
+        {
+          sessionId: 'session_1',
+          user_id: 'user_1',
+          start: new Date('2025-01-02T10:00:00Z'),
+          end: new Date('2025-01-02T10:12:00Z'),
+          duration: 12 * 60 * 1000,
+          pageCount: 3,
+          bounced: false,
+          entryPage: '/homepage',
+          exitPage: '/checkout',
+          hostname: 'www.trainwell.net',
+          utm: null,
+        },
+      ]);
+      expect(result).toMatchObject({
+        totalSessions: 2,
+        totalUsers: 2,
+        avgDuration: 6 * 60 * 1000,
+        avgPageCount: 2,
+        bounces: 1,
+      });
+    });
+
+    it('should read the entry page UTM parameters from the query string', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', {
+          session_id: 'session_1',
+          content: { queryString: '?utm_source=google&utm_medium=cpc' },
+        }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', {
+          session_id: 'session_1',
+          content: { queryString: '?utm_source=newsletter' },
+        }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(result.sessions[0]!.utm).toEqual({
+        utm_source: 'google',
+        utm_medium: 'cpc',
+        utm_campaign: null,
+        utm_term: null,
+        utm_content: null,
+      });
+    });
+
+    it('should split a reused session id after 30 minutes of inactivity', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:29:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-02T11:00:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(
+        result.sessions.map(({ sessionId, entryPage, exitPage, pageCount }) => ({
+          sessionId,
+          entryPage,
+          exitPage,
+          pageCount,
+        }))
+      ).toEqual([
+        { sessionId: 'session_1', entryPage: '/homepage', exitPage: '/homepage', pageCount: 1 },
+        { sessionId: 'session_1', entryPage: '/homepage', exitPage: '/pricing', pageCount: 2 },
+      ]);
+    });
+
+    it('should keep users apart when they share a session id', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_2', '/pricing', '2025-01-02T10:01:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(result.totalSessions).toBe(2);
+      expect(result.sessions.every((session) => session.bounced)).toBe(true);
+    });
+
+    it('should fall back to the inactivity timeout when the session id is missing', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: '' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:10:00Z', { session_id: '' }),
+        createPageView('user_1', '/checkout', '2025-01-02T10:20:00Z', {
+          session_id: null as unknown as string,
+        }),
+        createPageView('user_1', '/homepage', '2025-01-05T10:00:00Z', { session_id: '' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(
+        result.sessions.map(({ sessionId, pageCount, exitPage }) => ({ sessionId, pageCount, exitPage }))
+      ).toEqual([
+        { sessionId: null, pageCount: 1, exitPage: '/homepage' },
+        { sessionId: null, pageCount: 3, exitPage: '/checkout' },
+      ]);
+    });
+
+    it('should filter the reconstructed sessions and total only the matches', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_2', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_3', '/blog', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(
+        startDate,
+        endDate,
+        { entryPage: '/homepage', bounced: true },
+        10,
+        0
+      );
+
+      expect(result.totalSessions).toBe(1);
+      expect(result.sessions.map((session) => session.sessionId)).toEqual(['session_2']);
+    });
+
+    it('should page through sessions but total all of them', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/homepage', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(
+        startDate,
+        endDate,
+        { user_id: 'user_1' },
+        1,
+        1
+      );
+
+      expect(result.totalSessions).toBe(3);
+      expect(result.totalUsers).toBe(1);
+      expect(result.sessions.map((session) => session.sessionId)).toEqual(['session_2']);
+    });
+
+    it('should count distinct users and average over sessions', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_2', '/homepage', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+        createPageView('user_2', '/pricing', '2025-01-04T10:01:00Z', { session_id: 'session_3' }),
+        createPageView('user_2', '/checkout', '2025-01-04T10:02:00Z', { session_id: 'session_3' }),
+        createPageView('user_2', '/welcome', '2025-01-04T10:03:00Z', { session_id: 'session_3' }),
+      ]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(result).toMatchObject({
+        totalSessions: 3,
+        totalUsers: 2,
+        avgDuration: 60 * 1000,
+        avgPageCount: 2,
+        bounces: 2,
+      });
+    });
+
+    it('should return empty totals when there are no sessions', async () => {
+      const { db } = createInMemoryDb([]);
+
+      const result = await new SessionRepository(db).findSessions(startDate, endDate, {}, 10, 0);
+
+      expect(result).toEqual({
+        totalSessions: 0,
+        totalUsers: 0,
+        avgDuration: 0,
+        avgPageCount: 0,
+        bounces: 0,
+        sessions: [],
+      });
+    });
+  });
+});
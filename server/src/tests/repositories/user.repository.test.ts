@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { UserRepository } from '@/repositories/user.repository';
+import { createInMemoryDb } from '../utils/in-memory-collection';
+import { createMockEventDocument, createPageView } from '../fixtures/events.fixture';
+
+describe('UserRepository', () => {
+  describe('getTimeline', () => {
+
+    it('should group the user events by session, most recent session first', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/blog', '2025-01-03T09:00:00Z', { session_id: 'session_2' }),
+        // Another user in the same session id
+        createPageView('user_2', '/about', '2025-01-02T10:01:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_1', 10);
+
+      expect(result.totalSessions).toBe(2);
+      expect(result.totalEvents).toBe(3);
+      expect(result.firstSeen).toEqual(new Date('2025-01-02T10:00:00Z'));
+      expect(result.lastSeen).toEqual(new Date('2025-01-03T09:00:00Z'));
+      expect(result.sessions.map((session) => session.sessionId)).toEqual([
+        'session_2',
+        'session_1',
+      ]);
+      expect(result.sessions[1]).toMatchObject({
+        start: new Date('2025-01-02T10:00:00Z'),
+        end: new Date('2025-01-02T10:05:00Z'),
+      });
+      expect(result.sessions[1]!.events.map((event) => event.content.path)).toEqual([
+        '/homepage',
+        '/pricing',
+      ]);
+    });
+
+    it('should only return the most recent sessions but total all of them', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/homepage', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/homepage', '2025-01-04T10:00:00Z', { session_id: 'session_3' }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_1', 2);
+
+      expect(result.totalSessions).toBe(3);
+      expect(result.totalEvents).toBe(3);
+      expect(result.firstSeen).toEqual(new Date('2025-01-02T10:00:00Z'));
+      expect(result.sessions.map((session) => session.sessionId)).toEqual([
+        'session_3',
+        'session_2',
+      ]);
+    });
+
+    it('should group events without a session id into one session', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: '' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:05:00Z', {
+          session_id: null as unknown as string,
+        }),
+        createPageView('user_1', '/blog', '2025-01-03T10:00:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_1', 10);
+
+      expect(result.totalSessions).toBe(2);
+      expect(
+        result.sessions.map((session) => [session.sessionId, session.events.length])
+      ).toEqual([
+        ['session_1', 1],
+        [null, 2],
+      ]);
+    });
+
+    it('should split a reused session id after 30 minutes of inactivity', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-02T10:29:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/blog', '2025-01-02T11:00:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_1', 10);
+
+      expect(result.totalSessions).toBe(2);
+      expect(result.totalEvents).toBe(3);
+      expect(
+        result.sessions.map((session) => ({
+          sessionId: session.sessionId,
+          start: session.start,
+          end: session.end,
+          pages: session.events.map((event) => event.content.path),
+        }))
+      ).toEqual([
+        {
+          sessionId: 'session_1',
+          start: new Date('2025-01-02T11:00:00Z'),
+          end: new Date('2025-01-02T11:00:00Z'),
+          pages: ['/blog'],
+        },
+        {
+          sessionId: 'session_1',
+          start: new Date('2025-01-02T10:00:00Z'),
+          end: new Date('2025-01-02T10:29:00Z'),
+          pages: ['/homepage', '/pricing'],
+        },
+      ]);
+    });
+
+    it('should only load the events of the returned sessions', async () => {
+      const { db, stats } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createPageView('user_1', '/pricing', '2025-01-03T10:00:00Z', { session_id: 'session_2' }),
+        createPageView('user_1', '/checkout', '2025-01-03T10:05:00Z', {
+          session_id: 'session_2',
+          content: { referrer: 'https://example.com' },
+        }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_1', 1);
+
+      expect(result.totalSessions).toBe(2);
+      expect(result.totalEvents).toBe(3);
+      expect(stats.pipelines[1]![0]!.$match.$or).toHaveLength(1);
+      expect(result.sessions[0]!.events.map((event) => event.content)).toEqual([
+        { path: '/pricing', hostname: 'www.trainwell.net', first_view: false },
+        { path: '/checkout', hostname: 'www.trainwell.net', first_view: false },
+      ]);
+    });
+
+    it('should ignore events from other platforms', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+        createMockEventDocument({ user_id: 'user_1', session_id: 'session_2', platform: 'ios' }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_1', 10);
+
+      expect(result.totalSessions).toBe(1);
+      expect(result.sessions.map((session) => session.sessionId)).toEqual(['session_1']);
+    });
+
+    it('should return empty totals for an unknown user', async () => {
+      const { db } = createInMemoryDb([
+        createPageView('user_1', '/homepage', '2025-01-02T10:00:00Z', { session_id: 'session_1' }),
+      ]);
+
+      const result = await new UserRepository(db).getTimeline('user_unknown', 10);
+
+      expect(result).toEqual({
+        totalSessions: 0,
+        totalEvents: 0,
+        firstSeen: null,
+        lastSeen: null,
+        sessions: [],
+      });
+    });
+  });
+});
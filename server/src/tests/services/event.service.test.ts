@@ -2,7 +2,12 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { EventService } from '@/services/event.service';
 import { EventRepository } from '@/repositories/event.repository';
 import { createMockEventDocument, mockEvents } from '../fixtures/events.fixture';
-import type { FunnelAnalysisRequest } from '@trainwell-funnel/shared';
+import { EventModel } from '@/models/event.model';
+import type {
+  FunnelAnalysisRequest,
+  FunnelNextPagesRequest,
+  FunnelUsersRequest,
+} from '@trainwell-funnel/shared';
 
 // Mock the logger to avoid console output during tests
 vi.mock('@/lib/logger', () => ({
@@ -25,7 +30,11 @@ describe('EventService', () => {
       findById: vi.fn(),
       findMany: vi.fn(),
       count: vi.fn(),
-      getUsersCompletingSequentialSteps: vi.fn(),
+      getFunnelStepMetrics: vi.fn(),
+      getFunnelBreakdownMetrics: vi.fn(),
+      getFunnelTrendMetrics: vi.fn(),
+      getFunnelUsers: vi.fn(),
+      getFunnelNextPages: vi.fn(),
     };
 
     eventService = new EventService(mockRepository as EventRepository);
@@ -83,10 +92,12 @@ describe('EventService', () => {
 
       expect(result.events).toHaveLength(mockEvents.length);
       expect(result.total).toBe(100);
+      // One extra event to tell whether there is a next page
       expect(mockRepository.findMany).toHaveBeenCalledWith(
         { user_id: 'user_1' },
-        10,
-        0
+        11,
+        0,
+        { sort: 'desc' }
       );
       expect(mockRepository.count).toHaveBeenCalledWith({ user_id: 'user_1' });
     });
@@ -97,7 +108,7 @@ describe('EventService', () => {
 
       await eventService.getEvents({});
 
-      expect(mockRepository.findMany).toHaveBeenCalledWith({}, 100, 0);
+      expect(mockRepository.findMany).toHaveBeenCalledWith({}, 101, 0, { sort: 'desc' });
     });
 
     it('should handle date range filters', async () => {
@@ -111,11 +122,67 @@ describe('EventService', () => {
 
       expect(mockRepository.findMany).toHaveBeenCalledWith(
         { startDate, endDate },
-        50,
-        10
+        51,
+        10,
+        { sort: 'desc' }
       );
     });
 
+    describe('cursors', () => {
+      const documents = [1, 2, 3].map((day) =>
+        createMockEventDocument({ date: new Date(`2025-01-0${day}T10:00:00Z`) })
+      );
+      const cursorOf = (index: number) => EventModel.encodeCursor(documents[index]!);
+
+      it('should return a next cursor only when there are more events', async () => {
+        mockRepository.count = vi.fn().mockResolvedValue(3);
+        mockRepository.findMany = vi.fn().mockResolvedValue(documents);
+
+        const firstPage = await eventService.getEvents({}, 2, 0);
+
+        expect(firstPage.events).toHaveLength(2);
+        expect(firstPage.nextCursor).toBe(cursorOf(1));
+        expect(firstPage.prevCursor).toBeNull();
+
+        mockRepository.findMany = vi.fn().mockResolvedValue(documents.slice(2));
+        const lastPage = await eventService.getEvents({}, 2, 0, {
+          sort: 'desc',
+          after: EventModel.decodeCursor(cursorOf(1))!,
+        });
+
+        expect(lastPage.nextCursor).toBeNull();
+        expect(lastPage.prevCursor).toBe(cursorOf(2));
+      });
+
+      it('should return a previous cursor when skipping', async () => {
+        mockRepository.count = vi.fn().mockResolvedValue(3);
+        mockRepository.findMany = vi.fn().mockResolvedValue(documents.slice(1));
+
+        const result = await eventService.getEvents({}, 2, 1);
+
+        expect(result.prevCursor).toBe(cursorOf(1));
+        expect(result.nextCursor).toBeNull();
+      });
+
+      it('should drop the extra event from the start of a previous page', async () => {
+        mockRepository.count = vi.fn().mockResolvedValue(4);
+        // Pages before a cursor come back in sort order, extra event first
+        mockRepository.findMany = vi.fn().mockResolvedValue(documents);
+
+        const result = await eventService.getEvents({}, 2, 0, {
+          sort: 'asc',
+          before: { date: new Date('2025-01-04T10:00:00Z'), id: documents[0]!._id },
+        });
+
+        expect(result.events.map((event) => event.id)).toEqual([
+          documents[1]!._id.toString(),
+          documents[2]!._id.toString(),
+        ]);
+        expect(result.prevCursor).toBe(cursorOf(1));
+        expect(result.nextCursor).toBe(cursorOf(2));
+      });
+    });
+
     it('should throw error on repository failure', async () => {
       mockRepository.findMany = vi
         .fn()
@@ -140,12 +207,8 @@ describe('EventService', () => {
         endDate: '2025-01-31T23:59:59Z',
       };
 
-      // Mock users completing each step
-      mockRepository.getUsersCompletingSequentialSteps = vi
-        .fn()
-        .mockResolvedValueOnce(['user_1', 'user_2', 'user_3']) // Step 0: 3 users
-        .mockResolvedValueOnce(['user_1', 'user_2']) // Step 1: 2 users
-        .mockResolvedValueOnce(['user_1']); // Step 2: 1 user
+      // Mock users completing each step: 3 users, then 2, then 1
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [3, 2, 1], timeToConvert: [] });
 
       const result = await eventService.analyzeFunnel(request);
 
@@ -180,6 +243,30 @@ describe('EventService', () => {
       });
     });
 
+    it('should query the repository once for the whole funnel', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Pricing', matchType: 'path', matchValue: '/pricing' },
+          { name: 'Signup', matchType: 'path', matchValue: '/signup' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [3, 2, 1], timeToConvert: [] });
+
+      await eventService.analyzeFunnel(request);
+
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenCalledTimes(1);
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        {}
+      );
+    });
+
     it('should handle single step funnel', async () => {
       const request: FunnelAnalysisRequest = {
         steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
@@ -187,9 +274,7 @@ describe('EventService', () => {
         endDate: '2025-01-31T23:59:59Z',
       };
 
-      mockRepository.getUsersCompletingSequentialSteps = vi
-        .fn()
-        .mockResolvedValue(['user_1', 'user_2']);
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [2], timeToConvert: [] });
 
       const result = await eventService.analyzeFunnel(request);
 
@@ -214,9 +299,7 @@ describe('EventService', () => {
         endDate: '2025-01-31T23:59:59Z',
       };
 
-      mockRepository.getUsersCompletingSequentialSteps = vi
-        .fn()
-        .mockResolvedValue([]);
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [0], timeToConvert: [] });
 
       const result = await eventService.analyzeFunnel(request);
 
@@ -231,6 +314,397 @@ describe('EventService', () => {
       });
     });
 
+    it('should pass the conversion window to the repository in milliseconds', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        conversionWindow: { value: 30, unit: 'minutes' },
+      };
+
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [0, 0], timeToConvert: [] });
+
+      await eventService.analyzeFunnel(request);
+
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        { conversionWindowMs: 30 * 60 * 1000 }
+      );
+    });
+
+    it('should split the funnel into the top segments plus Other', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        breakdownBy: 'utm_source',
+        breakdownLimit: 2,
+      };
+
+      mockRepository.getFunnelBreakdownMetrics = vi.fn().mockResolvedValue({
+        totals: { counts: [100, 30], timeToConvert: [] },
+        segments: [
+          { segment: 'bing', counts: [10, 1], timeToConvert: [] },
+          { segment: 'google', counts: [50, 20], timeToConvert: [] },
+          { segment: null, counts: [30, 3], timeToConvert: [] },
+          { segment: 'tiktok', counts: [10, 6], timeToConvert: [] },
+        ],
+      });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(mockRepository.getFunnelStepMetrics).not.toHaveBeenCalled();
+      expect(mockRepository.getFunnelBreakdownMetrics).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        'utm_source',
+        {}
+      );
+
+      expect(result.steps.map((step) => step.users)).toEqual([100, 30]);
+      expect(result.summary.overallConversionRate).toBe(30);
+
+      expect(result.breakdown?.property).toBe('utm_source');
+      expect(
+        result.breakdown?.segments.map((segment) => ({
+          value: segment.value,
+          isOther: segment.isOther,
+          users: segment.steps.map((step) => step.users),
+        }))
+      ).toEqual([
+        { value: 'google', isOther: false, users: [50, 20] },
+        { value: '(none)', isOther: false, users: [30, 3] },
+        { value: 'Other', isOther: true, users: [20, 7] },
+      ]);
+      expect(result.breakdown?.segments[0]?.summary.overallConversionRate).toBe(40);
+    });
+
+    it('should not add an Other segment when every segment fits', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        breakdownBy: 'hostname',
+      };
+
+      mockRepository.getFunnelBreakdownMetrics = vi.fn().mockResolvedValue({
+        totals: { counts: [55], timeToConvert: [] },
+        segments: [
+          { segment: 'www.trainwell.net', counts: [40], timeToConvert: [] },
+          { segment: 'join.trainwell.net', counts: [15], timeToConvert: [] },
+        ],
+      });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(result.breakdown?.segments.map((segment) => segment.value)).toEqual([
+        'www.trainwell.net',
+        'join.trainwell.net',
+      ]);
+    });
+
+    it('should attach time to convert to every step after the first', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      const timeToConvert = {
+        medianMs: 60000,
+        p75Ms: 120000,
+        p90Ms: 600000,
+        meanMs: 150000,
+        histogram: [{ minMs: 0, maxMs: null, users: 4 }],
+      };
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({
+        counts: [10, 4],
+        timeToConvert: [null, timeToConvert],
+      });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(result.steps[0]).not.toHaveProperty('timeToConvert');
+      expect(result.steps[1]?.timeToConvert).toEqual(timeToConvert);
+    });
+
+    it('should return one trend point per period, zero-filling empty periods', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T12:00:00Z',
+        endDate: '2025-01-20T23:59:59Z',
+        trendInterval: 'week',
+      };
+
+      mockRepository.getFunnelTrendMetrics = vi.fn().mockResolvedValue({
+        totals: { counts: [30, 12], timeToConvert: [] },
+        periods: [
+          { periodStart: new Date('2024-12-30T00:00:00Z'), counts: [20, 10], timeToConvert: [] },
+          { periodStart: new Date('2025-01-20T00:00:00Z'), counts: [10, 2], timeToConvert: [] },
+        ],
+      });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(mockRepository.getFunnelTrendMetrics).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        'week',
+        {}
+      );
+      expect(result.steps.map((step) => step.users)).toEqual([30, 12]);
+      expect(result.trends?.interval).toBe('week');
+      expect(
+        result.trends?.points.map((point) => ({
+          periodStart: point.periodStart,
+          rate: point.summary.overallConversionRate,
+        }))
+      ).toEqual([
+        { periodStart: '2024-12-30T00:00:00.000Z', rate: 50 },
+        { periodStart: '2025-01-06T00:00:00.000Z', rate: 0 },
+        { periodStart: '2025-01-13T00:00:00.000Z', rate: 0 },
+        { periodStart: '2025-01-20T00:00:00.000Z', rate: 20 },
+      ]);
+    });
+
+    it('should bucket monthly trends by calendar month', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-15T00:00:00Z',
+        endDate: '2025-03-02T00:00:00Z',
+        trendInterval: 'month',
+      };
+
+      mockRepository.getFunnelTrendMetrics = vi.fn().mockResolvedValue({
+        totals: { counts: [0], timeToConvert: [] },
+        periods: [],
+      });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(result.trends?.points.map((point) => point.periodStart)).toEqual([
+        '2025-01-01T00:00:00.000Z',
+        '2025-02-01T00:00:00.000Z',
+        '2025-03-01T00:00:00.000Z',
+      ]);
+    });
+
+    it('should not count skipped optional steps as drop-off', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Quiz', matchType: 'path', matchValue: '/quiz', optional: true },
+          { name: 'Signup', matchType: 'path', matchValue: '/signup' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+      };
+
+      mockRepository.getFunnelStepMetrics = vi
+        .fn()
+        .mockResolvedValue({ counts: [100, 20, 50], timeToConvert: [] });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(result.steps[1]).toMatchObject({
+        optional: true,
+        stepConversionRate: 20,
+        dropoffRate: 0,
+      });
+      // Compared against the homepage, not the optional quiz
+      expect(result.steps[2]).toMatchObject({ stepConversionRate: 50, dropoffRate: 50 });
+      expect(result.summary.avgStepConversionRate).toBe(50);
+    });
+
+    it('should compute rates from sessions in session mode', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        countBy: 'session',
+      };
+
+      mockRepository.getFunnelStepMetrics = vi
+        .fn()
+        .mockResolvedValue({ counts: [200, 30], timeToConvert: [], users: [120, 25] });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        { countBy: 'session' }
+      );
+      expect(result.steps[1]).toMatchObject({
+        users: 25,
+        sessions: 30,
+        conversionRate: 15,
+      });
+      expect(result.summary).toMatchObject({
+        totalUsers: 120,
+        completedUsers: 25,
+        totalSessions: 200,
+        completedSessions: 30,
+        overallConversionRate: 15,
+      });
+    });
+
+    it('should pass non-default step orders to the repository', async () => {
+      const steps: FunnelAnalysisRequest['steps'] = [
+        { name: 'Homepage', matchType: 'path', matchValue: '/' },
+        { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+      ];
+
+      mockRepository.getFunnelStepMetrics = vi
+        .fn()
+        .mockResolvedValue({ counts: [100, 40], timeToConvert: [null, null] });
+
+      await eventService.analyzeFunnel({
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        order: 'any',
+      });
+      await eventService.analyzeFunnel({
+        steps,
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        order: 'sequential',
+      });
+
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenNthCalledWith(
+        1,
+        steps,
+        expect.any(Date),
+        expect.any(Date),
+        { order: 'any' }
+      );
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenNthCalledWith(
+        2,
+        steps,
+        expect.any(Date),
+        expect.any(Date),
+        {}
+      );
+    });
+
+    it('should compare against the period just before the requested range', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Signup', matchType: 'path', matchValue: '/signup' },
+        ],
+        startDate: '2025-01-08T00:00:00.000Z',
+        endDate: '2025-01-14T23:59:59.999Z',
+        compareTo: { mode: 'previousPeriod' },
+      };
+
+      mockRepository.getFunnelStepMetrics = vi
+        .fn()
+        .mockResolvedValueOnce({ counts: [120, 30], timeToConvert: [] })
+        .mockResolvedValueOnce({ counts: [100, 20], timeToConvert: [] });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenLastCalledWith(
+        request.steps,
+        new Date('2025-01-01T00:00:00.000Z'),
+        new Date('2025-01-07T23:59:59.999Z'),
+        {}
+      );
+      expect(result.comparison).toMatchObject({
+        startDate: '2025-01-01T00:00:00.000Z',
+        endDate: '2025-01-07T23:59:59.999Z',
+        summary: { totalUsers: 100, completedUsers: 20, overallConversionRate: 20 },
+      });
+      expect(result.comparison?.deltas[0]).toEqual({
+        stepIndex: 0,
+        users: { absolute: 20, relative: 20 },
+        conversionRate: { absolute: 0, relative: 0 },
+      });
+      expect(result.comparison?.deltas[1]).toEqual({
+        stepIndex: 1,
+        users: { absolute: 10, relative: 50 },
+        conversionRate: { absolute: 5, relative: 25 },
+      });
+      expect(result.comparison?.summaryDeltas.completedUsers).toEqual({
+        absolute: 10,
+        relative: 50,
+      });
+    });
+
+    it('should compare against the same period last year', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-03-01T00:00:00.000Z',
+        endDate: '2025-03-31T23:59:59.999Z',
+        compareTo: { mode: 'previousYear' },
+      };
+
+      mockRepository.getFunnelStepMetrics = vi
+        .fn()
+        .mockResolvedValueOnce({ counts: [5], timeToConvert: [] })
+        .mockResolvedValueOnce({ counts: [0], timeToConvert: [] });
+
+      const result = await eventService.analyzeFunnel(request);
+
+      expect(result.comparison).toMatchObject({
+        startDate: '2024-03-01T00:00:00.000Z',
+        endDate: '2024-03-31T23:59:59.999Z',
+      });
+      // No previous users leaves the relative change undefined
+      expect(result.comparison?.summaryDeltas.totalUsers).toEqual({
+        absolute: 5,
+        relative: null,
+      });
+    });
+
+    it('should throw error for an invalid custom comparison range', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        compareTo: { mode: 'custom', startDate: 'not-a-date', endDate: '2024-01-31T23:59:59Z' },
+      };
+
+      await expect(eventService.analyzeFunnel(request)).rejects.toThrow(
+        'Invalid comparison range'
+      );
+    });
+
+    it('should throw error for invalid conversion window', async () => {
+      const request: FunnelAnalysisRequest = {
+        steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        conversionWindow: { value: 0, unit: 'days' },
+      };
+
+      await expect(eventService.analyzeFunnel(request)).rejects.toThrow(
+        'Invalid conversion window'
+      );
+    });
+
     it('should throw error for empty steps array', async () => {
       const request: FunnelAnalysisRequest = {
         steps: [],
@@ -266,11 +740,8 @@ describe('EventService', () => {
         endDate: '2025-01-31T23:59:59Z',
       };
 
-      mockRepository.getUsersCompletingSequentialSteps = vi
-        .fn()
-        .mockResolvedValueOnce(['u1', 'u2', 'u3', 'u4']) // 4 users
-        .mockResolvedValueOnce(['u1', 'u2', 'u3']) // 3 users (75% conversion)
-        .mockResolvedValueOnce(['u1', 'u2']); // 2 users (66.67% conversion)
+      // 4 users, then 3 (75% conversion), then 2 (66.67% conversion)
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [4, 3, 2], timeToConvert: [] });
 
       const result = await eventService.analyzeFunnel(request);
 
@@ -291,14 +762,119 @@ describe('EventService', () => {
         endDate: '2025-01-31T23:59:59Z',
       };
 
-      mockRepository.getUsersCompletingSequentialSteps = vi
-        .fn()
-        .mockResolvedValue(['user_1']);
+      mockRepository.getFunnelStepMetrics = vi.fn().mockResolvedValue({ counts: [1], timeToConvert: [] });
 
       const result = await eventService.analyzeFunnel(request);
 
       expect(result.steps[0]?.step).toBe('Main Site');
-      expect(mockRepository.getUsersCompletingSequentialSteps).toHaveBeenCalled();
+      expect(mockRepository.getFunnelStepMetrics).toHaveBeenCalled();
+    });
+  });
+
+  describe('getFunnelUsers', () => {
+    it('should serialize users and default the page size', async () => {
+      const request: FunnelUsersRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        conversionWindow: { value: 1, unit: 'days' },
+        stepIndex: 0,
+        status: 'dropped',
+      };
+
+      mockRepository.getFunnelUsers = vi.fn().mockResolvedValue({
+        total: 1,
+        users: [
+          {
+            user_id: 'user_1',
+            firstEventAt: new Date('2025-01-02T10:00:00Z'),
+            lastEventAt: new Date('2025-01-03T10:00:00Z'),
+          },
+        ],
+      });
+
+      const result = await eventService.getFunnelUsers(request);
+
+      expect(mockRepository.getFunnelUsers).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        0,
+        'dropped',
+        50,
+        0,
+        { conversionWindowMs: 24 * 60 * 60 * 1000 }
+      );
+      expect(result).toEqual({
+        users: [
+          {
+            user_id: 'user_1',
+            firstEventAt: '2025-01-02T10:00:00.000Z',
+            lastEventAt: '2025-01-03T10:00:00.000Z',
+          },
+        ],
+        total: 1,
+        limit: 50,
+        skip: 0,
+      });
+    });
+
+    it('should throw error for invalid dates', async () => {
+      await expect(
+        eventService.getFunnelUsers({
+          steps: [{ name: 'Homepage', matchType: 'path', matchValue: '/' }],
+          startDate: 'not-a-date',
+          endDate: '2025-01-31T23:59:59Z',
+          stepIndex: 0,
+          status: 'converted',
+        })
+      ).rejects.toThrow('Invalid date format');
+    });
+  });
+
+  describe('getFunnelNextPages', () => {
+    it('should compute the share of all drop-offs for each page', async () => {
+      const request: FunnelNextPagesRequest = {
+        steps: [
+          { name: 'Homepage', matchType: 'path', matchValue: '/' },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout' },
+        ],
+        startDate: '2025-01-01T00:00:00Z',
+        endDate: '2025-01-31T23:59:59Z',
+        stepIndex: 0,
+      };
+
+      mockRepository.getFunnelNextPages = vi.fn().mockResolvedValue({
+        dropped: 200,
+        exited: 80,
+        pages: [
+          { path: '/blog', hostname: 'www.trainwell.net', count: 90 },
+          { path: '/faq', hostname: 'www.trainwell.net', count: 30 },
+        ],
+      });
+
+      const result = await eventService.getFunnelNextPages(request);
+
+      expect(mockRepository.getFunnelNextPages).toHaveBeenCalledWith(
+        request.steps,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        0,
+        10,
+        {}
+      );
+      expect(result).toEqual({
+        stepIndex: 0,
+        dropped: 200,
+        exited: 80,
+        pages: [
+          { path: '/blog', hostname: 'www.trainwell.net', count: 90, share: 45 },
+          { path: '/faq', hostname: 'www.trainwell.net', count: 30, share: 15 },
+        ],
+      });
     });
   });
 });
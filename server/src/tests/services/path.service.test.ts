@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PathService } from '@/services/path.service';
+import { PathRepository } from '@/repositories/path.repository';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+    startTimer: vi.fn(() => ({
+      done: vi.fn(),
+    })),
+  },
+}));
+
+describe('PathService', () => {
+  let pathService: PathService;
+  let mockRepository: Partial<PathRepository>;
+
+  const dates = {
+    startDate: '2025-01-01T00:00:00Z',
+    endDate: '2025-01-31T23:59:59Z',
+  };
+
+  beforeEach(() => {
+    mockRepository = {
+      getPathTransitions: vi.fn(),
+    };
+
+    pathService = new PathService(mockRepository as PathRepository);
+  });
+
+  describe('analyzePaths', () => {
+    it('should build nodes and links from the transitions', async () => {
+      mockRepository.getPathTransitions = vi.fn().mockResolvedValue({
+        sessions: 3,
+        transitions: [
+          { step: 0, source: '/homepage', target: '/pricing', sessions: 2 },
+          { step: 0, source: '/homepage', target: '/about', sessions: 1 },
+          { step: 1, source: '/pricing', target: '/checkout', sessions: 1 },
+        ],
+      });
+
+      const result = await pathService.analyzePaths({
+        ...dates,
+        anchor: 'start',
+        page: '/homepage',
+      });
+
+      expect(mockRepository.getPathTransitions).toHaveBeenCalledWith(
+        new Date(dates.startDate),
+        new Date(dates.endDate),
+        'start',
+        '/homepage',
+        4,
+        10
+      );
+      expect(result).toEqual({
+        anchor: 'start',
+        page: '/homepage',
+        depth: 4,
+        sessions: 3,
+        nodes: [
+          { name: '/homepage', step: 0 },
+          { name: '/pricing', step: 1 },
+          { name: '/about', step: 1 },
+          { name: '/checkout', step: 2 },
+        ],
+        links: [
+          { source: 0, target: 1, sessions: 2 },
+          { source: 0, target: 2, sessions: 1 },
+          { source: 1, target: 3, sessions: 1 },
+        ],
+      });
+    });
+
+    it('should drop transitions that no longer connect to the anchor page', async () => {
+      mockRepository.getPathTransitions = vi.fn().mockResolvedValue({
+        sessions: 5,
+        transitions: [
+          { step: 0, source: '/homepage', target: '/pricing', sessions: 4 },
+          // Its source fell out of the top transitions of the first step
+          { step: 1, source: '/about', target: '/careers', sessions: 1 },
+        ],
+      });
+
+      const result = await pathService.analyzePaths({
+        ...dates,
+        anchor: 'start',
+        page: '/homepage',
+        depth: 2,
+        limit: 1,
+      });
+
+      expect(result.nodes).toEqual([
+        { name: '/homepage', step: 0 },
+        { name: '/pricing', step: 1 },
+      ]);
+      expect(result.links).toEqual([{ source: 0, target: 1, sessions: 4 }]);
+    });
+
+    it('should walk backwards from the anchor page when paths end there', async () => {
+      mockRepository.getPathTransitions = vi.fn().mockResolvedValue({
+        sessions: 2,
+        transitions: [
+          { step: 0, source: '/homepage', target: '/pricing', sessions: 1 },
+          { step: 0, source: '/blog', target: '/about', sessions: 1 },
+          { step: 1, source: '/pricing', target: '/checkout', sessions: 2 },
+        ],
+      });
+
+      const result = await pathService.analyzePaths({
+        ...dates,
+        anchor: 'end',
+        page: '/checkout',
+        depth: 2,
+      });
+
+      expect(result.nodes).toEqual([
+        { name: '/homepage', step: 0 },
+        { name: '/pricing', step: 1 },
+        { name: '/checkout', step: 2 },
+      ]);
+      expect(result.links).toEqual([
+        { source: 1, target: 2, sessions: 2 },
+        { source: 0, target: 1, sessions: 1 },
+      ]);
+    });
+
+    it('should throw for invalid dates', async () => {
+      await expect(
+        pathService.analyzePaths({
+          startDate: 'not-a-date',
+          endDate: dates.endDate,
+          anchor: 'start',
+          page: '/homepage',
+        })
+      ).rejects.toThrow('Invalid date format');
+    });
+  });
+});
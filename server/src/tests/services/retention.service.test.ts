@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RetentionService } from '@/services/retention.service';
+import { RetentionRepository } from '@/repositories/retention.repository';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+    startTimer: vi.fn(() => ({
+      done: vi.fn(),
+    })),
+  },
+}));
+
+describe('RetentionService', () => {
+  let retentionService: RetentionService;
+  let mockRepository: Partial<RetentionRepository>;
+
+  const request = {
+    startDate: '2025-01-01T00:00:00Z',
+    endDate: '2025-01-31T23:59:59Z',
+    startEvent: { matchType: 'path' as const, matchValue: '/onboarding' },
+    returnEvent: { matchType: 'path' as const, matchValue: '/workouts' },
+  };
+
+  beforeEach(() => {
+    mockRepository = {
+      getRetentionCohorts: vi.fn(),
+    };
+
+    retentionService = new RetentionService(mockRepository as RetentionRepository);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('analyzeRetention', () => {
+    it('should compute retention rates per cohort and overall', async () => {
+      mockRepository.getRetentionCohorts = vi.fn().mockResolvedValue([
+        { cohortStart: new Date('2025-01-02T00:00:00Z'), users: 4, retained: [2, 1] },
+        { cohortStart: new Date('2025-01-03T00:00:00Z'), users: 1, retained: [1, 0] },
+      ]);
+
+      const result = await retentionService.analyzeRetention({ ...request, periods: 2 });
+
+      expect(mockRepository.getRetentionCohorts).toHaveBeenCalledWith(
+        request.startEvent,
+        request.returnEvent,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        'day',
+        2
+      );
+      expect(result).toEqual({
+        interval: 'day',
+        periods: 2,
+        cohorts: [
+          {
+            cohortStart: '2025-01-02T00:00:00.000Z',
+            users: 4,
+            retained: [2, 1],
+            rates: [50, 25],
+          },
+          {
+            cohortStart: '2025-01-03T00:00:00.000Z',
+            users: 1,
+            retained: [1, 0],
+            rates: [100, 0],
+          },
+        ],
+        summary: { users: 5, rates: [60, 20] },
+      });
+    });
+
+    it('should leave out periods that have not elapsed for the whole cohort', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-05T00:00:00Z'));
+      mockRepository.getRetentionCohorts = vi.fn().mockResolvedValue([
+        { cohortStart: new Date('2025-01-02T00:00:00Z'), users: 2, retained: [2, 1, 0] },
+        { cohortStart: new Date('2025-01-03T00:00:00Z'), users: 2, retained: [0, 0, 0] },
+      ]);
+
+      const result = await retentionService.analyzeRetention({ ...request, periods: 3 });
+
+      expect(result.cohorts.map((cohort) => cohort.retained)).toEqual([
+        [2, 1, null],
+        [0, null, null],
+      ]);
+      expect(result.summary.rates).toEqual([50, 50, null]);
+    });
+
+    it('should use default periods of 8', async () => {
+      mockRepository.getRetentionCohorts = vi.fn().mockResolvedValue([]);
+
+      const result = await retentionService.analyzeRetention({ ...request, interval: 'week' });
+
+      expect(mockRepository.getRetentionCohorts).toHaveBeenCalledWith(
+        request.startEvent,
+        request.returnEvent,
+        new Date(request.startDate),
+        new Date(request.endDate),
+        'week',
+        8
+      );
+      expect(result.summary).toEqual({ users: 0, rates: new Array(8).fill(null) });
+    });
+
+    it('should throw for invalid dates', async () => {
+      await expect(
+        retentionService.analyzeRetention({ ...request, startDate: 'not-a-date' })
+      ).rejects.toThrow('Invalid date format');
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { SavedFunnelService } from '@/services/saved-funnel.service';
+import { SavedFunnelRepository } from '@/repositories/saved-funnel.repository';
+import type { SavedFunnelDocument } from '@/models/saved-funnel.model';
+import type { SavedFunnelInput } from '@trainwell-funnel/shared';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+    startTimer: vi.fn(() => ({
+      done: vi.fn(),
+    })),
+  },
+}));
+
+describe('SavedFunnelService', () => {
+  let savedFunnelService: SavedFunnelService;
+  let mockRepository: Partial<SavedFunnelRepository>;
+
+  const id = '507f1f77bcf86cd799439011';
+  const document: SavedFunnelDocument = {
+    _id: new ObjectId(id),
+    name: 'Signup funnel',
+    description: null,
+    steps: [{ name: 'Landing', matchType: 'path', matchValue: '/' }],
+    dateRange: null,
+    options: { order: 'strict' },
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-02T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockRepository = {
+      findAll: vi.fn(),
+      findById: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    };
+
+    savedFunnelService = new SavedFunnelService(mockRepository as SavedFunnelRepository);
+  });
+
+  describe('listFunnels', () => {
+    it('should serialize stored funnels', async () => {
+      mockRepository.findAll = vi.fn().mockResolvedValue([document]);
+
+      const result = await savedFunnelService.listFunnels();
+
+      expect(result).toEqual([
+        {
+          id,
+          name: 'Signup funnel',
+          steps: document.steps,
+          options: { order: 'strict' },
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-02T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should throw error on repository failure', async () => {
+      mockRepository.findAll = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(savedFunnelService.listFunnels()).rejects.toThrow(
+        'Failed to retrieve saved funnels'
+      );
+    });
+  });
+
+  describe('getFunnel', () => {
+    it('should return null for a malformed id without querying', async () => {
+      const result = await savedFunnelService.getFunnel('not-an-id');
+
+      expect(result).toBeNull();
+      expect(mockRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should throw error on repository failure', async () => {
+      mockRepository.findById = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(savedFunnelService.getFunnel(id)).rejects.toThrow(
+        'Failed to retrieve saved funnel'
+      );
+    });
+  });
+
+  describe('createFunnel', () => {
+    it('should trim the name and drop unknown and empty fields', async () => {
+      mockRepository.create = vi.fn().mockResolvedValue(document);
+      const input = {
+        name: '  Signup funnel ',
+        description: ' ',
+        steps: document.steps,
+        options: { order: 'strict', exclusions: [], startDate: '2025-01-01' },
+        extra: true,
+      } as unknown as SavedFunnelInput;
+
+      await savedFunnelService.createFunnel(input);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'Signup funnel',
+        description: null,
+        steps: document.steps,
+        dateRange: null,
+        options: { order: 'strict' },
+      });
+    });
+
+    it('should rebuild steps, exclusions and conditions from their known fields', async () => {
+      mockRepository.create = vi.fn().mockResolvedValue(document);
+      const condition = { field: 'first_view', operator: 'equals', value: false, $where: '1' };
+      const input = {
+        name: 'Signup funnel',
+        steps: [
+          {
+            name: 'Landing',
+            matchType: 'path',
+            matchValue: '/',
+            anyOf: [{ matchType: 'path', matchValue: '/home', extra: true }],
+            conditions: {
+              combinator: 'and',
+              conditions: [condition, { combinator: 'or', conditions: [condition], extra: true }],
+            },
+            extra: true,
+          },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout', optional: false },
+        ],
+        dateRange: { type: 'relative', days: 7, extra: true },
+        options: {
+          conversionWindow: { value: 7, unit: 'days', extra: true },
+          exclusions: [
+            { matchType: 'path', matchValue: '/cancel', fromStep: 0, toStep: 1, extra: true },
+          ],
+        },
+      } as unknown as SavedFunnelInput;
+
+      await savedFunnelService.createFunnel(input);
+
+      const kept = { field: 'first_view', operator: 'equals', value: false };
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        name: 'Signup funnel',
+        description: null,
+        steps: [
+          {
+            name: 'Landing',
+            matchType: 'path',
+            matchValue: '/',
+            anyOf: [{ matchType: 'path', matchValue: '/home' }],
+            conditions: {
+              combinator: 'and',
+              conditions: [kept, { combinator: 'or', conditions: [kept] }],
+            },
+          },
+          { name: 'Checkout', matchType: 'path', matchValue: '/checkout', optional: false },
+        ],
+        dateRange: { type: 'relative', days: 7 },
+        options: {
+          conversionWindow: { value: 7, unit: 'days' },
+          exclusions: [{ matchType: 'path', matchValue: '/cancel', fromStep: 0, toStep: 1 }],
+        },
+      });
+    });
+
+    it('should throw error on repository failure', async () => {
+      mockRepository.create = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        savedFunnelService.createFunnel({ name: 'Signup funnel', steps: document.steps })
+      ).rejects.toThrow('Failed to save funnel');
+    });
+  });
+
+  describe('updateFunnel', () => {
+    it('should return null when the funnel does not exist', async () => {
+      mockRepository.update = vi.fn().mockResolvedValue(null);
+
+      const result = await savedFunnelService.updateFunnel(id, {
+        name: 'Renamed',
+        steps: document.steps,
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('should throw error on repository failure', async () => {
+      mockRepository.update = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        savedFunnelService.updateFunnel(id, { name: 'Renamed', steps: document.steps })
+      ).rejects.toThrow('Failed to update saved funnel');
+    });
+  });
+
+  describe('deleteFunnel', () => {
+    it('should delete the funnel', async () => {
+      mockRepository.delete = vi.fn().mockResolvedValue(true);
+
+      await expect(savedFunnelService.deleteFunnel(id)).resolves.toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith(id);
+    });
+
+    it('should throw error on repository failure', async () => {
+      mockRepository.delete = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(savedFunnelService.deleteFunnel(id)).rejects.toThrow(
+        'Failed to delete saved funnel'
+      );
+    });
+  });
+});
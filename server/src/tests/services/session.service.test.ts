@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionService } from '@/services/session.service';
+import { SessionRepository } from '@/repositories/session.repository';
+import type { SessionDocument } from '@/models/session.model';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+    startTimer: vi.fn(() => ({
+      done: vi.fn(),
+    })),
+  },
+}));
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  let mockRepository: Partial<SessionRepository>;
+
+  const startDate = new Date('2025-01-01T00:00:00Z');
+  const endDate = new Date('2025-01-31T23:59:59Z');
+
+  const session: SessionDocument = {
+    sessionId: 'session_1',
+    user_id: 'user_1',
+    start: new Date('2025-01-02T10:00:00Z'),
+    end: new Date('2025-01-02T10:12:00Z'),
+    duration: 12 * 60 * 1000,
+    pageCount: 3,
+    bounced: false,
+    entryPage: '/homepage',
+    exitPage: '/checkout',
+    hostname: 'www.trainwell.net',
+    utm: { utm_source: 'google' },
+  };
+
+  beforeEach(() => {
+    mockRepository = {
+      findSessions: vi.fn(),
+    };
+
+    sessionService = new SessionService(mockRepository as SessionRepository);
+  });
+
+  describe('getSessions', () => {
+    it('should serialize sessions and compute the bounce rate', async () => {
+      mockRepository.findSessions = vi.fn().mockResolvedValue({
+        totalSessions: 4,
+        totalUsers: 3,
+        avgDuration: 3 * 60 * 1000,
+        avgPageCount: 1.75,
+        bounces: 3,
+        sessions: [session],
+      });
+
+      const result = await sessionService.getSessions(startDate, endDate, { bounced: false });
+
+      expect(mockRepository.findSessions).toHaveBeenCalledWith(
+        startDate,
+        endDate,
+        { bounced: false },
+        100,
+        0
+      );
+      expect(result.stats).toEqual({
+        totalSessions: 4,
+        totalUsers: 3,
+        avgDuration: 3 * 60 * 1000,
+        avgPageCount: 1.75,
+        bounceRate: 75,
+      });
+      expect(result.sessions).toEqual([
+        {
+          ...session,
+          start: '2025-01-02T10:00:00.000Z',
+          end: '2025-01-02T10:12:00.000Z',
+        },
+      ]);
+    });
+
+    it('should report a zero bounce rate when there are no sessions', async () => {
+      mockRepository.findSessions = vi.fn().mockResolvedValue({
+        totalSessions: 0,
+        totalUsers: 0,
+        avgDuration: 0,
+        avgPageCount: 0,
+        bounces: 0,
+        sessions: [],
+      });
+
+      const result = await sessionService.getSessions(startDate, endDate, {}, 20, 40);
+
+      expect(mockRepository.findSessions).toHaveBeenCalledWith(startDate, endDate, {}, 20, 40);
+      expect(result.stats.bounceRate).toBe(0);
+      expect(result.sessions).toEqual([]);
+    });
+
+    it('should throw a generic error on repository failure', async () => {
+      mockRepository.findSessions = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(sessionService.getSessions(startDate, endDate)).rejects.toThrow(
+        'Failed to retrieve sessions'
+      );
+    });
+  });
+});
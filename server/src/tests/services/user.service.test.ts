@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UserService } from '@/services/user.service';
+import { UserRepository } from '@/repositories/user.repository';
+import { createMockEventDocument } from '../fixtures/events.fixture';
+
+// Mock the logger
+vi.mock('@/lib/logger', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    http: vi.fn(),
+    debug: vi.fn(),
+    startTimer: vi.fn(() => ({
+      done: vi.fn(),
+    })),
+  },
+}));
+
+describe('UserService', () => {
+  let userService: UserService;
+  let mockRepository: Partial<UserRepository>;
+
+  beforeEach(() => {
+    mockRepository = {
+      getTimeline: vi.fn(),
+    };
+
+    userService = new UserService(mockRepository as UserRepository);
+  });
+
+  describe('getTimeline', () => {
+    const landing = createMockEventDocument({
+      date: new Date('2025-01-02T10:00:00Z'),
+      content: { path: '/blog', hostname: 'blog.trainwell.net', first_view: true, utm: null },
+    });
+    const tagged = createMockEventDocument({
+      date: new Date('2025-01-02T10:03:00Z'),
+      content: {
+        path: '/pricing',
+        hostname: 'www.trainwell.net',
+        first_view: false,
+        utm: { utm_source: 'newsletter', utm_medium: null },
+      },
+    });
+    const last = createMockEventDocument({
+      date: new Date('2025-01-02T10:10:00Z'),
+      content: {
+        path: '/checkout',
+        hostname: 'www.trainwell.net',
+        first_view: false,
+        utm: { utm_source: 'google' },
+      },
+    });
+
+    it('should summarize each session from its events', async () => {
+      mockRepository.getTimeline = vi.fn().mockResolvedValue({
+        totalSessions: 1,
+        totalEvents: 3,
+        firstSeen: new Date('2025-01-02T10:00:00Z'),
+        lastSeen: new Date('2025-01-02T10:10:00Z'),
+        sessions: [
+          {
+            sessionId: 'session_1',
+            start: new Date('2025-01-02T10:00:00Z'),
+            end: new Date('2025-01-02T10:10:00Z'),
+            events: [landing, tagged, last],
+          },
+        ],
+      });
+
+      const result = await userService.getTimeline('user_123');
+
+      expect(mockRepository.getTimeline).toHaveBeenCalledWith('user_123', 100);
+      expect(result).toMatchObject({
+        userId: 'user_123',
+        firstSeen: '2025-01-02T10:00:00.000Z',
+        lastSeen: '2025-01-02T10:10:00.000Z',
+        totalSessions: 1,
+        totalEvents: 3,
+      });
+      expect(result!.sessions[0]).toMatchObject({
+        sessionId: 'session_1',
+        start: '2025-01-02T10:00:00.000Z',
+        end: '2025-01-02T10:10:00.000Z',
+        duration: 10 * 60 * 1000,
+        landingPage: '/blog',
+        hostname: 'blog.trainwell.net',
+        utm: { utm_source: 'newsletter', utm_medium: null },
+        pageCount: 3,
+      });
+      expect(result!.sessions[0]!.events.map((event) => event.id)).toEqual([
+        landing._id.toString(),
+        tagged._id.toString(),
+        last._id.toString(),
+      ]);
+    });
+
+    it('should leave the UTM parameters empty when no event carried any', async () => {
+      mockRepository.getTimeline = vi.fn().mockResolvedValue({
+        totalSessions: 1,
+        totalEvents: 1,
+        firstSeen: landing.date,
+        lastSeen: landing.date,
+        sessions: [
+          { sessionId: 'session_1', start: landing.date, end: landing.date, events: [landing] },
+        ],
+      });
+
+      const result = await userService.getTimeline('user_123', 20);
+
+      expect(mockRepository.getTimeline).toHaveBeenCalledWith('user_123', 20);
+      expect(result!.sessions[0]).toMatchObject({ duration: 0, utm: null, pageCount: 1 });
+    });
+
+    it('should parse the UTM parameters out of the query string', async () => {
+      const fromQuery = createMockEventDocument({
+        date: new Date('2025-01-02T10:00:00Z'),
+        content: {
+          path: '/homepage',
+          hostname: 'www.trainwell.net',
+          first_view: true,
+          queryString: '?utm_source=google&utm_campaign=spring',
+          utm: null,
+        },
+      });
+      mockRepository.getTimeline = vi.fn().mockResolvedValue({
+        totalSessions: 1,
+        totalEvents: 2,
+        firstSeen: fromQuery.date,
+        lastSeen: last.date,
+        sessions: [
+          { sessionId: null, start: fromQuery.date, end: last.date, events: [fromQuery, last] },
+        ],
+      });
+
+      const result = await userService.getTimeline('user_123');
+
+      expect(result!.sessions[0]).toMatchObject({
+        sessionId: null,
+        utm: {
+          utm_source: 'google',
+          utm_medium: null,
+          utm_campaign: 'spring',
+          utm_term: null,
+          utm_content: null,
+        },
+      });
+    });
+
+    it('should return null when the user has no events', async () => {
+      mockRepository.getTimeline = vi.fn().mockResolvedValue({
+        totalSessions: 0,
+        totalEvents: 0,
+        firstSeen: null,
+        lastSeen: null,
+        sessions: [],
+      });
+
+      const result = await userService.getTimeline('user_unknown');
+
+      expect(result).toBeNull();
+    });
+
+    it('should throw a generic error on repository failure', async () => {
+      mockRepository.getTimeline = vi.fn().mockRejectedValue(new Error('Database error'));
+
+      await expect(userService.getTimeline('user_123')).rejects.toThrow(
+        'Failed to retrieve user timeline'
+      );
+    });
+  });
+});
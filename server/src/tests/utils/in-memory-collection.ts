@@ -0,0 +1,71 @@
+import { aggregate, find } from 'mingo';
+import type { Db, Document } from 'mongodb';
+
+/**
+ * Round-trip statistics recorded by an in-memory collection
+ */
+export interface InMemoryCollectionStats {
+  roundTrips: number;
+  pipelines: Document[][];
+}
+
+/**
+ * Create an in-memory MongoDB database for testing aggregation pipelines and finds
+ * Pipelines and queries run against the given documents through mingo, so tests can
+ * assert on real query semantics instead of only on the pipeline shape
+ * @param documents - Documents stored in every collection
+ * @param latencyMs - Simulated network latency added to each round trip
+ */
+export function createInMemoryDb(
+  documents: Document[],
+  latencyMs: number = 0
+): { db: Db; stats: InMemoryCollectionStats } {
+  const stats: InMemoryCollectionStats = { roundTrips: 0, pipelines: [] };
+
+  const collection = {
+    find: (query: Document) => {
+      let cursor = find(documents, query);
+
+      // Chainable like a driver cursor, with one round trip on toArray
+      const findCursor = {
+        sort: (spec: Document) => {
+          cursor = cursor.sort(spec);
+          return findCursor;
+        },
+        limit: (value: number) => {
+          cursor = cursor.limit(value);
+          return findCursor;
+        },
+        skip: (value: number) => {
+          cursor = cursor.skip(value);
+          return findCursor;
+        },
+        toArray: async () => {
+          stats.roundTrips++;
+          return cursor.all();
+        },
+      };
+
+      return findCursor;
+    },
+    aggregate: (pipeline: Document[]) => ({
+      toArray: async () => {
+        stats.roundTrips++;
+        stats.pipelines.push(pipeline);
+
+        if (latencyMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, latencyMs));
+        }
+
+        // $lookup stages read from the same documents
+        return aggregate(documents, pipeline, { collectionResolver: () => documents });
+      },
+    }),
+  };
+
+  const db = {
+    collection: () => collection,
+  } as unknown as Db;
+
+  return { db, stats };
+}
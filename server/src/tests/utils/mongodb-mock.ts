@@ -30,6 +30,7 @@ export function createMockCollection<T>(): Collection<T> {
     insertMany: vi.fn(),
     updateOne: vi.fn(),
     updateMany: vi.fn(),
+    findOneAndUpdate: vi.fn(),
     deleteOne: vi.fn(),
     deleteMany: vi.fn(),
     countDocuments: vi.fn(),
@@ -61,6 +62,7 @@ export function getMockCollectionMethods<T>(collection: Collection<T>) {
     find: collection.find as ReturnType<typeof vi.fn>,
     insertOne: collection.insertOne as ReturnType<typeof vi.fn>,
     updateOne: collection.updateOne as ReturnType<typeof vi.fn>,
+    findOneAndUpdate: collection.findOneAndUpdate as ReturnType<typeof vi.fn>,
     deleteOne: collection.deleteOne as ReturnType<typeof vi.fn>,
     countDocuments: collection.countDocuments as ReturnType<typeof vi.fn>,
     distinct: collection.distinct as ReturnType<typeof vi.fn>,
@@ -10,15 +10,49 @@ export type {
   UTMParameters,
   EventDTO,
   EventQueryParams,
+  EventSortOrder,
   EventResponse,
   EventsResponse,
 } from './types/event.types';
 
 export type {
+  FunnelMatchOperator,
+  FunnelConditionField,
+  FunnelConditionOperator,
+  FunnelStepCondition,
+  FunnelConditionGroup,
+  FunnelStepMatcher,
   FunnelStepConfig,
+  FunnelExclusion,
+  ConversionWindowUnit,
+  ConversionWindow,
+  FunnelBreakdownProperty,
+  FunnelCountBy,
+  FunnelOrder,
+  FunnelTrendInterval,
+  FunnelComparisonMode,
+  FunnelComparisonRequest,
   FunnelAnalysisRequest,
+  TimeToConvertBucket,
+  TimeToConvert,
   FunnelStepResult,
+  FunnelSummary,
+  FunnelBreakdownSegment,
+  FunnelBreakdown,
+  FunnelTrendPoint,
+  FunnelTrends,
+  MetricDelta,
+  FunnelStepDelta,
+  FunnelComparison,
   FunnelAnalysisResponse,
+  FunnelUserStatus,
+  FunnelUsersRequest,
+  FunnelUser,
+  FunnelUsersResponse,
+  FunnelNextPagesRequest,
+  FunnelNextPage,
+  FunnelNextPages,
+  FunnelNextPagesResponse,
 } from './types/funnel.types';
 
 export type {
@@ -27,3 +61,44 @@ export type {
   CampaignAnalysisRequest,
   CampaignAnalysisResponse,
 } from './types/campaign.types';
+
+export type {
+  PathAnchor,
+  PathAnalysisRequest,
+  PathNode,
+  PathLink,
+  PathAnalysis,
+  PathAnalysisResponse,
+} from './types/path.types';
+
+export type {
+  RetentionInterval,
+  RetentionAnalysisRequest,
+  RetentionCohort,
+  RetentionSummary,
+  RetentionAnalysis,
+  RetentionAnalysisResponse,
+} from './types/retention.types';
+
+export type {
+  SavedFunnelDateRange,
+  SavedFunnelOptions,
+  SavedFunnelInput,
+  SavedFunnel,
+  SavedFunnelResponse,
+  SavedFunnelsResponse,
+} from './types/saved-funnel.types';
+
+export type {
+  UserTimelineParams,
+  UserTimelineSession,
+  UserTimeline,
+  UserTimelineResponse,
+} from './types/user.types';
+
+export type {
+  SessionDTO,
+  SessionQueryParams,
+  SessionStats,
+  SessionsResponse,
+} from './types/session.types';
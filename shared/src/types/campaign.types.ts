@@ -13,8 +13,10 @@ export interface CampaignMetrics {
   totalUsers: number;
   firstViewUsers: number; // Users where this was their first page view
   conversionRate: number; // Percentage of users who had first views
-  avgSessionDuration?: number;
-  bounceRate?: number;
+  // Session metrics over sessions landing with this combination, absent when none did
+  avgSessionDuration?: number; // Milliseconds
+  bounceRate?: number; // Percentage of sessions with a single page view
+  avgPages?: number; // Pages per session
 }
 
 /**
@@ -27,7 +29,7 @@ export interface CampaignPerformance {
   users: number;
   firstViews: number;
   conversionRate: number;
-  avgPages: number;
+  avgPages: number; // Pages per session, 0 when no session landed with this combination
 }
 
 /**
@@ -32,6 +32,7 @@ export interface PageViewContent {
   path: string;
   first_view: boolean;
   hostname: string;
+  queryString?: string | null; // Raw page query string, source of UTM parameters
   utm?: UTMParameters | null;
 }
 
@@ -51,6 +52,11 @@ export interface EventDTO {
   version: string | null;
 }
 
+/**
+ * Order events are listed in, by date
+ */
+export type EventSortOrder = 'asc' | 'desc';
+
 /**
  * Event query parameters for filtering
  */
@@ -64,6 +70,9 @@ export interface EventQueryParams {
   endDate?: string; // ISO 8601 date string
   limit?: number;
   skip?: number;
+  sort?: EventSortOrder; // Defaults to 'desc'
+  after?: string; // Cursor from pagination.nextCursor, can't be combined with before
+  before?: string; // Cursor from pagination.prevCursor
 }
 
 /**
@@ -86,6 +95,9 @@ export interface EventsResponse {
     limit: number;
     skip: number;
     count: number;
+    sort: EventSortOrder;
+    nextCursor: string | null; // Null on the last page
+    prevCursor: string | null; // Null on the first page
   };
   error?: string;
 }
@@ -3,13 +3,150 @@
  * These types are shared between client and server
  */
 
+/**
+ * How a step's matchValue is compared with the event field
+ * - equals: exact match
+ * - startsWith: field begins with matchValue
+ * - contains: field contains matchValue anywhere
+ * - regex: matchValue is a regular expression
+ * - glob: `*` matches within one path segment, `**` across segments, `?` one character
+ */
+export type FunnelMatchOperator = 'equals' | 'startsWith' | 'contains' | 'regex' | 'glob';
+
+/**
+ * Event properties a step condition can test
+ * UTM fields are read from content.utm, falling back to the page query string
+ */
+export type FunnelConditionField =
+  | 'hostname'
+  | 'path'
+  | 'first_view'
+  | 'utm_source'
+  | 'utm_medium'
+  | 'utm_campaign'
+  | 'utm_term'
+  | 'utm_content'
+  | 'platform'
+  | 'device_id';
+
+/**
+ * Operators available to step conditions
+ * exists / notExists test presence and take no value
+ */
+export type FunnelConditionOperator = FunnelMatchOperator | 'notEquals' | 'exists' | 'notExists';
+
+/**
+ * A single test against one event property
+ * e.g. { field: 'utm_source', operator: 'equals', value: 'facebook' }
+ */
+export interface FunnelStepCondition {
+  field: FunnelConditionField;
+  operator: FunnelConditionOperator;
+  value?: string | boolean; // boolean for first_view, string for every other field
+}
+
+/**
+ * Conditions combined with AND (all must match) or OR (any must match)
+ * Groups can be nested to mix both, e.g. hostname AND (utm_source OR utm_medium)
+ */
+export interface FunnelConditionGroup {
+  combinator: 'and' | 'or';
+  conditions: Array<FunnelStepCondition | FunnelConditionGroup>;
+}
+
+/**
+ * Which events a step or exclusion matches
+ * Matches on matchType/matchValue, on conditions, or on both (combined with AND)
+ */
+export interface FunnelStepMatcher {
+  matchType?: 'path' | 'hostname';
+  matchValue?: string;
+  operator?: FunnelMatchOperator; // Defaults to 'equals'
+  conditions?: FunnelConditionGroup;
+}
+
 /**
  * Funnel step configuration
+ * anyOf lists alternative matchers that also complete the step, e.g. /signup or /register
  */
-export interface FunnelStepConfig {
+export interface FunnelStepConfig extends FunnelStepMatcher {
   name: string;
-  matchType: 'path' | 'hostname';
-  matchValue: string;
+  anyOf?: FunnelStepMatcher[];
+  optional?: boolean; // Users can skip the step, not allowed on the first or last step
+}
+
+/**
+ * Events that disqualify a user when they happen between two steps
+ * e.g. a /cancel page view between /plans (fromStep 1) and /checkout (toStep 2)
+ */
+export interface FunnelExclusion extends FunnelStepMatcher {
+  fromStep: number; // Zero-based index of the step the exclusion starts after
+  toStep: number; // Zero-based index of the step that ends it, after fromStep
+}
+
+/**
+ * Units a conversion window can be expressed in
+ */
+export type ConversionWindowUnit = 'minutes' | 'hours' | 'days';
+
+/**
+ * Maximum time allowed between a user's first step and each later step
+ * e.g. { value: 14, unit: 'days' }
+ */
+export interface ConversionWindow {
+  value: number;
+  unit: ConversionWindowUnit;
+}
+
+/**
+ * Properties a funnel can be split by
+ * Users are attributed to the value on their first step 1 event, except
+ * landing_path which uses the path of their first-touch (first_view) page view
+ */
+export type FunnelBreakdownProperty =
+  | 'utm_source'
+  | 'utm_medium'
+  | 'utm_campaign'
+  | 'hostname'
+  | 'platform'
+  | 'landing_path';
+
+/**
+ * What a funnel counts
+ * - user: a user converts when they complete the steps anywhere in the range
+ * - session: every step must happen within a single session
+ */
+export type FunnelCountBy = 'user' | 'session';
+
+/**
+ * How strictly funnel steps must follow each other
+ * - strict: each step must be the very next page view after the previous step
+ * - sequential: steps must happen in order, other page views may happen in between
+ * - any: every step must happen in the range, in any order
+ */
+export type FunnelOrder = 'strict' | 'sequential' | 'any';
+
+/**
+ * Period length of funnel trend buckets
+ * Buckets are UTC calendar days, ISO weeks starting Monday, or calendar months
+ */
+export type FunnelTrendInterval = 'day' | 'week' | 'month';
+
+/**
+ * How the comparison range is derived from the requested range
+ * - previousPeriod: the same length of time immediately before the range
+ * - previousYear: the same dates one year earlier
+ * - custom: an explicit startDate/endDate
+ */
+export type FunnelComparisonMode = 'previousPeriod' | 'previousYear' | 'custom';
+
+/**
+ * Comparison range requested alongside a funnel
+ */
+export interface FunnelComparisonRequest {
+  mode: FunnelComparisonMode;
+  startDate?: string; // ISO 8601 date string, custom mode only
+  endDate?: string; // ISO 8601 date string, custom mode only
 }
 
 /**
@@ -19,6 +156,35 @@ export interface FunnelAnalysisRequest {
   steps: FunnelStepConfig[];
   startDate: string; // ISO 8601 date string
   endDate: string; // ISO 8601 date string
+  conversionWindow?: ConversionWindow; // Defaults to the whole date range
+  breakdownBy?: FunnelBreakdownProperty;
+  breakdownLimit?: number; // Top segments kept before the rest is grouped as "Other" (default 5)
+  trendInterval?: FunnelTrendInterval; // Also bucket results by the cohort's step 1 date
+  compareTo?: FunnelComparisonRequest; // Also run the funnel over a comparison range
+  exclusions?: FunnelExclusion[];
+  countBy?: FunnelCountBy; // Defaults to 'user'
+  order?: FunnelOrder; // Defaults to 'sequential'
+}
+
+/**
+ * Histogram bucket of conversion times
+ */
+export interface TimeToConvertBucket {
+  minMs: number; // Inclusive
+  maxMs: number | null; // Exclusive, null for the open-ended last bucket
+  users: number;
+}
+
+/**
+ * Distribution of the time between the previous step's event and this step's event
+ * Percentiles use the nearest-rank method
+ */
+export interface TimeToConvert {
+  medianMs: number;
+  p75Ms: number;
+  p90Ms: number;
+  meanMs: number;
+  histogram: TimeToConvertBucket[];
 }
 
 /**
@@ -27,10 +193,93 @@ export interface FunnelAnalysisRequest {
 export interface FunnelStepResult {
   step: string;
   stepIndex: number;
-  users: number;
+  users: number; // Distinct users, also in session mode
+  sessions?: number; // Session mode only, rates are then computed from sessions
   conversionRate: number; // Percentage of users from step 1
   dropoffRate: number; // Percentage lost from previous step
   stepConversionRate: number; // Percentage retained from previous step
+  optional?: boolean; // Skippable step, step rates compare against the previous required step
+  timeToConvert?: TimeToConvert; // Absent for step 1, steps nobody reached and the "Other" segment
+}
+
+/**
+ * Funnel summary statistics
+ */
+export interface FunnelSummary {
+  totalUsers: number;
+  completedUsers: number;
+  totalSessions?: number; // Session mode only
+  completedSessions?: number; // Session mode only
+  overallConversionRate: number;
+  avgStepConversionRate: number;
+}
+
+/**
+ * Funnel results for one breakdown segment
+ */
+export interface FunnelBreakdownSegment {
+  value: string; // Property value, "(none)" when unset or "Other" for the grouped tail
+  isOther: boolean;
+  steps: FunnelStepResult[];
+  summary: FunnelSummary;
+}
+
+/**
+ * Funnel split by a property, largest segments first
+ */
+export interface FunnelBreakdown {
+  property: FunnelBreakdownProperty;
+  segments: FunnelBreakdownSegment[];
+}
+
+/**
+ * Funnel results for users whose step 1 falls in one period
+ */
+export interface FunnelTrendPoint {
+  periodStart: string; // ISO 8601 date string, start of the bucket
+  steps: FunnelStepResult[];
+  summary: FunnelSummary;
+}
+
+/**
+ * Funnel results over time, one point per period in the date range
+ */
+export interface FunnelTrends {
+  interval: FunnelTrendInterval;
+  points: FunnelTrendPoint[];
+}
+
+/**
+ * Change of a metric from the comparison range to the requested range
+ */
+export interface MetricDelta {
+  absolute: number; // Current minus previous, in the metric's own unit (rates in points)
+  relative: number | null; // Percentage change, null when the previous value is 0
+}
+
+/**
+ * Change of one step between the comparison range and the requested range
+ */
+export interface FunnelStepDelta {
+  stepIndex: number;
+  users: MetricDelta;
+  conversionRate: MetricDelta;
+}
+
+/**
+ * The funnel over the comparison range, with deltas against the requested range
+ */
+export interface FunnelComparison {
+  startDate: string; // ISO 8601 date string
+  endDate: string; // ISO 8601 date string
+  steps: FunnelStepResult[];
+  summary: FunnelSummary;
+  deltas: FunnelStepDelta[];
+  summaryDeltas: {
+    totalUsers: MetricDelta;
+    completedUsers: MetricDelta;
+    overallConversionRate: MetricDelta;
+  };
 }
 
 /**
@@ -39,13 +288,95 @@ export interface FunnelStepResult {
 export interface FunnelAnalysisResponse {
   success: boolean;
   data?: {
-    steps: FunnelStepResult[];
-    summary: {
-      totalUsers: number;
-      completedUsers: number;
-      overallConversionRate: number;
-      avgStepConversionRate: number;
-    };
+    steps: FunnelStepResult[]; // Totals across all segments
+    summary: FunnelSummary;
+    breakdown?: FunnelBreakdown; // Present when breakdownBy was requested
+    trends?: FunnelTrends; // Present when trendInterval was requested
+    comparison?: FunnelComparison; // Present when compareTo was requested
   };
   error?: string;
 }
+
+/**
+ * Which users of a funnel step to list
+ * - converted: users who reached the step
+ * - dropped: users who reached the step but no later step
+ */
+export type FunnelUserStatus = 'converted' | 'dropped';
+
+/**
+ * Request for the users behind one funnel step
+ * Takes the same funnel definition as an analysis, without breakdowns, trends or comparisons
+ */
+export interface FunnelUsersRequest
+  extends Omit<
+    FunnelAnalysisRequest,
+    'breakdownBy' | 'breakdownLimit' | 'trendInterval' | 'compareTo'
+  > {
+  stepIndex: number;
+  status: FunnelUserStatus;
+  limit?: number; // Defaults to 50
+  skip?: number;
+}
+
+/**
+ * A user listed for a funnel step
+ */
+export interface FunnelUser {
+  user_id: string;
+  firstEventAt: string; // ISO 8601 date string, user's first funnel event in the range
+  lastEventAt: string; // ISO 8601 date string, user's last funnel event in the range
+}
+
+/**
+ * Users behind a funnel step, most recently active first
+ */
+export interface FunnelUsersResponse {
+  success: boolean;
+  data?: FunnelUser[];
+  pagination?: {
+    total: number;
+    limit: number;
+    skip: number;
+    count: number;
+  };
+  error?: string;
+}
+
+/**
+ * Request for the pages visited after dropping off at a funnel step
+ */
+export interface FunnelNextPagesRequest
+  extends Omit<FunnelUsersRequest, 'status' | 'limit' | 'skip'> {
+  limit?: number; // Most common pages to return (default 10)
+}
+
+/**
+ * A page visited right after dropping off, instead of the next step
+ * Counts are users, or sessions in session mode
+ */
+export interface FunnelNextPage {
+  path: string;
+  hostname: string;
+  count: number;
+  share: number; // Percentage of all drop-offs at the step
+}
+
+/**
+ * Where users went after dropping off at a funnel step, most common pages first
+ */
+export interface FunnelNextPages {
+  stepIndex: number;
+  dropped: number; // Users who reached the step but no later step
+  exited: number; // Drop-offs without another page view in the range
+  pages: FunnelNextPage[];
+}
+
+/**
+ * Post-drop-off pages response
+ */
+export interface FunnelNextPagesResponse {
+  success: boolean;
+  data?: FunnelNextPages;
+  error?: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * Shared Path Analysis Types
+ * For exploring page-to-page flows within sessions
+ */
+
+/**
+ * Which end of the explored paths is fixed
+ * - start: paths leading away from the page
+ * - end: paths leading up to the page
+ */
+export type PathAnchor = 'start' | 'end';
+
+/**
+ * Path analysis request
+ * Paths begin (or end) at the first view of the page in each session
+ */
+export interface PathAnalysisRequest {
+  startDate: string; // ISO 8601 date string
+  endDate: string; // ISO 8601 date string
+  anchor: PathAnchor;
+  page: string; // Exact page path, e.g. /plans
+  depth?: number; // Pages to follow from the anchor page (default 4)
+  limit?: number; // Top transitions kept per step (default 10)
+}
+
+/**
+ * A page at one step of the explored paths
+ */
+export interface PathNode {
+  name: string; // Page path
+  step: number; // Column from left to right, the anchor page is first in start mode and last in end mode
+}
+
+/**
+ * Sessions moving from one page to the next
+ */
+export interface PathLink {
+  source: number; // Index into nodes
+  target: number; // Index into nodes
+  sessions: number;
+}
+
+/**
+ * Page flows around the anchor page
+ * Links only connect to the anchor through other kept links
+ */
+export interface PathAnalysis {
+  anchor: PathAnchor;
+  page: string;
+  depth: number;
+  sessions: number; // Sessions that viewed the anchor page
+  nodes: PathNode[];
+  links: PathLink[];
+}
+
+/**
+ * Path analysis response
+ */
+export interface PathAnalysisResponse {
+  success: boolean;
+  data?: PathAnalysis;
+  error?: string;
+}
@@ -0,0 +1,67 @@
+/**
+ * Shared Retention Analysis Types
+ * For measuring how many users come back after a start event
+ */
+
+import type { FunnelStepMatcher } from './funnel.types';
+
+/**
+ * Length of a retention period
+ * Cohorts are UTC calendar days or ISO weeks starting Monday, while period N
+ * covers the Nth 24 hours (or 7 days) after each user's start event
+ */
+export type RetentionInterval = 'day' | 'week';
+
+/**
+ * Retention analysis request
+ * Users enter a cohort with their first start event in the date range
+ */
+export interface RetentionAnalysisRequest {
+  startDate: string; // ISO 8601 date string
+  endDate: string; // ISO 8601 date string
+  startEvent: FunnelStepMatcher; // e.g. first view of /onboarding
+  returnEvent: FunnelStepMatcher; // e.g. any view of /workouts
+  interval?: RetentionInterval; // Defaults to 'day'
+  periods?: number; // Periods tracked after the start event, including period 0 (default 8)
+}
+
+/**
+ * Users who did the start event in one day or week
+ * retained and rates are indexed by period, null while the period hasn't
+ * elapsed for every user in the cohort
+ */
+export interface RetentionCohort {
+  cohortStart: string; // ISO 8601 date string, start of the day or week
+  users: number;
+  retained: Array<number | null>; // Users with a return event in the period
+  rates: Array<number | null>; // Percentage of the cohort's users
+}
+
+/**
+ * Retention across all cohorts, weighted by cohort size
+ * Each period only counts cohorts where it has elapsed
+ */
+export interface RetentionSummary {
+  users: number;
+  rates: Array<number | null>;
+}
+
+/**
+ * Cohort by period retention matrix
+ * Cohorts without users are omitted
+ */
+export interface RetentionAnalysis {
+  interval: RetentionInterval;
+  periods: number;
+  cohorts: RetentionCohort[];
+  summary: RetentionSummary;
+}
+
+/**
+ * Retention analysis response
+ */
+export interface RetentionAnalysisResponse {
+  success: boolean;
+  data?: RetentionAnalysis;
+  error?: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * Shared Saved Funnel Types
+ * For storing funnel definitions so they can be reopened later
+ */
+
+import type { FunnelAnalysisRequest, FunnelStepConfig } from './funnel.types';
+
+/**
+ * Date range a saved funnel opens with
+ * - relative: the last N days up to today
+ * - absolute: fixed dates
+ */
+export type SavedFunnelDateRange =
+  | { type: 'relative'; days: number }
+  | { type: 'absolute'; startDate: string; endDate: string }; // ISO 8601 date strings
+
+/**
+ * Analysis options stored with a saved funnel
+ * Like an analysis request, breakdownBy and trendInterval cannot be combined
+ */
+export type SavedFunnelOptions = Pick<
+  FunnelAnalysisRequest,
+  'conversionWindow' | 'exclusions' | 'countBy' | 'order' | 'breakdownBy' | 'trendInterval'
+>;
+
+/**
+ * Fields sent when creating or replacing a saved funnel
+ */
+export interface SavedFunnelInput {
+  name: string;
+  description?: string;
+  steps: FunnelStepConfig[];
+  dateRange?: SavedFunnelDateRange; // Defaults to the dashboard's range
+  options?: SavedFunnelOptions;
+}
+
+/**
+ * Saved funnel as returned by the API
+ */
+export interface SavedFunnel extends SavedFunnelInput {
+  id: string;
+  createdAt: string; // ISO 8601 date string
+  updatedAt: string; // ISO 8601 date string
+}
+
+/**
+ * API Response wrapper for a single saved funnel
+ */
+export interface SavedFunnelResponse {
+  success: boolean;
+  data?: SavedFunnel;
+  error?: string;
+}
+
+/**
+ * API Response wrapper for saved funnels, most recently updated first
+ */
+export interface SavedFunnelsResponse {
+  success: boolean;
+  data?: SavedFunnel[];
+  error?: string;
+}
@@ -0,0 +1,67 @@
+/**
+ * Shared Session Types
+ * For sessions reconstructed from page view events
+ */
+
+import type { UTMParameters } from './event.types';
+
+/**
+ * A session reconstructed from a user's events
+ * Events are grouped by session_id and split after 30 minutes of inactivity,
+ * so a missing or reused session_id still yields separate visits
+ */
+export interface SessionDTO {
+  sessionId: string | null; // Tracked session_id, null when the events had none
+  user_id: string;
+  start: string; // ISO 8601 date string of the first event
+  end: string; // ISO 8601 date string of the last event
+  duration: number; // Milliseconds from the first event to the last
+  pageCount: number;
+  bounced: boolean; // Only one page viewed
+  entryPage: string;
+  exitPage: string;
+  hostname: string; // Hostname of the entry page
+  utm: UTMParameters | null; // UTM parameters of the entry page
+}
+
+/**
+ * Session query parameters for filtering
+ */
+export interface SessionQueryParams {
+  startDate: string; // ISO 8601 date string
+  endDate: string; // ISO 8601 date string
+  user_id?: string;
+  hostname?: string; // Entry page hostname
+  entryPage?: string;
+  exitPage?: string;
+  bounced?: boolean;
+  limit?: number;
+  skip?: number;
+}
+
+/**
+ * Aggregate stats over every session matching the filters
+ */
+export interface SessionStats {
+  totalSessions: number;
+  totalUsers: number;
+  avgDuration: number; // Milliseconds
+  avgPageCount: number;
+  bounceRate: number; // Percentage of sessions with a single page view
+}
+
+/**
+ * API Response wrapper for sessions, most recent first
+ */
+export interface SessionsResponse {
+  success: boolean;
+  data?: SessionDTO[];
+  stats?: SessionStats;
+  pagination?: {
+    total: number;
+    limit: number;
+    skip: number;
+    count: number;
+  };
+  error?: string;
+}
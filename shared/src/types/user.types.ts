@@ -0,0 +1,49 @@
+/**
+ * Shared User Types
+ * For following a single user's journey across sessions
+ */
+
+import type { EventDTO, UTMParameters } from './event.types';
+
+/**
+ * User timeline query parameters
+ */
+export interface UserTimelineParams {
+  limit?: number; // Most recent sessions returned (default 100)
+}
+
+/**
+ * One session of a user's timeline
+ */
+export interface UserTimelineSession {
+  sessionId: string | null; // null for the events without a session id
+  start: string; // ISO 8601 date string of the first event
+  end: string; // ISO 8601 date string of the last event
+  duration: number; // Milliseconds from the first event to the last
+  landingPage: string; // Path of the first event
+  hostname: string; // Hostname of the first event
+  utm: UTMParameters | null; // UTM parameters of the first event that carried any, from its utm or query string
+  pageCount: number;
+  events: EventDTO[]; // Oldest first
+}
+
+/**
+ * All of a user's events, grouped by session
+ */
+export interface UserTimeline {
+  userId: string;
+  firstSeen: string; // ISO 8601 date string
+  lastSeen: string; // ISO 8601 date string
+  totalSessions: number; // Sessions overall, sessions may hold only the most recent
+  totalEvents: number;
+  sessions: UserTimelineSession[]; // Most recent first
+}
+
+/**
+ * User timeline response
+ */
+export interface UserTimelineResponse {
+  success: boolean;
+  data?: UserTimeline;
+  error?: string;
+}